@@ -54,12 +54,92 @@ export interface HypeData {
 export interface ContractData {
     /** Years remaining on current contract (0 = expired) */
     yearsRemaining: number;
-    /** Annual salary in millions */
+    /** Cap hit for the current contract year in millions (base salary + prorated bonus) */
     annualSalary: number;
     /** Number of contracts signed (0 = rookie contract, 1 = first extension, 2+ = subsequent) */
     contractCount: number;
     /** Draft pick number if rookie (for historical reference) */
     draftPick?: number;
+    /** Contract length in years */
+    totalYears: number;
+    /** Base salary for each contract year in millions (index 0 = first year) */
+    salarySchedule: number[];
+    /** Signing bonus in millions, prorated evenly across the contract for cap purposes */
+    signingBonus: number;
+    /** Base salary in millions still owed if the player is released */
+    guaranteedSalary: number;
+}
+
+/** How base salary is spread across the years of a contract */
+export type ContractStructure = 'flat' | 'escalating' | 'back_loaded';
+
+/** Terms offered when signing a contract */
+export interface ContractTerms {
+    /** Length in years (CONTRACTS.MIN_LENGTH to CONTRACTS.MAX_LENGTH) */
+    years: number;
+    structure?: ContractStructure;
+    /** Signing bonus in millions, paid out of the contract's total value */
+    signingBonus?: number;
+    /** Base salary in millions guaranteed against release */
+    guaranteedSalary?: number;
+}
+
+/** Cap charge left behind by a player who is no longer on the roster */
+export interface DeadCapCharge {
+    playerId: string;
+    playerName: string;
+    reason: 'released' | 'traded' | 'retired';
+    /** Charged against the current season's cap */
+    amount: number;
+}
+
+/** Contract status for display */
+export interface ContractStatusSummary {
+    yearsRemaining: number;
+    annualSalary: number;
+    contractCount: number;
+    totalYears: number;
+    salarySchedule: number[];
+    signingBonus: number;
+    guaranteedSalary: number;
+    /** Total left to pay: remaining base salary plus unpaid bonus proration */
+    remainingValue: number;
+    deadCapIfReleased: number;
+    deadCapIfTraded: number;
+    isExpired: boolean;
+    canBeTrad: boolean;
+    tradeValue: number;
+    proposedResignSalary: number;
+}
+
+/** League salary cap settings (in millions per year) */
+export interface SalaryCapSettings {
+    cap: number;
+    /** Minimum payroll, or null when the league has no floor */
+    floor: number | null;
+}
+
+/** A team's payroll measured against the cap */
+export interface TeamCapStatus {
+    teamId: string;
+    /** Everything charged against the cap, dead money included */
+    payroll: number;
+    deadCap: number;
+    cap: number;
+    floor: number | null;
+    /** Room left under the cap (negative when over) */
+    capSpace: number;
+    overCap: boolean;
+    belowFloor: boolean;
+}
+
+/** Committed salary for one future season */
+export interface CapProjectionYear {
+    /** 0 = the current contract year, 1 = next season, ... */
+    yearOffset: number;
+    committed: number;
+    capSpace: number;
+    playersUnderContract: number;
 }
 
 /** Re-signing decision options */
@@ -76,6 +156,8 @@ export interface ResigningResult {
     draftPointsReceived?: number;
     /** Message describing the result */
     message: string;
+    /** Roster rules the move went through despite breaking */
+    warnings?: string[];
 }
 
 /** Player with expired contract pending decision */
@@ -199,6 +281,24 @@ export interface EconomyPlayer {
     coreAttributes: CoreAttributes;
     /** Contract data - tracks contract years, salary, and re-sign status */
     contractData?: ContractData;
+    /** Stat lines from this season's simulated games, oldest first */
+    gameLog?: PlayerGameLogEntry[];
+    /** Archived seasons and career totals */
+    careerHistory?: PlayerCareerHistory;
+    /** Public pre-draft data: combine results and college production */
+    prospectProfile?: ProspectProfile;
+    /** Current injury (absent once fully healed) */
+    injury?: PlayerInjury;
+    /** Healed injuries, oldest first */
+    injuryHistory?: PlayerInjury[];
+    /** Set while the player is on injured reserve */
+    injuredReserve?: InjuredReserveStatus;
+    /** On the team's practice squad: off the active roster and not eligible to play */
+    practiceSquad?: boolean;
+    /** Season-long wear (0-100) built up by heavy usage */
+    wear?: number;
+    /** In-game fatigue (0-100), only set while a game is being simulated */
+    fatigue?: number;
 }
 
 /** Team entity */
@@ -208,8 +308,18 @@ export interface Team {
     fameBudget: number;
     coachVP: number;
     roster: EconomyPlayer[];
-    record: { wins: number; losses: number };
+    record: { wins: number; losses: number; ties?: number };
     playoffFinish?: PlayoffFinish;
+    /** Conference the team plays in (see LeagueStructure) */
+    conferenceId?: string;
+    /** Division the team plays in (see LeagueStructure) */
+    divisionId?: string;
+    /** Dead money charged against this season's cap */
+    deadCap?: DeadCapCharge[];
+    /** Scouting points left this season */
+    scoutingPoints?: number;
+    /** Hand-ordered depth chart positions (player ids, starters first); other positions are auto-filled */
+    depthChart?: DepthChartOverrides;
 }
 
 /** Playoff finish types */
@@ -224,7 +334,35 @@ export type PlayoffFinish =
 /** Playoff bracket entry */
 export interface PlayoffTeam {
     team: Team;
+    /** League-wide seed */
     seed: number;
+    /** Seed within the team's conference (when the league has conferences) */
+    conferenceSeed?: number;
+    conferenceId?: string;
+    qualification?: 'division_winner' | 'wild_card';
+    /** Human-readable explanation of how the seed was earned */
+    explanation?: string;
+}
+
+/** A division of teams within a conference */
+export interface Division {
+    id: string;
+    name: string;
+    conferenceId: string;
+    teamIds: string[];
+}
+
+/** A conference made up of divisions */
+export interface Conference {
+    id: string;
+    name: string;
+    divisionIds: string[];
+}
+
+/** How the league is organised into conferences and divisions */
+export interface LeagueStructure {
+    conferences: Conference[];
+    divisions: Division[];
 }
 
 /** Playoff round result */
@@ -233,6 +371,49 @@ export interface PlayoffMatchResult {
     loser: Team;
     winnerScore: number;
     loserScore: number;
+    boxScore: GameBoxScore;
+}
+
+/** Final score of a game */
+export interface GameScore {
+    homeScore: number;
+    awayScore: number;
+}
+
+/** A regular-season game on the schedule */
+export interface ScheduledGame {
+    id: string;
+    week: number;
+    homeTeamId: string;
+    awayTeamId: string;
+    /** Final score, set once the game has been played */
+    result?: GameScore;
+    /** Team box score, set when the game was simulated */
+    boxScore?: GameBoxScore;
+    /** Officiating crew for the game (league average when absent) */
+    officials?: OfficialsTendencies;
+}
+
+/** Current winning/losing streak */
+export interface StreakInfo {
+    type: 'W' | 'L' | 'T';
+    length: number;
+}
+
+/** One team's line in the standings table */
+export interface StandingsEntry {
+    teamId: string;
+    teamName: string;
+    wins: number;
+    losses: number;
+    ties: number;
+    gamesPlayed: number;
+    /** Ties count as half a win */
+    winPct: number;
+    pointsFor: number;
+    pointsAgainst: number;
+    pointDifferential: number;
+    streak: StreakInfo | null;
 }
 
 /** Season standings */
@@ -241,14 +422,97 @@ export interface SeasonStandings {
     week: number;
     isPlayoffs: boolean;
     playoffBracket?: PlayoffBracket;
+    /** Season number, starting at 1 */
+    season: number;
+    /** Number of regular-season weeks */
+    totalWeeks: number;
+    /** Full regular-season schedule */
+    schedule: ScheduledGame[];
+}
+
+/** Supported playoff field sizes */
+export type PlayoffSize = 4 | 6 | 8 | 12 | 16;
+
+/** Playoff bracket configuration */
+export interface PlayoffFormat {
+    /** Number of teams that qualify */
+    teams: PlayoffSize;
+    /** Re-pair teams after every round so the best seed always meets the worst */
+    reseed: boolean;
+    /** Games per series (odd; 1 = single elimination) */
+    seriesLength: number;
+    /** Optional per-round override of seriesLength (index 0 = first round) */
+    roundSeriesLengths?: number[];
+    /** Keep conferences on separate halves of the bracket until the final */
+    byConference: boolean;
+}
+
+/** Round names, counted back from the final */
+export type PlayoffRoundName = 'wild_card' | 'divisional' | 'conference_finals' | 'championship';
+
+/** A seeded team as stored in the bracket (IDs only so brackets serialize cleanly) */
+export interface PlayoffSeedEntry {
+    teamId: string;
+    seed: number;
+    conferenceSeed?: number;
+    conferenceId?: string;
+    explanation?: string;
+}
+
+/** One game within a playoff series */
+export interface PlayoffGame {
+    homeTeamId: string;
+    awayTeamId: string;
+    homeScore: number;
+    awayScore: number;
+    /** Team box score, set when the game was simulated */
+    boxScore?: GameBoxScore;
+    /** Officiating crew that worked the game (league average when absent) */
+    officials?: OfficialsTendencies;
 }
 
-/** Playoff bracket structure */
+/** A playoff series (a single game when the series length is 1) */
+export interface PlayoffSeries {
+    id: string;
+    roundNumber: number;
+    /** Bracket side (conference id or 'league'); undefined for the cross-conference final */
+    side?: string;
+    higherSeedId: string;
+    lowerSeedId: string;
+    gamesToWin: number;
+    games: PlayoffGame[];
+    winnerId?: string;
+    loserId?: string;
+    /** Officiating crew for the series' remaining games (league average when absent) */
+    officials?: OfficialsTendencies;
+}
+
+/** One round of the bracket */
+export interface PlayoffRound {
+    number: number;
+    name: PlayoffRoundName;
+    series: PlayoffSeries[];
+    /** Teams that skip this round with a bye */
+    byeTeamIds: string[];
+}
+
+/** One half of the bracket and the teams still alive in it, in bracket order (null = bye) */
+export interface PlayoffBracketSide {
+    key: string;
+    slots: (string | null)[];
+}
+
+/** Playoff bracket structure - advanced one round at a time */
 export interface PlayoffBracket {
-    wildCardRound: PlayoffMatchResult[];
-    divisionalRound: PlayoffMatchResult[];
-    conferenceFinals: PlayoffMatchResult[];
-    championship?: PlayoffMatchResult;
+    format: PlayoffFormat;
+    seeds: PlayoffSeedEntry[];
+    sides: PlayoffBracketSide[];
+    rounds: PlayoffRound[];
+    totalRounds: number;
+    /** Round currently being played (1-based) */
+    currentRound: number;
+    /** Set once the final is decided */
+    championId?: string;
 }
 
 /** Performance event from a game */
@@ -265,6 +529,8 @@ export interface TransactionResult {
     message: string;
     newBudget?: number;
     player?: EconomyPlayer;
+    /** Roster rules the transaction went through despite breaking */
+    warnings?: string[];
 }
 
 /** Harvest result from trading a player */
@@ -272,6 +538,8 @@ export interface HarvestResult {
     success: boolean;
     famePayout: number;
     player: EconomyPlayer;
+    /** Roster rules the harvest left broken */
+    warnings?: string[];
 }
 
 // ============================================================================
@@ -326,6 +594,212 @@ export const ECONOMY_CONSTANTS = {
     PLAYOFFS: {
         TEAMS_QUALIFY: 8,
         REGULAR_SEASON_WEEKS: 17,
+        /** Field sizes the bracket builder supports */
+        SUPPORTED_SIZES: [4, 6, 8, 12, 16] as PlayoffSize[],
+        /** Default bracket: 8 teams, fixed bracket, single games, split by conference */
+        DEFAULT_FORMAT: {
+            teams: 8,
+            reseed: false,
+            seriesLength: 1,
+            byConference: true,
+        } as PlayoffFormat,
+        /** Home games for the higher seed in a series (2-2-1-1-1), by game number */
+        SERIES_HOME_PATTERN: [true, true, false, false, true, false, true],
+    },
+
+    /** Conference and division layout */
+    LEAGUE_STRUCTURE: {
+        CONFERENCES: 2,
+        DIVISIONS_PER_CONFERENCE: 2,
+        CONFERENCE_NAMES: ['Crown', 'Shield', 'Dragon', 'Tower'],
+        DIVISION_NAMES: ['North', 'South', 'East', 'West'],
+    },
+
+    /** Game simulation tuning */
+    GAME_SIM: {
+        /** Starters per position in a game lineup */
+        LINEUP: { QB: 1, WR: 3, OL: 5, DL: 4, CB: 4 } as Record<Position, number>,
+        /** Possessions per team in regulation */
+        DRIVES_PER_TEAM: 11,
+        /** Extra possessions per team before a regular-season game ends tied */
+        OVERTIME_DRIVES: 2,
+        /** Overtime possessions per team before a playoff game is settled by a long kick */
+        MAX_OVERTIME_DRIVES: 10,
+        /** Plays before a drive is cut off (clock runs out) */
+        MAX_PLAYS_PER_DRIVE: 13,
+        /**
+         * Extra per-play randomness (standard deviations) layered on the clash
+         * results so rating gaps tilt games rather than decide every snap
+         */
+        PLAY_NOISE: { LINE: 10, SEPARATION: 10, CONTEST: 0.3 },
+        /** How strongly the raw clash margins count before the noise is added */
+        CLASH_WEIGHT: { LINE: 0.3, SEPARATION: 0.2, CONTEST: 0.2 },
+        /** Chance a tackle attempt holds when the tackle clash is won / lost */
+        TACKLE_HOLD_CHANCE: { WON: 0.9, LOST: 0.45 },
+        /** Line clash margin below which the QB is sacked */
+        SACK_MARGIN: -19,
+        /** Line clash margin below which the QB throws under pressure */
+        PRESSURE_MARGIN: -4,
+        /** Accuracy multiplier when pressured */
+        PRESSURE_ACCURACY: 0.85,
+        /** Separation needed for a receiver to count as open */
+        OPEN_SEPARATION: 4,
+        /** Base completion chance to an open receiver */
+        OPEN_COMPLETION_BASE: 0.80,
+        /** Contested catch result above which the ball is caught */
+        CONTESTED_CATCH_THRESHOLD: 0.02,
+        /** Contested catch result below which the ball can be intercepted */
+        INTERCEPTION_THRESHOLD: -0.30,
+        /** Chance a losing contested ball is actually intercepted */
+        INTERCEPTION_CHANCE: 0.12,
+        /** Chance the defense recovers a fumble */
+        FUMBLE_LOST_CHANCE: 0.55,
+        /** Air yards by throw depth [min, max] */
+        AIR_YARDS: {
+            short: { min: 0, max: 7 },
+            medium: { min: 8, max: 16 },
+            deep: { min: 17, max: 40 },
+        },
+        /** Chance of each throw depth (remainder is deep) */
+        DEPTH_WEIGHTS: { short: 0.58, medium: 0.30 },
+        /** Longest field goal attempted */
+        MAX_FIELD_GOAL: 55,
+        /** Accuracy bonus for the home quarterback */
+        HOME_FIELD_BONUS: 1.03,
+        /** Where drives start after a score or touchback */
+        TOUCHBACK_YARD_LINE: 25,
+        PUNT_DISTANCE: { min: 35, max: 50 },
+    },
+
+    /** In-game injuries and injured reserve */
+    INJURIES: {
+        /** Injury chance per player per contact, by what caused the contact */
+        BASE_CHANCE: { tackle: 0.004, line: 0.002, sack: 0.015 } as Record<InjuryTrigger, number>,
+        /** Durability (average of stamina and balance) at which the base chance applies */
+        DURABILITY_BASELINE: 65,
+        /** Risk change per point of durability below (or above) the baseline */
+        DURABILITY_WEIGHT: 0.02,
+        /** Risk added per year of age past this one */
+        AGE_THRESHOLD: 29,
+        AGE_WEIGHT: 0.06,
+        /** Risk change per point of the opponent's aggression away from the baseline */
+        AGGRESSION_BASELINE: 65,
+        AGGRESSION_WEIGHT: 0.01,
+        /** Bounds on the combined risk multiplier */
+        RISK_RANGE: { MIN: 0.4, MAX: 2.5 },
+        /** Chance of each severity */
+        SEVERITY_WEIGHTS: { minor: 0.55, moderate: 0.27, severe: 0.13, season_ending: 0.05 } as Record<InjurySeverity, number>,
+        /** Weeks out by severity [min, max] */
+        WEEKS_OUT: {
+            minor: [1, 2],
+            moderate: [3, 5],
+            severe: [6, 10],
+            season_ending: [12, 20],
+        } as Record<InjurySeverity, [number, number]>,
+        /** Weeks of lingering stat penalties after returning, by severity [min, max] */
+        LINGERING_WEEKS: {
+            minor: [0, 1],
+            moderate: [1, 3],
+            severe: [2, 4],
+            season_ending: [3, 6],
+        } as Record<InjurySeverity, [number, number]>,
+        /** Points taken off each affected stat until the injury has fully healed */
+        STAT_PENALTY: { minor: 3, moderate: 5, severe: 8, season_ending: 10 } as Record<InjurySeverity, number>,
+        /** Players must be out at least this long to go on injured reserve, and stay there this long */
+        RESERVE_MIN_WEEKS: 4,
+    },
+
+    /**
+     * How aggression plays out in the clashes. Each edge comes with a cost:
+     * aggressive corners draw flags and aggressive rushers over-pursue.
+     */
+    AGGRESSION: {
+        /** Aggression at which the base chances apply and no bonus is given */
+        BASELINE: 65,
+        /** Big-hit chance on a won tackle, and its change per point of aggression */
+        BIG_HIT_CHANCE: 0.06,
+        BIG_HIT_WEIGHT: 0.0015,
+        /** Forced-fumble chance on a won tackle, and its change per point of aggression */
+        FUMBLE_CHANCE: 0.012,
+        FUMBLE_WEIGHT: 0.0002,
+        /** Big hits multiply the fumble chance and the ball carrier's injury chance */
+        BIG_HIT_FUMBLE_MULTIPLIER: 3,
+        BIG_HIT_INJURY_MULTIPLIER: 2,
+        /** Press coverage points per point of a corner's aggression */
+        PRESS_BONUS: 0.3,
+        /** Pass-rush points per point of a rusher's aggression */
+        RUSH_BURST: 0.25,
+        /** Chance a winning rusher over-pursues and the QB escapes, and its change per point of aggression */
+        OVER_PURSUIT_CHANCE: 0.08,
+        OVER_PURSUIT_WEIGHT: 0.002,
+        /** Bounds on every aggression-driven chance */
+        CHANCE_RANGE: { MIN: 0, MAX: 0.5 },
+    },
+
+    /** Fouls, how they're enforced and how officials call them */
+    PENALTIES: {
+        /** Chance of each foul when its situation comes up, for a player at the baselines */
+        BASE_CHANCE: {
+            offsides: 0.004,             // per defensive lineman per snap
+            offensive_holding: 0.08,     // per beaten blocker who would have allowed pressure
+            illegal_contact: 0.004,      // per press at the line
+            pass_interference: 0.07,     // per contested pass the defense gets to
+            roughing_the_passer: 0.03,   // per pressured throw
+            personal_foul: 0.006,        // per tackle
+        } as Record<PenaltyType, number>,
+        /** Yards walked off for each foul (pass interference is spotted where it happened) */
+        YARDS: {
+            offsides: 5,
+            offensive_holding: 10,
+            illegal_contact: 5,
+            pass_interference: 0,
+            roughing_the_passer: 15,
+            personal_foul: 15,
+        } as Record<PenaltyType, number>,
+        /** Defensive fouls that also give the offense a fresh set of downs */
+        AUTOMATIC_FIRST_DOWN: ['illegal_contact', 'pass_interference', 'roughing_the_passer', 'personal_foul'] as PenaltyType[],
+        /** Aggression and awareness at which the base chances apply */
+        BASELINE: 65,
+        /** Chance change per point of aggression above, and of awareness below, the baseline */
+        AGGRESSION_WEIGHT: 0.02,
+        AWARENESS_WEIGHT: 0.015,
+        /** Bounds on a player's discipline multiplier */
+        DISCIPLINE_RANGE: { MIN: 0.3, MAX: 3 },
+        /** Crew used when a game doesn't name one */
+        DEFAULT_OFFICIALS: { strictness: 1 } as OfficialsTendencies,
+    },
+
+    /** In-game fatigue, rotation and season-long wear */
+    FATIGUE: {
+        /** Fatigue (0-100) added per snap on the field at the stamina baseline */
+        SNAP_COST: 1.5,
+        /** Fatigue recovered per snap spent off the field at the stamina baseline */
+        SNAP_RECOVERY: 0.8,
+        /** Stamina at which the base rates apply */
+        STAMINA_BASELINE: 65,
+        /** Rate change per point of stamina away from the baseline */
+        STAMINA_WEIGHT: 0.02,
+        /** Bounds on the stamina rate multiplier */
+        RATE_RANGE: { MIN: 0.5, MAX: 1.6 },
+        /** Share of each effective stat lost at full fatigue */
+        MAX_STAT_PENALTY: 0.2,
+        /** Starters this tired are spelled by a fresher backup between drives */
+        ROTATION_THRESHOLD: 55,
+        /** How much fresher the backup must be */
+        ROTATION_MARGIN: 25,
+        /** Share of season wear a player carries into kickoff as fatigue */
+        WEAR_CARRYOVER: 0.5,
+        /** Season wear (0-100) added per snap played */
+        WEAR_PER_SNAP: 0.2,
+        /** Wear recovered in a week with a game, and in a bye week */
+        WEEKLY_RECOVERY: 12,
+        BYE_RECOVERY: 30,
+    },
+
+    /** Tiebreaker configuration */
+    TIEBREAKERS: {
+        /** Minimum games against common opponents before that step applies */
+        MIN_COMMON_GAMES: 4,
     },
 
     /** Player generation tiers with stat ranges [min, max] */
@@ -375,10 +849,97 @@ export const ECONOMY_CONSTANTS = {
         BREAKTHROUGH_AMOUNT: { min: 3, max: 5 },
     },
 
+    /** Offseason skill progression and regression */
+    PROGRESSION: {
+        /** Years up to peakAge that players hold steady instead of developing */
+        PRIME_YEARS: 2,
+        /** Yearly growth (rating points) a developing player gets at potential 0 */
+        BASE_GROWTH: 0.5,
+        /** Extra yearly growth per potential grade */
+        GROWTH_PER_POTENTIAL: 1.5,
+        /** Growth on secondary (non-position) stats relative to primary ones */
+        SECONDARY_GROWTH: 0.5,
+        /** Decline in the first year past peakAge, plus this much more each further year */
+        DECLINE_BASE: 1.5,
+        DECLINE_PER_YEAR: 0.75,
+        /** Share of the yearly change each kind of stat takes (negative: moves the other way) */
+        GROWTH_WEIGHTS: { physical: 0.6, skill: 1, mental: 1 },
+        DECLINE_WEIGHTS: { physical: 1.2, skill: 0.6, mental: -0.3 },
+        /** How hard age hits each position (speed positions fall off fastest) */
+        POSITION_DECLINE: { QB: 0.7, WR: 1.2, CB: 1.25, OL: 0.9, DL: 1.0 } as Record<Position, number>,
+        /** Random spread per stat per offseason (rating points) */
+        STAT_NOISE: 1,
+        /** Growth kept by a player who never played (full-time players keep all of it) */
+        BENCH_GROWTH: 0.5,
+        /** Snaps per team game that count as full-time play (starters average about 60) */
+        FULL_GAME_SNAPS: 50,
+        /** Fame per game that counts as an average season */
+        PERFORMANCE_BASELINE: 15,
+        /** Positions with no fame-earning stats; their seasons count as average */
+        UNRATED_POSITIONS: ['OL'] as Position[],
+        /** Most a standout (or poor) season moves growth either way */
+        PERFORMANCE_SWING: 0.25,
+        /** Highest potential grade still held up to each age; none past peakAge */
+        POTENTIAL_AGE_CAPS: [
+            { maxAge: 24, grade: 3 },
+            { maxAge: 27, grade: 2 },
+        ],
+    },
+
+    /** End-of-season retirement decisions */
+    RETIREMENT: {
+        /** Nobody retires younger than this */
+        MIN_AGE: 30,
+        /** Everybody retires at this age */
+        MAX_AGE: 40,
+        /** Retirement chance per year of age from MIN_AGE (MIN_AGE itself counts as one) */
+        CHANCE_PER_YEAR: 0.08,
+        /** Extra chance once skills have faded below this overall */
+        DECLINED_OVERALL: 60,
+        DECLINED_BONUS: 0.2,
+        /** Extra chance after playing under half a full-time share of snaps */
+        BENCHED_BONUS: 0.1,
+        /** Less chance after a star season (fame per game at this multiple of the progression baseline) */
+        STAR_MULTIPLE: 2,
+        STAR_DISCOUNT: 0.15,
+        /** Chance kept by players still under contract */
+        UNDER_CONTRACT_FACTOR: 0.5,
+        /** Extra chance for players without a contract */
+        UNSIGNED_BONUS: 0.15,
+    },
+
+    /** Hall of fame elections */
+    HALL_OF_FAME: {
+        /** Seasons a retiree waits before appearing on the ballot */
+        WAITING_SEASONS: 2,
+        /** Ballots a candidate can appear on before dropping off */
+        MAX_BALLOTS: 5,
+        /** Score needed on the first ballot; each later ballot needs this much less */
+        THRESHOLD: 20,
+        THRESHOLD_DECAY: 0.05,
+        /** Score per unit of career fame, per title and per award */
+        FAME_PER_POINT: 1000,
+        TITLE_POINTS: 3,
+        MVP_POINTS: 5,
+        ALL_LEAGUE_POINTS: 1.5,
+    },
+
     /** Contract system configuration */
     CONTRACTS: {
         /** Standard contract length in years */
         CONTRACT_LENGTH: 4,
+        /** Shortest contract that can be signed */
+        MIN_LENGTH: 1,
+        /** Longest contract that can be signed */
+        MAX_LENGTH: 6,
+
+        /** Year-over-year growth in base salary by contract structure */
+        STRUCTURE_GROWTH: {
+            /** Linear raise each year */
+            ESCALATING: 0.05,
+            /** Compounding raise each year, pushing money to the end */
+            BACK_LOADED: 0.25,
+        },
 
         /** Rookie contract salaries by pick (in millions per year) */
         ROOKIE_SALARIES: {
@@ -427,6 +988,194 @@ export const ECONOMY_CONSTANTS = {
         },
     },
 
+    /** Contract negotiation behaviour */
+    NEGOTIATION: {
+        /** Opening ask relative to the player's re-sign value */
+        ASKING_PREMIUM: 1.1,
+        /** Walk-away floor as a share of the opening ask */
+        WALK_AWAY_RATIO: 0.85,
+        /** How much of the hype multiplier's deviation from 1.0 shows up in demands */
+        HYPE_WEIGHT: 0.5,
+        /** Max discount (or premium) from playing for a winning (or losing) team */
+        TEAM_SUCCESS_DISCOUNT: 0.15,
+        /** Team success added for each playoff finish */
+        PLAYOFF_SUCCESS_BONUS: {
+            champion: 0.25,
+            runner_up: 0.2,
+            conference_finals: 0.15,
+            divisional: 0.1,
+            wild_card: 0.05,
+            missed: 0,
+        } as Record<PlayoffFinish, number>,
+        /** Team success at or above which players start eager, below which they start wary */
+        EAGER_SUCCESS: 0.6,
+        WARY_SUCCESS: 0.35,
+        /** Preferred contract length by age (first bracket the age fits) */
+        LENGTH_PREFERENCE: [
+            { maxAge: 25, years: 5 },
+            { maxAge: 29, years: 4 },
+            { maxAge: 32, years: 3 },
+            { maxAge: Infinity, years: 2 },
+        ],
+        /** Value lost per year an offer is away from the preferred length */
+        LENGTH_PENALTY_PER_YEAR: 0.05,
+        /** Value added by guaranteed money (bonus + guarantees) as a share of total value */
+        GUARANTEE_VALUE: 0.1,
+        /** Offers below this share of the walk-away floor are insulting */
+        INSULT_RATIO: 0.8,
+        /** Offers a player will hear before breaking off talks, by starting mood */
+        PATIENCE: { eager: 5, receptive: 4, wary: 3, insulted: 1 } as Record<NegotiationMood, number>,
+        /** Share of the gap between ask and offer conceded per counter, by mood */
+        CONCESSION: { eager: 0.5, receptive: 0.35, wary: 0.2, insulted: 0 } as Record<NegotiationMood, number>,
+    },
+
+    /** Free agency market */
+    FREE_AGENCY: {
+        /** Days of bidding before the market closes */
+        DAYS: 5,
+        /** Backups wanted at each position beyond the starting lineup */
+        DEPTH_TARGET: 1,
+        /** New bids each AI team can place per day */
+        AI_BIDS_PER_DAY: 3,
+        /** Open bids an AI team can hold at once */
+        AI_MAX_ACTIVE_BIDS: 4,
+        /** Overall points a player drops in an AI team's rankings for each rival bid */
+        COMPETITION_PENALTY: 4,
+        /** Overpay an AI team adds for a position it needs */
+        NEED_PREMIUM: 0.15,
+        /** Random spread on AI valuations */
+        BID_NOISE: 0.05,
+        /** Raise an AI team makes when outbid */
+        RAISE_STEP: 0.05,
+        /** Most an AI team will pay relative to its valuation */
+        MAX_OVERPAY: 1.25,
+        /** Weight of team success in a player's choice */
+        TEAM_QUALITY_WEIGHT: 0.15,
+        /** Bonus a player gives an offer that comes with a starting job */
+        STARTER_WEIGHT: 0.1,
+    },
+
+    /** Scouting fog-of-war */
+    SCOUTING: {
+        /** Scouting points each team gets per season */
+        POINTS_PER_SEASON: 100,
+        /** Points needed to reach each scouting level (level 0 is unscouted) */
+        LEVEL_COSTS: [10, 15, 25],
+        /** Half-width of a rating range as a share of the rating, by level */
+        RATING_VARIANCE: [0.15, 0.10, 0.06, 0.03],
+        /** Half-width of the potential grade range, by level */
+        POTENTIAL_VARIANCE: [1.5, 1, 0.5, 0.25],
+        /** Prospects an AI team spreads its points over before the draft */
+        AI_TARGETS: 6,
+    },
+
+    /** Default roster rules (see RosterRules) */
+    ROSTER: {
+        /** Active roster size limits (injured reserve and practice squad don't count) */
+        MIN_SIZE: 15,
+        MAX_SIZE: 24,
+        /** Fewest active players at each position - enough to field a lineup */
+        POSITION_MINIMUMS: { QB: 1, WR: 3, CB: 4, OL: 5, DL: 4 } as Record<Position, number>,
+        /** Most players on a practice squad */
+        PRACTICE_SQUAD_SIZE: 6,
+        /** Players past this many seasons in the league can't join the practice squad */
+        PRACTICE_SQUAD_MAX_YEARS: 2,
+        /** Talent tier of the fillers AI teams sign when no free agent fits */
+        FILLER_TIER: 'backup' as PlayerTier,
+    },
+
+    /** How AI teams value trades */
+    TRADES: {
+        /** Draft-point value of one unit of fame */
+        FAME_VALUE: 1.5,
+        /** Extra value on a player who fills (or leaves) a hole in the lineup */
+        NEED_BONUS: 0.25,
+        /** AI teams want to come out at least this far ahead */
+        ACCEPT_RATIO: 1.05,
+        /** Below the accept ratio but at or above this, the AI counters */
+        COUNTER_RATIO: 0.8,
+        /** Team success at or above which a team is contending */
+        CONTENDING_SUCCESS: 0.6,
+        /** Team success below which a team is rebuilding */
+        REBUILDING_SUCCESS: 0.4,
+        /** Rebuilding teams prize players this age or younger */
+        YOUTH_AGE: 25,
+        /** ... and discount players this age or older */
+        VETERAN_AGE: 29,
+        REBUILD_YOUTH_BONUS: 0.2,
+        REBUILD_VETERAN_DISCOUNT: 0.2,
+        /** Contending teams prize players at or above this overall */
+        CONTENDER_STAR_OVERALL: 75,
+        CONTENDER_STAR_BONUS: 0.15,
+        /** Rebuilding teams value draft picks more, contenders less */
+        REBUILD_PICK_BONUS: 0.2,
+        CONTENDER_PICK_DISCOUNT: 0.1,
+    },
+
+    /** Draft pick assets */
+    DRAFT: {
+        /** Seasons of picks each team holds at once (this season's draft and beyond) */
+        FUTURE_SEASONS: 3,
+        /** Trade value (draft points) of the first and last overall picks */
+        PICK_VALUE: { FIRST: 1600, LAST: 100, DECAY: 4 },
+        /** Value kept per season a pick is in the future */
+        FUTURE_DISCOUNT: 0.9,
+        /** Value kept when a protection is likely to send the pick back */
+        PROTECTION_DISCOUNT: 0.5,
+        /** Prospects generated per pick in the draft */
+        CLASS_SIZE_FACTOR: 1.25,
+        /** Talent tiers of a prospect class (prospects are always rookie-aged) */
+        PROSPECT_TIER_WEIGHTS: {
+            veteran: 0.04,
+            average: 0.2,
+            rookie: 0.46,
+            below_average: 0.2,
+            backup: 0.1,
+        } as Partial<Record<PlayerTier, number>>,
+        /** AI draft board: overall points per potential grade */
+        POTENTIAL_WEIGHT: 4,
+        /** AI draft board: bonus per unfilled spot at the prospect's position (capped at 2) */
+        NEED_WEIGHT: 0.06,
+        /** AI draft board: random spread between teams' boards */
+        BOARD_NOISE: 0.03,
+        /** AI draft board: weight of college production against scouted overall */
+        PRODUCTION_WEIGHT: 0.25,
+    },
+
+    /** Prospect combine results and college production */
+    PROSPECT_PROFILE: {
+        /** Combine benchmarks by position: [worst, best] for the least and most gifted prospects */
+        COMBINE: {
+            QB: { fortyYardDash: [5.0, 4.6], benchPress: [12, 24], shuttle: [4.6, 4.2], verticalJump: [28, 36], wonderlic: [26, 42] },
+            WR: { fortyYardDash: [4.65, 4.3], benchPress: [8, 18], shuttle: [4.45, 4.0], verticalJump: [33, 42], wonderlic: [16, 30] },
+            CB: { fortyYardDash: [4.6, 4.28], benchPress: [8, 18], shuttle: [4.35, 3.95], verticalJump: [34, 44], wonderlic: [18, 32] },
+            OL: { fortyYardDash: [5.45, 4.9], benchPress: [20, 38], shuttle: [4.95, 4.4], verticalJump: [24, 32], wonderlic: [22, 34] },
+            DL: { fortyYardDash: [5.1, 4.6], benchPress: [18, 36], shuttle: [4.75, 4.25], verticalJump: [28, 36], wonderlic: [16, 28] },
+        } as Record<Position, Record<keyof CombineResults, [number, number]>>,
+        /** Standard deviation of each combine result (in its own units) */
+        COMBINE_NOISE: { fortyYardDash: 0.04, benchPress: 2, shuttle: 0.06, verticalJump: 1.5, wonderlic: 3 } as Record<keyof CombineResults, number>,
+        /** Games per college season */
+        COLLEGE_GAMES: { MIN: 10, MAX: 13 },
+        /** College seasons played: age minus this, between 1 and 4 */
+        COLLEGE_START_AGE: 20,
+        /** Production lost per season before the final one (players improve in college) */
+        COLLEGE_GROWTH: 0.08,
+        /** Season-to-season swing from scheme and supporting cast */
+        SEASON_NOISE: 0.08,
+        /** Per-stat noise on top of the season swing */
+        STAT_NOISE: 0.05,
+    },
+
+    /** League salary cap defaults (in millions per year) */
+    SALARY_CAP: {
+        /** Hard cap on a team's payroll */
+        CAP: 300,
+        /** Minimum payroll teams are expected to reach (null = no floor) */
+        FLOOR: 200 as number | null,
+        /** Seasons covered by a cap projection */
+        PROJECTION_YEARS: 4,
+    },
+
     /** How core attributes influence skills (multipliers) */
     CORE_ATTRIBUTE_SKILL_INFLUENCE: {
         /** Strength influences these skills */
@@ -460,6 +1209,95 @@ export const ECONOMY_CONSTANTS = {
     },
 };
 
+// ============================================================================
+// RANDOM NUMBER GENERATION
+// ============================================================================
+
+/** Pluggable source of uniform random numbers in [0, 1) */
+export interface RandomSource {
+    next(): number;
+}
+
+/** Serializable snapshot of a seeded random source */
+export interface RandomState {
+    /** Seed the source was created with */
+    seed: number;
+    /** Internal generator state (advances with every draw) */
+    state: number;
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32).
+ * The same seed always produces the same sequence, and the state can be
+ * captured and restored to resume a sequence exactly where it left off.
+ */
+export class SeededRandom implements RandomSource {
+    private readonly seed: number;
+    private state: number;
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /**
+     * Restore a generator from a previously captured state
+     */
+    static fromState(randomState: RandomState): SeededRandom {
+        const rng = new SeededRandom(randomState.seed);
+        rng.state = randomState.state >>> 0;
+        return rng;
+    }
+
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    getSeed(): number {
+        return this.seed;
+    }
+
+    getState(): RandomState {
+        return { seed: this.seed, state: this.state };
+    }
+}
+
+/**
+ * Create a fresh seed for an unseeded game.
+ * This is the only place the engine reads Math.random().
+ */
+export function createRandomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/** Random source every engine calculation draws from */
+let activeRandomSource: RandomSource = new SeededRandom(createRandomSeed());
+
+/**
+ * Replace the random source used by the engine and all free functions
+ */
+export function setRandomSource(source: RandomSource): void {
+    activeRandomSource = source;
+}
+
+/**
+ * Get the random source currently in use
+ */
+export function getRandomSource(): RandomSource {
+    return activeRandomSource;
+}
+
+/**
+ * Draw a uniform random number in [0, 1) from the active random source
+ */
+export function random(): number {
+    return activeRandomSource.next();
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -473,8 +1311,8 @@ export function randomNormal(mean: number = 0, stdDev: number = 1): number {
     let u2 = 0;
 
     // Ensure u1 is not 0 to avoid log(0)
-    while (u1 === 0) u1 = Math.random();
-    while (u2 === 0) u2 = Math.random();
+    while (u1 === 0) u1 = random();
+    while (u2 === 0) u2 = random();
 
     const z = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
     return z * stdDev + mean;
@@ -484,14 +1322,49 @@ export function randomNormal(mean: number = 0, stdDev: number = 1): number {
  * Generate a random integer in range [min, max] inclusive
  */
 export function randomInt(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return Math.floor(random() * (max - min + 1)) + min;
 }
 
 /**
- * Generate a unique ID
+ * Return a shuffled copy of an array (Fisher-Yates)
+ */
+export function shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = randomInt(0, i);
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+/**
+ * Generate a unique ID.
+ * Drawn from the active random source so seeded leagues get identical IDs.
  */
 export function generateId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const high = Math.floor(random() * 4294967296).toString(36);
+    const low = Math.floor(random() * 4294967296).toString(36);
+    return `${high}-${low}`;
+}
+
+/**
+ * Hash a string to a number in [0, 1) (FNV-1a). Stable across sessions, and
+ * independent of the random source, for values that must never change.
+ */
+export function hashUnit(key: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) / 4294967296;
+}
+
+/**
+ * Round a dollar amount (in millions) to one decimal place
+ */
+function roundMillions(amount: number): number {
+    return Math.round(amount * 10) / 10;
 }
 
 /**
@@ -545,17 +1418,130 @@ export function calculateRookieContractSalary(pickNumber: number): number {
     return Math.round(salary * 10) / 10;
 }
 
+/**
+ * Check contract terms against an average salary.
+ * Returns a reason when the terms are invalid, null when they are fine.
+ */
+export function validateContractTerms(averageSalary: number, terms: ContractTerms): string | null {
+    const config = ECONOMY_CONSTANTS.CONTRACTS;
+    const totalValue = averageSalary * terms.years;
+    const signingBonus = terms.signingBonus ?? 0;
+    const guaranteedSalary = terms.guaranteedSalary ?? 0;
+
+    if (!Number.isInteger(terms.years) || terms.years < config.MIN_LENGTH || terms.years > config.MAX_LENGTH) {
+        return `Contract length must be ${config.MIN_LENGTH}-${config.MAX_LENGTH} years, got ${terms.years}`;
+    }
+    if (signingBonus < 0 || signingBonus > totalValue) {
+        return `Signing bonus must be between $0M and the contract's $${roundMillions(totalValue)}M total value`;
+    }
+    if (guaranteedSalary < 0 || guaranteedSalary > totalValue - signingBonus) {
+        return `Guaranteed salary must be between $0M and the $${roundMillions(totalValue - signingBonus)}M of base salary`;
+    }
+    return null;
+}
+
+/**
+ * Build a contract worth averageSalary per year.
+ * The signing bonus comes out of the total value; the rest is spread over
+ * the base salary schedule according to the structure.
+ * Terms are assumed valid (see validateContractTerms).
+ */
+export function buildContract(
+    averageSalary: number,
+    terms: ContractTerms,
+    contractCount: number,
+    draftPick?: number
+): ContractData {
+    const growth = ECONOMY_CONSTANTS.CONTRACTS.STRUCTURE_GROWTH;
+    const signingBonus = terms.signingBonus ?? 0;
+    const baseTotal = averageSalary * terms.years - signingBonus;
+
+    const weights = Array.from({ length: terms.years }, (_, year) => {
+        switch (terms.structure ?? 'flat') {
+            case 'escalating':
+                return 1 + growth.ESCALATING * year;
+            case 'back_loaded':
+                return Math.pow(1 + growth.BACK_LOADED, year);
+            default:
+                return 1;
+        }
+    });
+    const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const contract: ContractData = {
+        yearsRemaining: terms.years,
+        annualSalary: 0,
+        contractCount,
+        draftPick,
+        totalYears: terms.years,
+        salarySchedule: weights.map(weight => roundMillions(baseTotal * weight / weightTotal)),
+        signingBonus,
+        guaranteedSalary: terms.guaranteedSalary ?? 0,
+    };
+    contract.annualSalary = calculateCapHit(contract);
+    return contract;
+}
+
+/**
+ * Cap hit for a contract year: base salary plus the prorated signing bonus.
+ * @param yearOffset - 0 = current contract year, 1 = next season, ...
+ */
+export function calculateCapHit(contract: ContractData, yearOffset: number = 0): number {
+    const yearIndex = contract.totalYears - contract.yearsRemaining + yearOffset;
+    if (yearIndex < 0 || yearIndex >= contract.totalYears) return 0;
+
+    return roundMillions(contract.salarySchedule[yearIndex] + contract.signingBonus / contract.totalYears);
+}
+
+/**
+ * Dead money left on the cap if a player leaves now.
+ * Unamortised signing bonus always accelerates; a released player's
+ * remaining guaranteed salary is owed too, while a trade sends it to the new team.
+ */
+export function calculateDeadCap(contract: ContractData, reason: DeadCapCharge['reason']): number {
+    const yearsRemaining = Math.max(0, contract.yearsRemaining);
+    const remainingBonus = contract.signingBonus / contract.totalYears * yearsRemaining;
+    if (reason !== 'released') return roundMillions(remainingBonus);
+
+    const currentYear = contract.totalYears - yearsRemaining;
+    const basePaid = contract.salarySchedule.slice(0, currentYear).reduce((sum, salary) => sum + salary, 0);
+    const baseRemaining = contract.salarySchedule.slice(currentYear).reduce((sum, salary) => sum + salary, 0);
+    const guaranteedRemaining = clamp(contract.guaranteedSalary - basePaid, 0, baseRemaining);
+
+    return roundMillions(remainingBonus + guaranteedRemaining);
+}
+
+/**
+ * Move a departing player's dead money onto the team's cap.
+ * Returns the amount charged.
+ */
+export function chargeDeadCap(team: Team, player: EconomyPlayer, reason: DeadCapCharge['reason']): number {
+    if (!player.contractData) return 0;
+
+    const amount = calculateDeadCap(player.contractData, reason);
+    if (amount > 0) {
+        team.deadCap = team.deadCap ?? [];
+        team.deadCap.push({
+            playerId: player.id,
+            playerName: `${player.firstName} ${player.lastName}`,
+            reason,
+            amount,
+        });
+    }
+    return amount;
+}
+
 /**
  * Initialize contract data for a newly drafted rookie.
- * Rookies get 4-year contracts with salary based on their pick position.
+ * Rookies get flat 4-year contracts with salary based on their pick position.
  */
 export function initializeRookieContract(pickNumber: number): ContractData {
-    return {
-        yearsRemaining: ECONOMY_CONSTANTS.CONTRACTS.CONTRACT_LENGTH,
-        annualSalary: calculateRookieContractSalary(pickNumber),
-        contractCount: 0,
-        draftPick: pickNumber,
-    };
+    return buildContract(
+        calculateRookieContractSalary(pickNumber),
+        { years: ECONOMY_CONSTANTS.CONTRACTS.CONTRACT_LENGTH },
+        0,
+        pickNumber
+    );
 }
 
 /**
@@ -681,8 +1667,15 @@ export function decrementContractYears(team: Team): void {
     team.roster.forEach(player => {
         if (player.contractData && player.contractData.yearsRemaining > 0) {
             player.contractData.yearsRemaining--;
+            // Expired contracts keep their last cap hit until a decision is made
+            if (player.contractData.yearsRemaining > 0) {
+                player.contractData.annualSalary = calculateCapHit(player.contractData);
+            }
         }
     });
+
+    // Dead money only counts against the season it was incurred in
+    team.deadCap = [];
 }
 
 /**
@@ -692,13 +1685,18 @@ export function decrementContractYears(team: Team): void {
  * @param playerId - The player's ID
  * @param choice - 'resign', 'trade', or 'release'
  * @param draftPointsManager - Object to track draft points (passed by reference)
+ * @param salaryCap - Cap the new contract must fit under
+ * @param terms - Salary, length and structure of the new contract when re-signing
+ *   (salary defaults to calculateResignSalary)
  * @returns Result of the re-signing decision
  */
 export function processResigningDecision(
     team: Team,
     playerId: string,
     choice: ResigningChoice,
-    draftPointsManager?: { draftPoints: number }
+    draftPointsManager?: { draftPoints: number },
+    salaryCap: SalaryCapSettings = getDefaultSalaryCap(),
+    terms: Partial<ContractOffer> = {}
 ): ResigningResult {
     const playerIndex = team.roster.findIndex(p => p.id === playerId);
     if (playerIndex === -1) {
@@ -715,23 +1713,37 @@ export function processResigningDecision(
 
     switch (choice) {
         case 'resign': {
-            const newSalary = calculateResignSalary(player);
+            const { averageSalary, ...structure } = terms;
+            const newSalary = averageSalary ?? calculateResignSalary(player);
             const currentContractCount = player.contractData?.contractCount ?? 0;
+            const contractTerms: ContractTerms = { years: ECONOMY_CONSTANTS.CONTRACTS.CONTRACT_LENGTH, ...structure };
 
-            // Create new contract
-            player.contractData = {
-                yearsRemaining: ECONOMY_CONSTANTS.CONTRACTS.CONTRACT_LENGTH,
-                annualSalary: newSalary,
-                contractCount: currentContractCount + 1,
-                draftPick: player.contractData?.draftPick,
-            };
+            const termsError = validateContractTerms(newSalary, contractTerms);
+            if (termsError) {
+                return { success: false, choice, player, newSalary, message: termsError };
+            }
+
+            const contract = buildContract(newSalary, contractTerms, currentContractCount + 1, player.contractData?.draftPick);
+            const capCheck = checkCapSpace(team, salaryCap, contract.annualSalary, player.contractData?.annualSalary ?? 0);
+            if (!capCheck.success) {
+                return {
+                    success: false,
+                    choice,
+                    player,
+                    newSalary,
+                    message: `Cannot re-sign ${playerName} at a $${contract.annualSalary}M cap hit: ${capCheck.message}`,
+                };
+            }
+
+            player.contractData = contract;
 
             return {
                 success: true,
                 choice,
                 player,
                 newSalary,
-                message: `${playerName} re-signed for ${ECONOMY_CONSTANTS.CONTRACTS.CONTRACT_LENGTH} years at $${newSalary}M/year`,
+                message: `${playerName} re-signed for ${contract.totalYears} years at $${newSalary}M/year ` +
+                    `($${contract.annualSalary}M cap hit this season)`,
             };
         }
 
@@ -749,6 +1761,7 @@ export function processResigningDecision(
 
             // Remove player from roster
             team.roster.splice(playerIndex, 1);
+            const deadCap = chargeDeadCap(team, player, 'traded');
 
             // Add draft points if manager provided
             if (draftPointsManager) {
@@ -760,20 +1773,22 @@ export function processResigningDecision(
                 choice,
                 player,
                 draftPointsReceived: tradeValue,
-                message: `${playerName} traded for ${tradeValue} draft points`,
+                message: `${playerName} traded for ${tradeValue} draft points` +
+                    (deadCap > 0 ? ` ($${deadCap}M dead cap)` : ''),
             };
         }
 
         case 'release': {
             // Remove player from roster with no compensation
             team.roster.splice(playerIndex, 1);
+            const deadCap = chargeDeadCap(team, player, 'released');
 
             return {
                 success: true,
                 choice,
                 player,
                 draftPointsReceived: 0,
-                message: `${playerName} released`,
+                message: `${playerName} released` + (deadCap > 0 ? ` ($${deadCap}M dead cap)` : ''),
             };
         }
 
@@ -805,33 +1820,37 @@ export function initializeVeteranContract(player: EconomyPlayer): ContractData {
     // Calculate salary based on current stats
     const salary = calculateResignSalary(player);
 
-    return {
-        yearsRemaining,
-        annualSalary: salary,
-        contractCount: estimatedContractCount,
-    };
+    const contract = buildContract(salary, { years: ECONOMY_CONSTANTS.CONTRACTS.CONTRACT_LENGTH }, estimatedContractCount);
+    contract.yearsRemaining = yearsRemaining;
+    contract.annualSalary = calculateCapHit(contract);
+    return contract;
 }
 
 /**
  * Get a summary of contract status for display
  */
-export function getContractStatusSummary(player: EconomyPlayer): {
-    yearsRemaining: number;
-    annualSalary: number;
-    contractCount: number;
-    isExpired: boolean;
-    canBeTrad: boolean;
-    tradeValue: number;
-    proposedResignSalary: number;
-} {
+export function getContractStatusSummary(player: EconomyPlayer): ContractStatusSummary {
     const contractData = player.contractData;
     const isExpired = isContractExpired(player);
     const tradeValue = calculateTradeValueDraftPoints(player);
 
+    const remainingYears = contractData ? Math.max(0, contractData.yearsRemaining) : 0;
+    const remainingValue = contractData
+        ? contractData.salarySchedule.slice(contractData.totalYears - remainingYears).reduce((sum, salary) => sum + salary, 0) +
+          contractData.signingBonus / contractData.totalYears * remainingYears
+        : 0;
+
     return {
         yearsRemaining: contractData?.yearsRemaining ?? 0,
         annualSalary: contractData?.annualSalary ?? 0,
         contractCount: contractData?.contractCount ?? 0,
+        totalYears: contractData?.totalYears ?? 0,
+        salarySchedule: contractData ? [...contractData.salarySchedule] : [],
+        signingBonus: contractData?.signingBonus ?? 0,
+        guaranteedSalary: contractData?.guaranteedSalary ?? 0,
+        remainingValue: roundMillions(remainingValue),
+        deadCapIfReleased: contractData ? calculateDeadCap(contractData, 'released') : 0,
+        deadCapIfTraded: contractData ? calculateDeadCap(contractData, 'traded') : 0,
         isExpired,
         canBeTrad: tradeValue > 0,
         tradeValue,
@@ -840,1840 +1859,9444 @@ export function getContractStatusSummary(player: EconomyPlayer): {
 }
 
 // ============================================================================
-// PLAYER GENERATION
+// SALARY CAP
 // ============================================================================
 
-/** Primary stats by position - these get boosted for the position */
-const POSITION_PRIMARY_STATS: Record<Position, (keyof PlayerStats)[]> = {
-    WR: ['speed', 'catching', 'routeRunning', 'release', 'agility'],
-    CB: ['speed', 'tackling', 'awareness', 'agility', 'pursuit'],
-    OL: ['passBlock', 'strength', 'balance', 'awareness'],
-    DL: ['passRush', 'strength', 'tackling', 'hitPower', 'pursuit'],
-    QB: ['throwing', 'awareness', 'agility', 'strength'],
-};
-
-/** First names for player generation */
-const FIRST_NAMES = [
-    'Aldric', 'Baldwin', 'Cedric', 'Drake', 'Edmund', 'Finnian', 'Gareth',
-    'Hadrian', 'Ivan', 'Jasper', 'Kendrick', 'Lionel', 'Magnus', 'Nathaniel',
-    'Oswald', 'Percival', 'Quentin', 'Roland', 'Sebastian', 'Thaddeus',
-    'Ulric', 'Vincent', 'Wallace', 'Xavier', 'York', 'Zephyr',
-];
-
-/** Last names for player generation */
-const LAST_NAMES = [
-    'Blackwood', 'Ironforge', 'Stoneheart', 'Wolfsbane', 'Dragonfire',
-    'Thunderbolt', 'Nightshade', 'Bloodmoon', 'Frostborne', 'Stormwind',
-    'Shadowmere', 'Goldcrest', 'Silvervale', 'Bronzehelm', 'Steelgrave',
-    'Darkhollow', 'Brightwater', 'Redmane', 'Whitefang', 'Greymoor',
-];
+/**
+ * Salary cap settings from ECONOMY_CONSTANTS
+ */
+export function getDefaultSalaryCap(): SalaryCapSettings {
+    return {
+        cap: ECONOMY_CONSTANTS.SALARY_CAP.CAP,
+        floor: ECONOMY_CONSTANTS.SALARY_CAP.FLOOR,
+    };
+}
 
 /**
- * Select a random tier based on weighted distribution
+ * Total dead money charged to a team this season
  */
-export function selectRandomTier(): PlayerTier {
-    const weights = ECONOMY_CONSTANTS.TIER_WEIGHTS;
-    const roll = Math.random();
-    let cumulative = 0;
+export function calculateDeadCapTotal(team: Team): number {
+    return roundMillions((team.deadCap ?? []).reduce((total, charge) => total + charge.amount, 0));
+}
 
-    for (const [tier, weight] of Object.entries(weights)) {
-        cumulative += weight;
-        if (roll < cumulative) {
-            return tier as PlayerTier;
-        }
-    }
+/**
+ * Total cap charges for the current season: roster cap hits plus dead money
+ */
+export function calculateTeamPayroll(team: Team): number {
+    return roundMillions(team.roster.reduce((total, player) => {
+        return total + (player.contractData?.annualSalary ?? 0);
+    }, calculateDeadCapTotal(team)));
+}
 
-    return 'average'; // fallback
+/**
+ * Measure a team's payroll against the cap and floor
+ */
+export function getTeamCapStatus(team: Team, salaryCap: SalaryCapSettings): TeamCapStatus {
+    const payroll = calculateTeamPayroll(team);
+    return {
+        teamId: team.id,
+        payroll,
+        deadCap: calculateDeadCapTotal(team),
+        cap: salaryCap.cap,
+        floor: salaryCap.floor,
+        capSpace: roundMillions(salaryCap.cap - payroll),
+        overCap: payroll > salaryCap.cap,
+        belowFloor: salaryCap.floor !== null && payroll < salaryCap.floor,
+    };
 }
 
 /**
- * Generate random stats for a player based on tier
+ * Check whether a transaction fits under the cap.
+ * @param addedSalary - Annual salary the transaction adds
+ * @param removedSalary - Annual salary it takes off the books (e.g. the contract being replaced)
  */
-export function generateRandomStats(position: Position, tier: PlayerTier): PlayerStats {
-    const tierRange = ECONOMY_CONSTANTS.PLAYER_TIERS[tier];
-    const primaryStats = POSITION_PRIMARY_STATS[position];
+export function checkCapSpace(
+    team: Team,
+    salaryCap: SalaryCapSettings,
+    addedSalary: number,
+    removedSalary: number = 0
+): TransactionResult {
+    const payroll = calculateTeamPayroll(team);
+    const projected = roundMillions(payroll - removedSalary + addedSalary);
+    const capSpace = roundMillions(salaryCap.cap - payroll + removedSalary);
+
+    if (projected > salaryCap.cap) {
+        return {
+            success: false,
+            message: `payroll would be $${projected}M, $${roundMillions(projected - salaryCap.cap)}M over the ` +
+                `$${salaryCap.cap}M cap (cap space available: $${capSpace}M)`,
+        };
+    }
 
-    // Generate base stats with some variance
-    const generateStat = (isPrimary: boolean): number => {
-        const { min, max } = tierRange;
-        // Primary stats get a boost, secondary stats are slightly lower
-        const boost = isPrimary ? 5 : -5;
-        const base = randomInt(min, max);
-        return clamp(base + boost + randomInt(-3, 3), 40, 99);
+    return {
+        success: true,
+        message: `Fits under the cap: payroll $${projected}M of $${salaryCap.cap}M`,
     };
+}
 
-    const stats: PlayerStats = {
-        speed: generateStat(primaryStats.includes('speed')),
-        acceleration: generateStat(primaryStats.includes('acceleration')),
-        agility: generateStat(primaryStats.includes('agility')),
-        catching: generateStat(primaryStats.includes('catching')),
-        routeRunning: generateStat(primaryStats.includes('routeRunning')),
-        release: generateStat(primaryStats.includes('release')),
-        focus: generateStat(primaryStats.includes('focus')),
-        tackling: generateStat(primaryStats.includes('tackling')),
-        hitPower: generateStat(primaryStats.includes('hitPower')),
-        pursuit: generateStat(primaryStats.includes('pursuit')),
-        awareness: generateStat(primaryStats.includes('awareness')),
-        passBlock: generateStat(primaryStats.includes('passBlock')),
-        passRush: generateStat(primaryStats.includes('passRush')),
-        strength: generateStat(primaryStats.includes('strength')),
-        balance: generateStat(primaryStats.includes('balance')),
-        aggression: generateStat(primaryStats.includes('aggression')),
-        stamina: generateStat(primaryStats.includes('stamina')),
-    };
+/**
+ * Project committed salary for upcoming seasons from current contracts.
+ * A contract with N years remaining is counted in the next N years (offsets 0 to N-1)
+ * at that year's cap hit; dead money only counts in the current year.
+ */
+export function projectTeamCap(
+    team: Team,
+    salaryCap: SalaryCapSettings,
+    years: number = ECONOMY_CONSTANTS.SALARY_CAP.PROJECTION_YEARS
+): CapProjectionYear[] {
+    return Array.from({ length: years }, (_, yearOffset) => {
+        const underContract = team.roster.filter(player =>
+            (player.contractData?.yearsRemaining ?? 0) > yearOffset
+        );
+        const committed = roundMillions(underContract.reduce(
+            (total, player) => total + (yearOffset === 0
+                ? player.contractData?.annualSalary ?? 0
+                : calculateCapHit(player.contractData as ContractData, yearOffset)),
+            yearOffset === 0 ? calculateDeadCapTotal(team) : 0
+        ));
+        return {
+            yearOffset,
+            committed,
+            capSpace: roundMillions(salaryCap.cap - committed),
+            playersUnderContract: underContract.length,
+        };
+    });
+}
 
-    // Add throwing for QB
-    if (position === 'QB') {
-        stats.throwing = generateStat(true);
-    }
+// ============================================================================
+// ROSTER RULES
+// ============================================================================
 
-    return stats;
+/** League roster rules */
+export interface RosterRules {
+    /** Active roster size limits */
+    minSize: number;
+    maxSize: number;
+    /** Fewest active players at each position */
+    positionMinimums: Record<Position, number>;
+    /** Most players on a practice squad */
+    practiceSquadSize: number;
+    /** Most seasons in the league for a practice squad player */
+    practiceSquadMaxYears: number;
+}
+
+/** Ways a roster can break the rules */
+export type RosterViolationType =
+    | 'roster_too_small'
+    | 'roster_too_large'
+    | 'position_minimum'
+    | 'practice_squad_too_large'
+    | 'practice_squad_ineligible';
+
+/** One broken roster rule */
+export interface RosterViolation {
+    type: RosterViolationType;
+    /** Position short of its minimum */
+    position?: Position;
+    /** Practice squad player past the experience limit */
+    playerId?: string;
+    /** What the team has (players, or seasons for an ineligible player) */
+    count: number;
+    /** What the rule allows */
+    limit: number;
+    message: string;
 }
 
 /**
- * Generate age based on tier (veterans are older, rookies younger)
+ * Get the default roster rules
  */
-export function generateAge(tier: PlayerTier): number {
-    switch (tier) {
-        case 'elite':
-            return randomInt(26, 32);
-        case 'veteran':
-            return randomInt(28, 34);
-        case 'average':
-            return randomInt(24, 30);
-        case 'below_average':
-            return randomInt(23, 32);
-        case 'rookie':
-            return randomInt(21, 24);
-        case 'backup':
-            return randomInt(22, 35);
-        default:
-            return randomInt(22, 30);
-    }
+export function getDefaultRosterRules(): RosterRules {
+    const config = ECONOMY_CONSTANTS.ROSTER;
+    return {
+        minSize: config.MIN_SIZE,
+        maxSize: config.MAX_SIZE,
+        positionMinimums: { ...config.POSITION_MINIMUMS },
+        practiceSquadSize: config.PRACTICE_SQUAD_SIZE,
+        practiceSquadMaxYears: config.PRACTICE_SQUAD_MAX_YEARS,
+    };
 }
 
 /**
- * Generate potential grade based on age and tier
+ * Whether a player counts against the active roster (not on injured reserve or the practice squad)
  */
-export function generatePotential(age: number, tier: PlayerTier): number {
-    // Young players have higher potential, veterans have realized potential
-    let basePotential: number;
+export function isActiveRosterPlayer(player: EconomyPlayer): boolean {
+    return !player.injuredReserve && !player.practiceSquad;
+}
 
-    if (age <= 24) {
-        basePotential = randomInt(1, 3);
-    } else if (age <= 27) {
-        basePotential = randomInt(0, 2);
-    } else {
-        basePotential = randomInt(0, 1);
-    }
+/**
+ * Players on a team's active roster
+ */
+export function getActiveRosterSize(team: Team): number {
+    return team.roster.filter(isActiveRosterPlayer).length;
+}
 
-    // Elite players might have already hit potential
-    if (tier === 'elite' && age > 26) {
-        basePotential = Math.max(0, basePotential - 1);
+/**
+ * Check a roster against the rules. Returns every violation (empty when legal).
+ */
+export function validateRoster(team: Team, rules: RosterRules = getDefaultRosterRules()): RosterViolation[] {
+    const violations: RosterViolation[] = [];
+    const active = team.roster.filter(isActiveRosterPlayer);
+    const practiceSquad = team.roster.filter(player => player.practiceSquad);
+
+    if (active.length < rules.minSize) {
+        violations.push({
+            type: 'roster_too_small',
+            count: active.length,
+            limit: rules.minSize,
+            message: `${team.name} has ${active.length} active players (minimum ${rules.minSize})`,
+        });
     }
-
-    // Rookies get bonus potential
-    if (tier === 'rookie') {
-        basePotential = Math.min(3, basePotential + 1);
+    if (active.length > rules.maxSize) {
+        violations.push({
+            type: 'roster_too_large',
+            count: active.length,
+            limit: rules.maxSize,
+            message: `${team.name} has ${active.length} active players (maximum ${rules.maxSize})`,
+        });
     }
 
-    return basePotential;
+    (Object.keys(rules.positionMinimums) as Position[]).forEach(position => {
+        const count = active.filter(player => player.position === position).length;
+        if (count < rules.positionMinimums[position]) {
+            violations.push({
+                type: 'position_minimum',
+                position,
+                count,
+                limit: rules.positionMinimums[position],
+                message: `${team.name} has ${count} active ${position}s (minimum ${rules.positionMinimums[position]})`,
+            });
+        }
+    });
+
+    if (practiceSquad.length > rules.practiceSquadSize) {
+        violations.push({
+            type: 'practice_squad_too_large',
+            count: practiceSquad.length,
+            limit: rules.practiceSquadSize,
+            message: `${team.name} has ${practiceSquad.length} practice squad players (maximum ${rules.practiceSquadSize})`,
+        });
+    }
+    practiceSquad
+        .filter(player => player.yearsInLeague > rules.practiceSquadMaxYears)
+        .forEach(player => violations.push({
+            type: 'practice_squad_ineligible',
+            playerId: player.id,
+            count: player.yearsInLeague,
+            limit: rules.practiceSquadMaxYears,
+            message: `${player.firstName} ${player.lastName} has ${player.yearsInLeague} seasons in the league ` +
+                `(practice squad maximum ${rules.practiceSquadMaxYears})`,
+        }));
+
+    return violations;
 }
 
 /**
- * Generate core attributes for a player based on tier and position
- * Core attributes are foundational traits that rarely change over time.
+ * Violations in `after` that are new, or further from the limit than they were in `before`
  */
-export function generateCoreAttributes(position: Position, tier: PlayerTier): CoreAttributes {
-    const tierRange = ECONOMY_CONSTANTS.CORE_ATTRIBUTES.TIER_RANGES[tier];
+export function findNewRosterViolations(before: RosterViolation[], after: RosterViolation[]): RosterViolation[] {
+    return after.filter(violation => {
+        const prior = before.find(b =>
+            b.type === violation.type && b.position === violation.position && b.playerId === violation.playerId
+        );
+        return !prior || Math.abs(violation.count - violation.limit) > Math.abs(prior.count - prior.limit);
+    });
+}
 
-    // Generate base attribute with variance
-    const generateAttribute = (): number => {
-        const { min, max } = tierRange;
-        const base = randomInt(min, max);
-        // Add slight variance
-        return clamp(base + randomInt(-3, 3), 30, 99);
-    };
+// ============================================================================
+// CONTRACT NEGOTIATION
+// ============================================================================
 
-    // Generate all four core attributes
-    let strength = generateAttribute();
-    let speed = generateAttribute();
-    let agility = generateAttribute();
-    let intelligence = generateAttribute();
+/** How a player feels about the current talks, from best to worst */
+export type NegotiationMood = 'eager' | 'receptive' | 'wary' | 'insulted';
 
-    // Position-based tendencies (slight boosts)
-    switch (position) {
-        case 'OL':
-        case 'DL':
-            // Linemen tend to be stronger
-            strength = clamp(strength + randomInt(3, 8), 30, 99);
-            speed = clamp(speed - randomInt(3, 8), 30, 99);
-            break;
-        case 'WR':
-        case 'CB':
-            // Skill positions tend to be faster and more agile
-            speed = clamp(speed + randomInt(3, 8), 30, 99);
-            agility = clamp(agility + randomInt(2, 5), 30, 99);
-            break;
-        case 'QB':
-            // QBs tend to be smarter
-            intelligence = clamp(intelligence + randomInt(3, 8), 30, 99);
-            break;
-    }
+/** A contract offer: structured terms at an average annual salary */
+export interface ContractOffer extends ContractTerms {
+    /** Average annual value in millions, signing bonus included */
+    averageSalary: number;
+}
 
-    return { strength, speed, agility, intelligence };
+/** What a player wants from a new contract */
+export interface PlayerDemands {
+    /** Opening ask (average annual value in millions) */
+    askingSalary: number;
+    /** Lowest effective value the player will ever accept */
+    walkAwaySalary: number;
+    preferredYears: number;
+    /** 0-1 blend of win percentage and playoff finish that tempers demands */
+    teamSuccess: number;
+}
+
+/** Player's answer to one offer */
+export interface NegotiationRound {
+    round: number;
+    offer: ContractOffer;
+    /** Offer value after length and guarantee adjustments */
+    effectiveSalary: number;
+    response: 'accepted' | 'countered' | 'refused';
+    counterOffer?: ContractOffer;
+    mood: NegotiationMood;
+    message: string;
+}
+
+/** An ongoing (or finished) contract negotiation */
+export interface ContractNegotiation {
+    id: string;
+    teamId: string;
+    playerId: string;
+    demands: PlayerDemands;
+    /** Current ask - drops as the player concedes */
+    currentAsk: number;
+    mood: NegotiationMood;
+    /** Offers left before the player breaks off talks */
+    patience: number;
+    status: 'open' | 'agreed' | 'failed';
+    history: NegotiationRound[];
+}
+
+/** Result of a negotiation action */
+export interface NegotiationResult extends TransactionResult {
+    negotiation?: ContractNegotiation;
+    round?: NegotiationRound;
 }
 
+const NEGOTIATION_MOODS: NegotiationMood[] = ['eager', 'receptive', 'wary', 'insulted'];
+
 /**
- * Generate a complete player with randomized attributes
+ * Rate a team's season from 0 (winless) to 1 (dominant champion)
  */
-export function generatePlayer(
-    position: Position,
-    tier: PlayerTier = 'average'
-): EconomyPlayer {
-    const firstName = FIRST_NAMES[randomInt(0, FIRST_NAMES.length - 1)];
-    const lastName = LAST_NAMES[randomInt(0, LAST_NAMES.length - 1)];
-    const age = generateAge(tier);
-    const peakAge = randomInt(28, 32);
-    const potentialGrade = generatePotential(age, tier);
-    const stats = generateRandomStats(position, tier);
-    const coreAttributes = generateCoreAttributes(position, tier);
+export function calculateTeamSuccess(team: Team): number {
+    const { wins, losses, ties = 0 } = team.record;
+    const games = wins + losses + ties;
+    const winPct = games > 0 ? (wins + ties / 2) / games : 0.5;
+    const playoffBonus = team.playoffFinish
+        ? ECONOMY_CONSTANTS.NEGOTIATION.PLAYOFF_SUCCESS_BONUS[team.playoffFinish]
+        : 0;
+    return clamp(winPct + playoffBonus, 0, 1);
+}
 
-    const primaryStats = POSITION_PRIMARY_STATS[position];
-    const total = primaryStats.reduce((sum, stat) => sum + (stats[stat] || 0), 0);
-    const overall = Math.floor(total / primaryStats.length);
+/**
+ * Work out a player's demands from their value (overall, age, potential),
+ * hype multiplier and how well the team is doing.
+ */
+export function calculatePlayerDemands(player: EconomyPlayer, team: Team): PlayerDemands {
+    const config = ECONOMY_CONSTANTS.NEGOTIATION;
+    const resign = ECONOMY_CONSTANTS.CONTRACTS.RESIGN;
+
+    const hypeFactor = 1 + (calculateCurrentMultiplier(player) - 1) * config.HYPE_WEIGHT;
+    const teamSuccess = calculateTeamSuccess(team);
+    // Winners get a hometown discount, losers pay a premium
+    const successFactor = 1 + (0.5 - teamSuccess) * 2 * config.TEAM_SUCCESS_DISCOUNT;
+
+    const askingSalary = roundMillions(clamp(
+        calculateResignSalary(player) * hypeFactor * successFactor * config.ASKING_PREMIUM,
+        resign.MIN_SALARY,
+        resign.MAX_SALARY
+    ));
+    const preference = config.LENGTH_PREFERENCE.find(bracket => player.age <= bracket.maxAge);
 
-    const player: EconomyPlayer = {
-        id: generateId(),
-        firstName,
-        lastName,
-        age,
-        position,
-        stats,
-        overall,
-        peakAge,
-        potentialGrade,
-        yearsInLeague: Math.max(0, age - 21),
-        salaryCost: 0,
-        hypeData: initializeHypeData(),
-        coreAttributes,
+    return {
+        askingSalary,
+        walkAwaySalary: roundMillions(Math.max(resign.MIN_SALARY, askingSalary * config.WALK_AWAY_RATIO)),
+        preferredYears: preference?.years ?? ECONOMY_CONSTANTS.CONTRACTS.CONTRACT_LENGTH,
+        teamSuccess,
     };
+}
 
-    // Calculate salary based on overall and tier
-    player.salaryCost = calculatePlayerCostFromStats(player);
+/**
+ * Value of an offer to the player: more for guaranteed money,
+ * less the further the length is from what they want.
+ */
+export function calculateOfferValue(offer: ContractOffer, demands: PlayerDemands): number {
+    const config = ECONOMY_CONSTANTS.NEGOTIATION;
+    const totalValue = offer.averageSalary * offer.years;
+    const securedShare = totalValue > 0
+        ? clamp(((offer.signingBonus ?? 0) + (offer.guaranteedSalary ?? 0)) / totalValue, 0, 1)
+        : 0;
+    const lengthGap = Math.abs(offer.years - demands.preferredYears);
+
+    return roundMillions(
+        offer.averageSalary * (1 + config.GUARANTEE_VALUE * securedShare) /
+        (1 + config.LENGTH_PENALTY_PER_YEAR * lengthGap)
+    );
+}
 
-    return player;
+/**
+ * Whether a player would sign an offer outright, with no haggling
+ */
+export function isOfferAcceptable(offer: ContractOffer, demands: PlayerDemands): boolean {
+    return calculateOfferValue(offer, demands) >= demands.walkAwaySalary;
 }
 
 /**
- * Calculate player cost from their stats (used during generation)
+ * Open talks with a player
  */
-function calculatePlayerCostFromStats(player: EconomyPlayer): number {
-    const pc = ECONOMY_CONSTANTS.PLAYER_PRICING;
-    let baseCost = player.overall * pc.BASE_COST_PER_OVERALL;
+export function createContractNegotiation(player: EconomyPlayer, team: Team): ContractNegotiation {
+    const config = ECONOMY_CONSTANTS.NEGOTIATION;
+    const demands = calculatePlayerDemands(player, team);
+    const mood: NegotiationMood = demands.teamSuccess >= config.EAGER_SUCCESS ? 'eager'
+        : demands.teamSuccess < config.WARY_SUCCESS ? 'wary'
+        : 'receptive';
 
-    // Age adjustments
-    if (player.age >= pc.AGE_PENALTY_START) {
-        const yearsOver = player.age - pc.AGE_PENALTY_START;
-        baseCost *= (1 - yearsOver * pc.AGE_PENALTY_PER_YEAR);
-    } else if (player.age <= pc.YOUNG_PREMIUM_END) {
-        baseCost *= (1 + pc.YOUNG_PREMIUM_BONUS);
+    return {
+        id: generateId(),
+        teamId: team.id,
+        playerId: player.id,
+        demands,
+        currentAsk: demands.askingSalary,
+        mood,
+        patience: config.PATIENCE[mood],
+        status: 'open',
+        history: [],
+    };
+}
+
+/**
+ * Put an offer to the player and record their answer.
+ * Accepts when the offer meets the current ask; otherwise the player
+ * concedes part of the gap (less as mood sours) and counters at their
+ * preferred length. Lowball offers sour the mood; talks fail when patience runs out.
+ */
+export function evaluateContractOffer(
+    negotiation: ContractNegotiation,
+    offer: ContractOffer,
+    playerName: string = 'The player'
+): NegotiationRound {
+    const config = ECONOMY_CONSTANTS.NEGOTIATION;
+    const { demands } = negotiation;
+    const effectiveSalary = calculateOfferValue(offer, demands);
+    const roundNumber = negotiation.history.length + 1;
+
+    const record = (round: Omit<NegotiationRound, 'round' | 'offer' | 'effectiveSalary' | 'mood'>): NegotiationRound => {
+        const entry: NegotiationRound = { round: roundNumber, offer: { ...offer }, effectiveSalary, mood: negotiation.mood, ...round };
+        negotiation.history.push(entry);
+        return entry;
+    };
+
+    if (effectiveSalary >= negotiation.currentAsk) {
+        negotiation.status = 'agreed';
+        return record({ response: 'accepted', message: `${playerName} accepts the offer` });
     }
 
-    // Factor in potential
-    baseCost *= (1 + player.potentialGrade * 0.1);
+    negotiation.patience--;
+    if (effectiveSalary < demands.walkAwaySalary * config.INSULT_RATIO) {
+        // A lowball offer costs goodwill and an extra round of patience
+        const moodIndex = Math.min(NEGOTIATION_MOODS.length - 1, NEGOTIATION_MOODS.indexOf(negotiation.mood) + 1);
+        negotiation.mood = NEGOTIATION_MOODS[moodIndex];
+        negotiation.patience--;
+    }
 
-    return Math.max(50, Math.floor(baseCost));
+    if (negotiation.patience <= 0) {
+        negotiation.status = 'failed';
+        return record({
+            response: 'refused',
+            message: `${playerName} has broken off talks (wanted $${negotiation.currentAsk}M/year, offered $${effectiveSalary}M)`,
+        });
+    }
+
+    const concession = (negotiation.currentAsk - effectiveSalary) * config.CONCESSION[negotiation.mood];
+    negotiation.currentAsk = roundMillions(Math.max(demands.walkAwaySalary, negotiation.currentAsk - concession));
+
+    const counterOffer: ContractOffer = {
+        averageSalary: negotiation.currentAsk,
+        years: demands.preferredYears,
+        structure: offer.structure,
+        signingBonus: offer.signingBonus,
+        guaranteedSalary: offer.guaranteedSalary,
+    };
+    return record({
+        response: 'countered',
+        counterOffer,
+        message: `${playerName} counters at $${counterOffer.averageSalary}M/year over ${counterOffer.years} years ` +
+            `(${negotiation.mood}, ${negotiation.patience} offer(s) left)`,
+    });
 }
 
-/** Team strength level for roster generation */
-export type TeamStrength = 'elite' | 'good' | 'average' | 'weak';
+// ============================================================================
+// FREE AGENCY
+// ============================================================================
+
+/** A team's offer to a free agent */
+export interface FreeAgentBid {
+    id: string;
+    playerId: string;
+    teamId: string;
+    offer: ContractOffer;
+    /** Day the bid was placed or last raised */
+    day: number;
+    status: 'active' | 'withdrawn' | 'accepted' | 'rejected';
+}
+
+/** A completed free-agent signing */
+export interface FreeAgentSigning {
+    playerId: string;
+    playerName: string;
+    teamId: string;
+    day: number;
+    offer: ContractOffer;
+}
+
+/** State of the free agency market */
+export interface FreeAgencyState {
+    /** Current bidding day (1-based) */
+    day: number;
+    totalDays: number;
+    isOpen: boolean;
+    bids: FreeAgentBid[];
+    signings: FreeAgentSigning[];
+}
+
+/** How a free agent rates one bid */
+export interface FreeAgentBidEvaluation {
+    bid: FreeAgentBid;
+    /** Offer value as a share of what the player is asking from this team */
+    valueRatio: number;
+    startingRole: boolean;
+    /** Overall appeal: money, team quality and role */
+    score: number;
+}
 
 /**
- * Generate a full roster based on team strength level
- * - elite teams: mostly veteran/elite players (90s team overall)
- * - good teams: mix of veteran/average (80s team overall)
- * - average teams: mostly average players (70s team overall)
- * - weak teams: below_average/backup players (60s team overall)
+ * How many more players a team wants at a position (starters plus depth)
  */
-export function generateRoster(teamStrength: TeamStrength = 'average'): EconomyPlayer[] {
-    const roster: EconomyPlayer[] = [];
+export function calculatePositionNeed(team: Team, position: Position): number {
+    const wanted = ECONOMY_CONSTANTS.GAME_SIM.LINEUP[position] + ECONOMY_CONSTANTS.FREE_AGENCY.DEPTH_TARGET;
+    return Math.max(0, wanted - team.roster.filter(player => player.position === position).length);
+}
 
-    // Positions to fill
-    const positions: Position[] = [
-        'QB',
-        'WR', 'WR', 'WR',
-        'CB', 'CB', 'CB', 'CB',
-        'OL', 'OL', 'OL', 'OL', 'OL',
-        'DL', 'DL', 'DL', 'DL'
-    ];
+/**
+ * Whether a player would crack a team's starting lineup
+ */
+export function wouldStart(team: Team, player: EconomyPlayer): boolean {
+    const starters = resolveDepthChart(team)[player.position]
+        .filter(p => p.id !== player.id)
+        .slice(0, ECONOMY_CONSTANTS.GAME_SIM.LINEUP[player.position]);
 
-    // Determine tier distribution based on team strength
-    const getTierForTeam = (): PlayerTier => {
-        const roll = Math.random();
+    return starters.length < ECONOMY_CONSTANTS.GAME_SIM.LINEUP[player.position] ||
+        calculateDepthChartScore(player) > Math.min(...starters.map(calculateDepthChartScore));
+}
 
-        switch (teamStrength) {
-            case 'elite':
-                // 90s team: mostly elite/veteran
-                if (roll < 0.4) return 'elite';
-                if (roll < 0.8) return 'veteran';
-                return 'average';
+/**
+ * Rate a bid from the player's side: money relative to their ask from that
+ * team, plus the team's success and whether they would start.
+ */
+export function evaluateFreeAgentBid(player: EconomyPlayer, team: Team, bid: FreeAgentBid): FreeAgentBidEvaluation {
+    const config = ECONOMY_CONSTANTS.FREE_AGENCY;
+    const demands = calculatePlayerDemands(player, team);
+    const valueRatio = calculateOfferValue(bid.offer, demands) / demands.askingSalary;
+    const startingRole = wouldStart(team, player);
 
-            case 'good':
-                // 80s team: mix of veteran/average with some elite
-                if (roll < 0.15) return 'elite';
-                if (roll < 0.5) return 'veteran';
-                if (roll < 0.85) return 'average';
-                return 'below_average';
+    return {
+        bid,
+        valueRatio,
+        startingRole,
+        score: valueRatio + demands.teamSuccess * config.TEAM_QUALITY_WEIGHT + (startingRole ? config.STARTER_WEIGHT : 0),
+    };
+}
 
-            case 'average':
-                // 70s team: mostly average with some variety
-                if (roll < 0.05) return 'veteran';
-                if (roll < 0.7) return 'average';
-                if (roll < 0.9) return 'below_average';
-                return 'rookie';
+/**
+ * Lowest value ratio a free agent accepts on a given day: the full ask on
+ * day one, sliding to the walk-away floor by the last day.
+ */
+export function getFreeAgentAcceptanceThreshold(day: number, totalDays: number): number {
+    const progress = totalDays > 1 ? clamp((day - 1) / (totalDays - 1), 0, 1) : 1;
+    return 1 - progress * (1 - ECONOMY_CONSTANTS.NEGOTIATION.WALK_AWAY_RATIO);
+}
 
-            case 'weak':
-                // 60s team: below_average/backup
-                if (roll < 0.1) return 'average';
-                if (roll < 0.5) return 'below_average';
-                if (roll < 0.8) return 'rookie';
-                return 'backup';
+/**
+ * What an AI team thinks a free agent is worth per year
+ */
+export function calculateAIValuation(team: Team, player: EconomyPlayer): number {
+    const config = ECONOMY_CONSTANTS.FREE_AGENCY;
+    const needPremium = calculatePositionNeed(team, player.position) > 0 ? config.NEED_PREMIUM : 0;
+    return roundMillions(calculateResignSalary(player) * (1 + needPremium + randomNormal(0, config.BID_NOISE)));
+}
 
-            default:
-                return 'average';
-        }
-    };
+// ============================================================================
+// SCOUTING
+// ============================================================================
 
-    positions.forEach(position => {
-        roster.push(generatePlayer(position, getTierForTeam()));
-    });
+/** A scouted rating: the bounds scouts are sure of and their best guess */
+export interface ScoutedRange {
+    low: number;
+    high: number;
+    estimate: number;
+}
 
-    return roster;
+/** How much one team has scouted one player */
+export interface ScoutingReport {
+    teamId: string;
+    playerId: string;
+    pointsSpent: number;
+}
+
+/** A player as one team's scouts see them */
+export interface ScoutedPlayerView {
+    playerId: string;
+    teamId: string;
+    firstName: string;
+    lastName: string;
+    age: number;
+    position: Position;
+    /** 0 (unscouted) to full; own players are always fully known */
+    level: number;
+    overall: ScoutedRange;
+    potentialGrade: ScoutedRange;
+    stats: Partial<Record<keyof PlayerStats, ScoutedRange>>;
+    coreAttributes: Record<keyof CoreAttributes, ScoutedRange>;
+    /** Combine and college data - public, so shown to every team */
+    prospectProfile?: ProspectProfile;
 }
 
 /**
- * Generate a league of teams with realistic strength distribution
- * Target: 2-3 elite teams (90s), most in 70s-80s, 2-3 weak teams (60s)
+ * Scouting level reached with a number of points spent
  */
-export function generateLeague(numTeams: number = 12): Team[] {
-    const teams: Team[] = [];
-
-    // Determine distribution: 2-3 elite, 2-3 weak, rest are average/good
-    const numElite = randomInt(2, 3);
-    const numWeak = randomInt(2, 3);
-    const numGood = Math.floor((numTeams - numElite - numWeak) / 2);
-    const numAverage = numTeams - numElite - numWeak - numGood;
-
-    // Create strength assignments and shuffle
-    const strengths: TeamStrength[] = [
-        ...Array(numElite).fill('elite'),
-        ...Array(numGood).fill('good'),
-        ...Array(numAverage).fill('average'),
-        ...Array(numWeak).fill('weak'),
-    ];
+export function getScoutingLevel(pointsSpent: number): number {
+    let level = 0;
+    let threshold = 0;
+    for (const cost of ECONOMY_CONSTANTS.SCOUTING.LEVEL_COSTS) {
+        threshold += cost;
+        if (pointsSpent < threshold) break;
+        level++;
+    }
+    return level;
+}
 
-    // Shuffle to randomize which teams get which strength
-    const shuffledStrengths = strengths.sort(() => Math.random() - 0.5);
+/**
+ * Points needed to scout a player fully
+ */
+export function getFullScoutingCost(): number {
+    return ECONOMY_CONSTANTS.SCOUTING.LEVEL_COSTS.reduce((total, cost) => total + cost, 0);
+}
 
-    // Team name components
-    const cities = [
-        'Ironhold', 'Stormgate', 'Shadowmere', 'Goldcrest', 'Darkhollow',
-        'Frostpeak', 'Thundervale', 'Crimsonfort', 'Silverlake', 'Blackmoor',
-        'Dragonspire', 'Wolfhaven', 'Ravencliff', 'Stonekeep', 'Fireforge',
-        'Northwatch', 'Eastmarch', 'Westfall', 'Southshore', 'Highgarden',
-    ];
+/**
+ * A team's fixed lean on one of a player's ratings, in [-1, 1]. Derived from
+ * the ids so each team keeps the same opinion, and different teams differ.
+ */
+export function getScoutingOpinion(teamId: string, playerId: string, key: string): number {
+    return hashUnit(`${teamId}:${playerId}:${key}:a`) + hashUnit(`${teamId}:${playerId}:${key}:b`) - 1;
+}
 
-    const mascots = [
-        'Knights', 'Dragons', 'Wolves', 'Ravens', 'Titans',
-        'Warriors', 'Crusaders', 'Gladiators', 'Sentinels', 'Guardians',
-        'Berserkers', 'Paladins', 'Warlords', 'Champions', 'Legends',
-    ];
+/**
+ * Scout one rating: a range of the given half-width around a biased guess,
+ * always containing the true value
+ */
+function scoutRating(value: number, spread: number, opinion: number, min: number, max: number): ScoutedRange {
+    const center = value + opinion * spread;
+    return {
+        low: clamp(Math.round(center - spread), min, max),
+        high: clamp(Math.round(center + spread), min, max),
+        estimate: clamp(Math.round(center), min, max),
+    };
+}
 
-    // Shuffle cities for unique names
-    const shuffledCities = [...cities].sort(() => Math.random() - 0.5);
+/**
+ * Build a team's view of a player. Ranges narrow with scouting level; the
+ * team's own players are known exactly. Hidden hype data is never shown.
+ */
+export function buildScoutedView(team: Team, player: EconomyPlayer, report?: ScoutingReport): ScoutedPlayerView {
+    const config = ECONOMY_CONSTANTS.SCOUTING;
+    const ownPlayer = team.roster.some(p => p.id === player.id);
+    const level = ownPlayer ? config.LEVEL_COSTS.length : getScoutingLevel(report?.pointsSpent ?? 0);
+    const variance = ownPlayer ? 0 : config.RATING_VARIANCE[level];
+    const potentialVariance = ownPlayer ? 0 : config.POTENTIAL_VARIANCE[level];
+
+    const rate = (value: number, key: string, min: number = 0, max: number = 99): ScoutedRange =>
+        scoutRating(value, value * variance, getScoutingOpinion(team.id, player.id, key), min, max);
+
+    const stats: Partial<Record<keyof PlayerStats, ScoutedRange>> = {};
+    (Object.keys(player.stats) as (keyof PlayerStats)[]).forEach(stat => {
+        const value = player.stats[stat];
+        if (value !== undefined) stats[stat] = rate(value, stat);
+    });
 
-    for (let i = 0; i < numTeams; i++) {
-        const city = shuffledCities[i % shuffledCities.length];
-        const mascot = mascots[randomInt(0, mascots.length - 1)];
-        const teamStrength = shuffledStrengths[i];
+    const core = player.coreAttributes;
+    const coreAttributes = {
+        strength: rate(core.strength, 'core.strength'),
+        speed: rate(core.speed, 'core.speed'),
+        agility: rate(core.agility, 'core.agility'),
+        intelligence: rate(core.intelligence, 'core.intelligence'),
+    };
 
-        const team: Team = {
-            id: generateId(),
-            name: `${city} ${mascot}`,
-            fameBudget: ECONOMY_CONSTANTS.STARTING_FAME,
-            coachVP: 0,
-            roster: generateRoster(teamStrength),
-            record: { wins: 0, losses: 0 },
-        };
+    // Overall follows the scouted primary stats, the same way the true overall does
+    const primaryStats = POSITION_PRIMARY_STATS[player.position];
+    const averageOf = (part: keyof ScoutedRange) =>
+        Math.floor(primaryStats.reduce((sum, stat) => sum + (stats[stat]?.[part] ?? 0), 0) / primaryStats.length);
 
-        teams.push(team);
-    }
+    return {
+        playerId: player.id,
+        teamId: team.id,
+        firstName: player.firstName,
+        lastName: player.lastName,
+        age: player.age,
+        position: player.position,
+        level,
+        overall: { low: averageOf('low'), high: averageOf('high'), estimate: averageOf('estimate') },
+        potentialGrade: scoutRating(player.potentialGrade, potentialVariance,
+            getScoutingOpinion(team.id, player.id, 'potentialGrade'), 0, 3),
+        stats,
+        coreAttributes,
+        prospectProfile: player.prospectProfile,
+    };
+}
 
-    return teams;
+/**
+ * Find a team's scouting report on a player
+ */
+export function findScoutingReport(
+    reports: ScoutingReport[],
+    teamId: string,
+    playerId: string
+): ScoutingReport | undefined {
+    return reports.find(report => report.teamId === teamId && report.playerId === playerId);
 }
 
 /**
- * Calculate a team's overall rating from its roster
+ * A copy of the player with the team's scouted estimates in place of the true
+ * ratings, for feeding into valuations. Own players come back unchanged.
  */
-export function calculateTeamOverall(team: Team): number {
-    if (team.roster.length === 0) return 0;
-    const total = team.roster.reduce((sum, player) => sum + player.overall, 0);
-    return Math.floor(total / team.roster.length);
+export function getScoutedPlayer(team: Team, player: EconomyPlayer, reports: ScoutingReport[] = []): EconomyPlayer {
+    if (team.roster.some(p => p.id === player.id)) return player;
+
+    const view = buildScoutedView(team, player, findScoutingReport(reports, team.id, player.id));
+    const stats = { ...player.stats };
+    (Object.keys(view.stats) as (keyof PlayerStats)[]).forEach(stat => {
+        stats[stat] = (view.stats[stat] as ScoutedRange).estimate;
+    });
+
+    return {
+        ...player,
+        stats,
+        overall: view.overall.estimate,
+        potentialGrade: view.potentialGrade.estimate,
+        coreAttributes: {
+            strength: view.coreAttributes.strength.estimate,
+            speed: view.coreAttributes.speed.estimate,
+            agility: view.coreAttributes.agility.estimate,
+            intelligence: view.coreAttributes.intelligence.estimate,
+        },
+    };
 }
 
 // ============================================================================
-// CORE ATTRIBUTES SYSTEM
+// TRADES
 // ============================================================================
 
+/** Something that can change hands in a trade */
+export type TradeAsset =
+    | { type: 'player'; playerId: string }
+    | { type: 'fame'; amount: number }
+    | { type: 'draft_pick'; pickId: string };
+
+/** One asset moving from one team to another */
+export interface TradeLeg {
+    fromTeamId: string;
+    toTeamId: string;
+    asset: TradeAsset;
+}
+
+/** A trade between two or more teams */
+export interface TradeProposal {
+    /** Team that made the offer - assumed to agree to it */
+    proposingTeamId: string;
+    legs: TradeLeg[];
+}
+
+/** Where a team is headed, which shapes what it values */
+export type TeamDirection = 'contending' | 'balanced' | 'rebuilding';
+
+export type TradeDecision = 'accept' | 'reject' | 'counter';
+
+/** One team's view of a trade */
+export interface TeamTradeEvaluation {
+    teamId: string;
+    direction: TeamDirection;
+    /** Draft-point value of everything coming in */
+    valueReceived: number;
+    /** Draft-point value of everything going out */
+    valueGiven: number;
+    decision: TradeDecision;
+    reasons: string[];
+}
+
+/** Verdict on a whole trade */
+export interface TradeEvaluation {
+    /** False when the trade breaks a rule (see errors) */
+    valid: boolean;
+    errors: string[];
+    decision: TradeDecision;
+    /** Evaluations from every team other than the proposer */
+    teams: TeamTradeEvaluation[];
+    /** What the AI would take instead, when it counters */
+    counterProposal?: TradeProposal;
+}
+
+/** Result of proposing a trade */
+export interface TradeResult extends TransactionResult {
+    evaluation: TradeEvaluation;
+    executed: boolean;
+}
+
 /**
- * Result of a core attribute growth attempt
+ * Read a team's direction from its season so far
  */
-export interface CoreAttributeGrowthResult {
-    attribute: keyof CoreAttributes;
-    oldValue: number;
-    newValue: number;
-    isBreakthrough: boolean;
+export function getTeamDirection(team: Team): TeamDirection {
+    const config = ECONOMY_CONSTANTS.TRADES;
+    const success = calculateTeamSuccess(team);
+    if (success >= config.CONTENDING_SUCCESS) return 'contending';
+    if (success < config.REBUILDING_SUCCESS) return 'rebuilding';
+    return 'balanced';
 }
 
 /**
- * Process potential core attribute growth for a player during offseason.
- * Core attributes grow very rarely - even high potential players only have ~5-8% chance.
- * Returns null if no growth occurred, or details of the growth.
+ * Find a player on a team's roster by id
  */
-export function processCoreAttributeGrowth(
-    player: EconomyPlayer
-): CoreAttributeGrowthResult | null {
-    const config = ECONOMY_CONSTANTS.CORE_ATTRIBUTES;
+function findRosterPlayer(team: Team | undefined, playerId: string): EconomyPlayer | undefined {
+    return team?.roster.find(player => player.id === playerId);
+}
 
-    // No growth after cutoff age
-    if (player.age >= config.GROWTH_CUTOFF_AGE) {
-        return null;
+/**
+ * Check a trade against the rules: assets (players and draft picks) must belong
+ * to the sending team, players must be tradeable, fame must be affordable, and every team must
+ * keep a legal roster (see validateRoster) and stay under the cap (unless the trade lowers its payroll).
+ * Returns every problem found.
+ */
+export function validateTrade(
+    proposal: TradeProposal,
+    teams: Map<string, Team>,
+    salaryCap: SalaryCapSettings,
+    draftPicks: DraftPick[] = [],
+    rosterRules: RosterRules = getDefaultRosterRules()
+): string[] {
+    const errors: string[] = [];
+
+    if (proposal.legs.length === 0) {
+        errors.push('Trade has no assets');
+        return errors;
     }
 
-    // Calculate growth chance based on potential
-    let growthChance = config.GROWTH_CHANCE_BASE +
-        (player.potentialGrade * config.GROWTH_CHANCE_PER_POTENTIAL);
-
-    // Young players get slight bonus
-    if (player.age <= 23) {
-        growthChance += 0.01;
-    }
+    const involved = new Set<string>();
+    const seenPlayers = new Set<string>();
+    const seenPicks = new Set<string>();
+    proposal.legs.forEach(leg => {
+        involved.add(leg.fromTeamId);
+        involved.add(leg.toTeamId);
+        const from = teams.get(leg.fromTeamId);
+        if (!from || !teams.has(leg.toTeamId)) {
+            errors.push(`Unknown team in trade (${leg.fromTeamId} → ${leg.toTeamId})`);
+            return;
+        }
+        if (leg.fromTeamId === leg.toTeamId) {
+            errors.push(`${from.name} cannot trade with itself`);
+            return;
+        }
 
-    // Cap the chance
-    growthChance = Math.min(growthChance, config.GROWTH_CHANCE_CAP);
+        if (leg.asset.type === 'player') {
+            const player = findRosterPlayer(from, leg.asset.playerId);
+            if (!player) {
+                errors.push(`Player ${leg.asset.playerId} is not on ${from.name}'s roster`);
+            } else if (seenPlayers.has(player.id)) {
+                errors.push(`${player.firstName} ${player.lastName} appears in the trade twice`);
+            } else if (calculateTradeValueDraftPoints(player) === 0) {
+                errors.push(`${player.firstName} ${player.lastName} cannot be traded (contract count too high)`);
+            } else if (player.practiceSquad) {
+                errors.push(`${player.firstName} ${player.lastName} is on the practice squad and cannot be traded`);
+            }
+            seenPlayers.add(leg.asset.playerId);
+        } else if (leg.asset.type === 'draft_pick') {
+            const pickId = leg.asset.pickId;
+            const pick = draftPicks.find(p => p.id === pickId);
+            if (!pick || pick.ownerTeamId !== from.id) {
+                errors.push(`${from.name} does not own draft pick ${pickId}`);
+            } else if (pick.status === 'used') {
+                errors.push(`${describeDraftPick(pick, teams)} has already been used`);
+            } else if (seenPicks.has(pick.id)) {
+                errors.push(`${describeDraftPick(pick, teams)} appears in the trade twice`);
+            }
+            seenPicks.add(pickId);
+        } else if (!(leg.asset.amount > 0) || !Number.isInteger(leg.asset.amount)) {
+            errors.push(`Fame amounts must be positive whole numbers, got ${leg.asset.amount}`);
+        }
+    });
 
-    // Roll for growth
-    if (Math.random() > growthChance) {
-        return null;
+    if (!involved.has(proposal.proposingTeamId)) {
+        errors.push('The proposing team is not part of the trade');
     }
+    if (errors.length > 0) return errors;
 
-    // Growth occurred! Pick a random attribute
-    const attributes: (keyof CoreAttributes)[] = ['strength', 'speed', 'agility', 'intelligence'];
-    const attribute = attributes[randomInt(0, attributes.length - 1)];
-    const oldValue = player.coreAttributes[attribute];
+    involved.forEach(teamId => {
+        const team = teams.get(teamId) as Team;
+        const outgoing = proposal.legs.filter(leg => leg.fromTeamId === teamId);
+        const incoming = proposal.legs.filter(leg => leg.toTeamId === teamId);
 
-    // Check for breakthrough (exceptional growth)
-    const isBreakthrough = Math.random() < config.BREAKTHROUGH_CHANCE;
-    const growthAmount = isBreakthrough
-        ? randomInt(config.BREAKTHROUGH_AMOUNT.min, config.BREAKTHROUGH_AMOUNT.max)
-        : randomInt(config.GROWTH_AMOUNT.min, config.GROWTH_AMOUNT.max);
+        const fameOut = outgoing.reduce((total, leg) => total + (leg.asset.type === 'fame' ? leg.asset.amount : 0), 0);
+        if (fameOut > team.fameBudget) {
+            errors.push(`${team.name} cannot afford to send ${fameOut} fame (has ${team.fameBudget})`);
+        }
 
-    // Apply growth
-    const newValue = clamp(oldValue + growthAmount, 30, 99);
-    player.coreAttributes[attribute] = newValue;
+        const playersOut = outgoing.flatMap(leg => leg.asset.type === 'player'
+            ? [findRosterPlayer(team, leg.asset.playerId) as EconomyPlayer]
+            : []);
+        const playersIn = incoming.flatMap(leg => leg.asset.type === 'player'
+            ? [findRosterPlayer(teams.get(leg.fromTeamId), leg.asset.playerId) as EconomyPlayer]
+            : []);
+
+        // A trade can't break a roster rule, or leave a broken one worse
+        const rosterAfter = [...team.roster.filter(player => !playersOut.includes(player)), ...playersIn];
+        findNewRosterViolations(validateRoster(team, rosterRules), validateRoster({ ...team, roster: rosterAfter }, rosterRules))
+            .forEach(violation => errors.push(`After the trade, ${violation.message}`));
+
+        const payroll = calculateTeamPayroll(team);
+        const payrollAfter = roundMillions(payroll +
+            playersIn.reduce((total, player) => total + (player.contractData?.annualSalary ?? 0), 0) -
+            playersOut.reduce((total, player) =>
+                total + (player.contractData?.annualSalary ?? 0) -
+                (player.contractData ? calculateDeadCap(player.contractData, 'traded') : 0), 0));
+        if (payrollAfter > salaryCap.cap && payrollAfter > payroll) {
+            errors.push(`${team.name} would be $${roundMillions(payrollAfter - salaryCap.cap)}M over the ` +
+                `$${salaryCap.cap}M cap (payroll $${payrollAfter}M)`);
+        }
+    });
 
-    return {
-        attribute,
-        oldValue,
-        newValue,
-        isBreakthrough,
-    };
+    return errors;
 }
 
 /**
- * Calculate effective stat value considering core attribute influence.
- * Formula: effectiveStat = baseStat * (1 - influence) + coreAttr * influence
- *
- * This blends the trained skill with the underlying physical/mental attribute.
+ * Value a player from one team's point of view: trade value in draft points,
+ * adjusted for positional need and the team's direction.
  */
-export function calculateEffectiveStat(
+function valuePlayerForTeam(
+    team: Team,
     player: EconomyPlayer,
-    stat: keyof PlayerStats
+    direction: TeamDirection,
+    incoming: boolean,
+    reasons: string[]
 ): number {
-    const baseStat = player.stats[stat];
-    if (baseStat === undefined) return 0;
-
-    const influences = ECONOMY_CONSTANTS.CORE_ATTRIBUTE_SKILL_INFLUENCE;
-    let totalInfluence = 0;
-    let weightedCoreContribution = 0;
+    const config = ECONOMY_CONSTANTS.TRADES;
+    let value = calculateTradeValueDraftPoints(player);
 
-    // Check each core attribute for influence on this stat
-    for (const [coreAttr, skillInfluences] of Object.entries(influences)) {
-        const influence = (skillInfluences as Record<string, number>)[stat];
-        if (influence) {
-            totalInfluence += influence;
-            const coreValue = player.coreAttributes[coreAttr as keyof CoreAttributes];
-            weightedCoreContribution += coreValue * influence;
-        }
+    if (incoming && (calculatePositionNeed(team, player.position) > 0 || wouldStart(team, player))) {
+        value *= 1 + config.NEED_BONUS;
+        reasons.push(`${player.firstName} ${player.lastName} fills a need at ${player.position}`);
+    }
+    if (!incoming && wouldStart(team, player)) {
+        value *= 1 + config.NEED_BONUS;
+        reasons.push(`Losing ${player.firstName} ${player.lastName} opens a hole at ${player.position}`);
     }
 
-    // If no core attributes influence this stat, return base stat
-    if (totalInfluence === 0) {
-        return baseStat;
+    if (direction === 'rebuilding') {
+        if (player.age <= config.YOUTH_AGE) value *= 1 + config.REBUILD_YOUTH_BONUS;
+        if (player.age >= config.VETERAN_AGE) value *= 1 - config.REBUILD_VETERAN_DISCOUNT;
+    } else if (direction === 'contending' && player.overall >= config.CONTENDER_STAR_OVERALL) {
+        value *= 1 + config.CONTENDER_STAR_BONUS;
     }
 
-    // Blend base stat with core attribute contribution
-    // Example: if speed has 0.4 influence from core speed,
-    // effectiveSpeed = baseStat * 0.6 + coreSpeed * 0.4
-    const effectiveStat = baseStat * (1 - totalInfluence) + weightedCoreContribution;
+    return Math.round(value);
+}
 
-    return clamp(Math.round(effectiveStat), 0, 99);
+/**
+ * How one team (not the proposer) sees a trade.
+ * Accepts a clear win, counters a near miss, rejects the rest.
+ * @param currentSeason - Season the trade happens in, so future picks are discounted
+ */
+export function evaluateTradeForTeam(
+    team: Team,
+    proposal: TradeProposal,
+    teams: Map<string, Team>,
+    draftPicks: DraftPick[] = [],
+    scoutingReports: ScoutingReport[] = [],
+    currentSeason?: number
+): TeamTradeEvaluation {
+    const config = ECONOMY_CONSTANTS.TRADES;
+    const direction = getTeamDirection(team);
+    const reasons: string[] = [];
+
+    const valueLeg = (leg: TradeLeg, incoming: boolean): number => {
+        if (leg.asset.type === 'fame') return Math.round(leg.asset.amount * config.FAME_VALUE);
+        if (leg.asset.type === 'draft_pick') {
+            const pickId = leg.asset.pickId;
+            const pick = draftPicks.find(p => p.id === pickId);
+            if (!pick) return 0;
+            const directionFactor = direction === 'rebuilding' ? 1 + config.REBUILD_PICK_BONUS
+                : direction === 'contending' ? 1 - config.CONTENDER_PICK_DISCOUNT
+                : 1;
+            return Math.round(estimateDraftPickValue(pick, teams, currentSeason) * directionFactor);
+        }
+        const player = findRosterPlayer(teams.get(leg.fromTeamId), leg.asset.playerId);
+        if (!player) return 0;
+        // Incoming players are judged on what the team's scouts know about them
+        const seen = incoming ? getScoutedPlayer(team, player, scoutingReports) : player;
+        return valuePlayerForTeam(team, seen, direction, incoming, reasons);
+    };
+
+    const valueReceived = proposal.legs
+        .filter(leg => leg.toTeamId === team.id)
+        .reduce((total, leg) => total + valueLeg(leg, true), 0);
+    const valueGiven = proposal.legs
+        .filter(leg => leg.fromTeamId === team.id)
+        .reduce((total, leg) => total + valueLeg(leg, false), 0);
+
+    if (direction === 'rebuilding') reasons.push('Rebuilding: favours young players, picks and fame over veterans');
+    if (direction === 'contending') reasons.push('Contending: favours proven starters');
+
+    const ratio = valueGiven > 0 ? valueReceived / valueGiven : Infinity;
+    const decision: TradeDecision = ratio >= config.ACCEPT_RATIO ? 'accept'
+        : ratio >= config.COUNTER_RATIO ? 'counter'
+        : 'reject';
+    reasons.push(`Receives ${valueReceived} points of value for ${valueGiven}` +
+        (decision === 'accept' ? '' : decision === 'counter' ? ' - close, but needs a sweetener' : ' - not enough'));
+
+    return { teamId: team.id, direction, valueReceived, valueGiven, decision, reasons };
 }
 
 /**
- * Get all effective stats for a player, accounting for core attribute influence.
+ * Validate a trade and collect every non-proposing team's verdict.
+ * Counters ask the proposer for enough extra fame to close the gap.
+ * @param currentSeason - Season the trade happens in, so future picks are discounted
  */
-export function getEffectiveStats(player: EconomyPlayer): PlayerStats {
-    const effectiveStats: PlayerStats = {
-        speed: calculateEffectiveStat(player, 'speed'),
-        acceleration: calculateEffectiveStat(player, 'acceleration'),
-        agility: calculateEffectiveStat(player, 'agility'),
-        catching: calculateEffectiveStat(player, 'catching'),
-        routeRunning: calculateEffectiveStat(player, 'routeRunning'),
-        release: calculateEffectiveStat(player, 'release'),
-        focus: calculateEffectiveStat(player, 'focus'),
-        tackling: calculateEffectiveStat(player, 'tackling'),
-        hitPower: calculateEffectiveStat(player, 'hitPower'),
-        pursuit: calculateEffectiveStat(player, 'pursuit'),
-        awareness: calculateEffectiveStat(player, 'awareness'),
-        passBlock: calculateEffectiveStat(player, 'passBlock'),
-        passRush: calculateEffectiveStat(player, 'passRush'),
-        strength: calculateEffectiveStat(player, 'strength'),
-        balance: calculateEffectiveStat(player, 'balance'),
-        aggression: calculateEffectiveStat(player, 'aggression'),
-        stamina: calculateEffectiveStat(player, 'stamina'),
-    };
-
-    // Add throwing for QB
-    if (player.position === 'QB' && player.stats.throwing !== undefined) {
-        effectiveStats.throwing = calculateEffectiveStat(player, 'throwing');
+export function evaluateTrade(
+    proposal: TradeProposal,
+    teams: Map<string, Team>,
+    salaryCap: SalaryCapSettings,
+    draftPicks: DraftPick[] = [],
+    scoutingReports: ScoutingReport[] = [],
+    rosterRules: RosterRules = getDefaultRosterRules(),
+    currentSeason?: number
+): TradeEvaluation {
+    const errors = validateTrade(proposal, teams, salaryCap, draftPicks, rosterRules);
+    if (errors.length > 0) {
+        return { valid: false, errors, decision: 'reject', teams: [] };
     }
 
-    return effectiveStats;
-}
+    const config = ECONOMY_CONSTANTS.TRADES;
+    const counterparties = new Set<string>();
+    proposal.legs.forEach(leg => {
+        [leg.fromTeamId, leg.toTeamId]
+            .filter(teamId => teamId !== proposal.proposingTeamId)
+            .forEach(teamId => counterparties.add(teamId));
+    });
 
-/**
- * Calculate a weighted roll for clash mechanics using effective stats.
- * This connects core attributes to on-field performance.
- */
-export function calculateWeightedRoll(
-    player: EconomyPlayer,
-    statWeights: Partial<Record<keyof PlayerStats, number>>,
-    variance: number = 0.2
-): number {
-    let weightedTotal = 0;
+    const evaluations = Array.from(counterparties)
+        .map(teamId => evaluateTradeForTeam(
+            teams.get(teamId) as Team, proposal, teams, draftPicks, scoutingReports, currentSeason
+        ));
 
-    for (const [stat, weight] of Object.entries(statWeights)) {
-        const effectiveStat = calculateEffectiveStat(player, stat as keyof PlayerStats);
-        weightedTotal += effectiveStat * weight;
+    if (evaluations.some(evaluation => evaluation.decision === 'reject')) {
+        return { valid: true, errors, decision: 'reject', teams: evaluations };
+    }
+    if (evaluations.every(evaluation => evaluation.decision === 'accept')) {
+        return { valid: true, errors, decision: 'accept', teams: evaluations };
     }
 
-    // Apply random variance (±variance%)
-    const randomFactor = 1 + (Math.random() - 0.5) * 2 * variance;
-    return weightedTotal * randomFactor;
-}
-
-/**
- * Separation clash - WR trying to get open vs CB coverage
- * Uses ability matchups: WR abilities vs CB coverage style
- * Returns positive if receiver wins, negative if defender wins
- */
-export function calculateSeparationClash(
-    receiver: EconomyPlayer,
-    defender: EconomyPlayer,
-    phase: 'release' | 'route' | 'any' = 'any'
-): number {
-    const wrAbilities = calculateWRAbilities(receiver);
-    const cbAbilities = calculateCBAbilities(defender);
-
-    let receiverValue: number;
-    let defenderValue: number;
-
-    if (phase === 'release') {
-        // At the line: WR release vs CB press
-        receiverValue = wrAbilities.releaseMove;
-        defenderValue = cbAbilities.pressCoverage;
-    } else if (phase === 'route') {
-        // During route: WR route sharpness vs CB man/zone (use best)
-        receiverValue = wrAbilities.routeSharpness;
-        defenderValue = Math.max(cbAbilities.manCoverage, cbAbilities.zoneCoverage);
-    } else {
-        // General: Use best abilities for each
-        const wrBest = getBestWRAbility(receiver, 'any');
-        const cbBest = getBestCBAbility(defender, 'any');
-        receiverValue = wrBest.value;
-        defenderValue = cbBest.value;
+    // Counter: the proposer adds fame to every team that wants more
+    const sweeteners: TradeLeg[] = evaluations
+        .filter(evaluation => evaluation.decision === 'counter')
+        .map(evaluation => ({
+            fromTeamId: proposal.proposingTeamId,
+            toTeamId: evaluation.teamId,
+            asset: {
+                type: 'fame' as const,
+                amount: Math.ceil((evaluation.valueGiven * config.ACCEPT_RATIO - evaluation.valueReceived) / config.FAME_VALUE),
+            },
+        }));
+    const counterProposal: TradeProposal = { ...proposal, legs: [...proposal.legs, ...sweeteners] };
+
+    if (validateTrade(counterProposal, teams, salaryCap, draftPicks, rosterRules).length > 0) {
+        evaluations.forEach(evaluation => {
+            if (evaluation.decision === 'counter') {
+                evaluation.decision = 'reject';
+                evaluation.reasons.push('The proposer cannot afford the fame needed to close the gap');
+            }
+        });
+        return { valid: true, errors, decision: 'reject', teams: evaluations };
     }
 
-    // Add variance (±15%)
-    const variance = 0.15;
-    const receiverRoll = receiverValue * (1 + (Math.random() - 0.5) * 2 * variance);
-    const defenderRoll = defenderValue * (1 + (Math.random() - 0.5) * 2 * variance);
+    return { valid: true, errors, decision: 'counter', teams: evaluations, counterProposal };
+}
+
+// ============================================================================
+// DRAFT PICKS
+// ============================================================================
 
-    return receiverRoll - defenderRoll;
+/** A team's pick in one round of one season's draft */
+export interface DraftPick {
+    id: string;
+    /** Season whose final standings set the draft order */
+    season: number;
+    round: number;
+    originalTeamId: string;
+    ownerTeamId: string;
+    /**
+     * Top-N protection: if the pick lands in the first N picks of its round,
+     * it goes back to the original team
+     */
+    protectedTop?: number;
+    /** 'resolved' once the order is known; 'used' once a player is drafted with it */
+    status: 'pending' | 'resolved' | 'used';
+    /** Overall pick number, set when the order is resolved */
+    pickNumber?: number;
+    /** Position within the round, set when the order is resolved */
+    roundPosition?: number;
+    /** Set when a protection sent the pick back to its original team */
+    protectionTriggered?: boolean;
 }
 
+/** Order in which playoff finishes pick (earliest exit picks first) */
+const PLAYOFF_FINISH_ORDER: PlayoffFinish[] = [
+    'missed', 'wild_card', 'divisional', 'conference_finals', 'runner_up', 'champion',
+];
+
 /**
- * Result of a line clash with ability details
+ * Readable label, e.g. "Season 3 round 1 #7 pick (Ironhold Titans)"
  */
-export interface LineClashResult {
-    margin: number;
-    dlAbilityUsed: keyof DLAbilities;
-    olAbilityUsed: keyof OLAbilities;
-    dlAbilityValue: number;
-    olAbilityValue: number;
+export function describeDraftPick(pick: DraftPick, teams?: Map<string, Team>): string {
+    const original = teams?.get(pick.originalTeamId)?.name ?? pick.originalTeamId;
+    const number = pick.pickNumber !== undefined ? ` #${pick.pickNumber}` : '';
+    return `Season ${pick.season} round ${pick.round}${number} pick (${original})`;
 }
 
 /**
- * Ability matchup matrix - determines effectiveness of DL move vs OL technique
- * Values > 1.0 favor DL, < 1.0 favor OL
+ * Create every team's picks for one season's draft
  */
-const ABILITY_MATCHUP_MATRIX: Record<keyof DLAbilities, Record<keyof OLAbilities, number>> = {
-    bullRush: {
-        anchor: 0.85,       // Anchor is strong vs bull rush
-        handFighting: 1.0,  // Neutral
-        footwork: 1.15,     // Footwork weak vs power
-        driveBlock: 0.95,   // Drive block decent vs bull rush
-    },
-    blockShed: {
-        anchor: 1.10,       // Block shed beats pure anchor
-        handFighting: 0.90, // Hand fighting counters block shed
-        footwork: 1.05,     // Slight advantage
-        driveBlock: 0.95,   // Drive block decent
-    },
-    spinMove: {
-        anchor: 1.20,       // Spin beats stationary anchor
-        handFighting: 1.05, // Slight advantage
-        footwork: 0.85,     // Footwork counters spin
-        driveBlock: 1.10,   // Spin beats forward momentum
-    },
-    swimMove: {
-        anchor: 1.15,       // Swim beats anchor
-        handFighting: 0.85, // Hand fighting counters swim
-        footwork: 0.95,     // Slight disadvantage
-        driveBlock: 1.05,   // Slight advantage
-    },
-};
+export function createDraftPicks(teamIds: string[], season: number): DraftPick[] {
+    const rounds = ECONOMY_CONSTANTS.CONTRACTS.ROOKIE_SALARIES.DRAFT_ROUNDS;
+    return teamIds.flatMap(teamId =>
+        Array.from({ length: rounds }, (_, index) => ({
+            id: generateId(),
+            season,
+            round: index + 1,
+            originalTeamId: teamId,
+            ownerTeamId: teamId,
+            status: 'pending' as const,
+        }))
+    );
+}
 
 /**
- * Line clash - OL blocking vs DL rushing using ability matchups
- * Each player uses their best ability, but matchups matter
- * Returns positive if OL wins (protection), negative if DL wins (pressure)
+ * Draft order from final standings, first pick first: teams that went out
+ * earlier in the playoffs (or missed them) pick before teams that went further;
+ * within that, worse records pick first, then worse point differential.
+ * Remaining ties are broken at random.
  */
-export function calculateLineClash(
-    offensiveLineman: EconomyPlayer,
-    defensiveLineman: EconomyPlayer
-): number {
-    const result = calculateLineClashDetailed(offensiveLineman, defensiveLineman);
-    return result.margin;
+export function calculateDraftOrder(teams: Team[], standings: StandingsEntry[]): string[] {
+    const entries = new Map(standings.map(entry => [entry.teamId, entry]));
+    const finishRank = (team: Team) => PLAYOFF_FINISH_ORDER.indexOf(team.playoffFinish ?? 'missed');
+    const winPct = (team: Team) => {
+        const entry = entries.get(team.id);
+        if (entry) return entry.winPct;
+        const { wins, losses, ties = 0 } = team.record;
+        const games = wins + losses + ties;
+        return games > 0 ? (wins + ties / 2) / games : 0;
+    };
+
+    return shuffle(teams)
+        .sort((a, b) =>
+            finishRank(a) - finishRank(b) ||
+            winPct(a) - winPct(b) ||
+            (entries.get(a.id)?.pointDifferential ?? 0) - (entries.get(b.id)?.pointDifferential ?? 0)
+        )
+        .map(team => team.id);
 }
 
 /**
- * Detailed line clash with ability information
+ * Give a season's picks their numbers from the draft order and apply protections
+ * @param order - Team ids, first pick first (see calculateDraftOrder)
+ * @returns The season's picks in draft order
  */
-export function calculateLineClashDetailed(
-    offensiveLineman: EconomyPlayer,
-    defensiveLineman: EconomyPlayer
-): LineClashResult {
-    const dlAbilities = calculateDLAbilities(defensiveLineman);
-    const olAbilities = calculateOLAbilities(offensiveLineman);
+export function resolveDraftPicks(picks: DraftPick[], season: number, order: string[]): DraftPick[] {
+    const seasonPicks = picks.filter(pick => pick.season === season && pick.status === 'pending');
 
-    // DL picks their best move
-    const dlBest = getBestDLAbility(defensiveLineman);
-
-    // OL picks their best counter for that move
-    // Or their overall best if no specific counter
-    let olBest = getBestOLAbility(offensiveLineman);
+    seasonPicks.forEach(pick => {
+        const position = order.indexOf(pick.originalTeamId);
+        if (position === -1) return;
 
-    // Check if there's a better counter available
-    const matchups = ABILITY_MATCHUP_MATRIX[dlBest.ability];
-    let bestCounterValue = -Infinity;
-    let bestCounter: keyof OLAbilities = olBest.ability;
+        pick.roundPosition = position + 1;
+        pick.pickNumber = (pick.round - 1) * order.length + position + 1;
+        pick.status = 'resolved';
 
-    for (const [olAbility, matchupMod] of Object.entries(matchups)) {
-        const olAbilityKey = olAbility as keyof OLAbilities;
-        // Effective value = ability value / matchup modifier (lower modifier = better for OL)
-        const effectiveValue = olAbilities[olAbilityKey] / matchupMod;
-        if (effectiveValue > bestCounterValue) {
-            bestCounterValue = effectiveValue;
-            bestCounter = olAbilityKey;
+        if (pick.protectedTop !== undefined && pick.roundPosition <= pick.protectedTop &&
+            pick.ownerTeamId !== pick.originalTeamId) {
+            pick.ownerTeamId = pick.originalTeamId;
+            pick.protectionTriggered = true;
         }
-    }
-
-    // Use the best counter if it's reasonably close to their best overall ability
-    if (olAbilities[bestCounter] >= olBest.value * 0.85) {
-        olBest = { ability: bestCounter, value: olAbilities[bestCounter] };
-    }
-
-    // Calculate the clash with matchup modifier
-    const matchupModifier = ABILITY_MATCHUP_MATRIX[dlBest.ability][olBest.ability];
-    const dlEffective = dlBest.value * matchupModifier;
-    const olEffective = olBest.value;
+    });
 
-    // Add variance (±15%)
-    const variance = 0.15;
-    const dlRoll = dlEffective * (1 + (Math.random() - 0.5) * 2 * variance);
-    const olRoll = olEffective * (1 + (Math.random() - 0.5) * 2 * variance);
+    return seasonPicks
+        .filter(pick => pick.pickNumber !== undefined)
+        .sort((a, b) => (a.pickNumber as number) - (b.pickNumber as number));
+}
 
-    return {
-        margin: olRoll - dlRoll,
-        dlAbilityUsed: dlBest.ability,
-        olAbilityUsed: olBest.ability,
-        dlAbilityValue: dlBest.value,
-        olAbilityValue: olBest.value,
-    };
+/**
+ * Trade value (in draft points) of an overall pick number
+ */
+export function calculatePickNumberValue(pickNumber: number, totalPicks: number): number {
+    const config = ECONOMY_CONSTANTS.DRAFT.PICK_VALUE;
+    const normalized = totalPicks > 1 ? clamp((pickNumber - 1) / (totalPicks - 1), 0, 1) : 0;
+    return Math.round(config.LAST + (config.FIRST - config.LAST) * Math.exp(-config.DECAY * normalized));
 }
 
 /**
- * Tackle clash - defender trying to tackle ball carrier
- * Ball carrier uses YAC ability if WR, otherwise standard evasion
- * Returns true if tackle succeeds
+ * Estimate what a pick is worth in draft points. Resolved picks use their
+ * number; pending picks project one from the original team's success
+ * (future seasons regress towards mid-round and are discounted).
+ * Protections that look likely to trigger cut the value.
  */
-export function calculateTackleClash(
-    tackler: EconomyPlayer,
-    ballCarrier: EconomyPlayer
-): boolean {
-    const tacklerRoll = calculateWeightedRoll(tackler, {
-        tackling: 0.40,
-        pursuit: 0.30,
-        hitPower: 0.30,
-    });
+export function estimateDraftPickValue(pick: DraftPick, teams: Map<string, Team>, currentSeason?: number): number {
+    const config = ECONOMY_CONSTANTS.DRAFT;
+    const teamCount = Math.max(1, teams.size);
+    const totalPicks = teamCount * ECONOMY_CONSTANTS.CONTRACTS.ROOKIE_SALARIES.DRAFT_ROUNDS;
 
-    let evasionRoll: number;
+    if (pick.pickNumber !== undefined) {
+        return calculatePickNumberValue(pick.pickNumber, totalPicks);
+    }
 
-    // WRs use their YAC ability for evasion
-    if (ballCarrier.position === 'WR') {
-        const wrAbilities = calculateWRAbilities(ballCarrier);
-        evasionRoll = wrAbilities.yacAbility * (1 + (Math.random() - 0.5) * 0.3);
-    } else {
-        evasionRoll = calculateWeightedRoll(ballCarrier, {
-            agility: 0.35,
-            speed: 0.30,
-            balance: 0.35,
-        });
+    const original = teams.get(pick.originalTeamId);
+    const seasonsAhead = Math.max(0, pick.season - (currentSeason ?? pick.season));
+    // Further-out picks are harder to call: blend towards a mid-round pick
+    const success = original ? calculateTeamSuccess(original) : 0.5;
+    const blendedSuccess = 0.5 + (success - 0.5) * Math.pow(0.5, seasonsAhead);
+    const roundPosition = clamp(Math.round(blendedSuccess * (teamCount - 1)) + 1, 1, teamCount);
+    const projectedNumber = (pick.round - 1) * teamCount + roundPosition;
+
+    let value = calculatePickNumberValue(projectedNumber, totalPicks) * Math.pow(config.FUTURE_DISCOUNT, seasonsAhead);
+    if (pick.protectedTop !== undefined && roundPosition <= pick.protectedTop) {
+        value *= config.PROTECTION_DISCOUNT;
     }
+    return Math.round(value);
+}
 
-    // Tackle succeeds if tackler roll exceeds evasion by more than -5
-    return tacklerRoll - evasionRoll > -5;
+// ============================================================================
+// DRAFT
+// ============================================================================
+
+/** One player taken in the draft */
+export interface DraftSelection {
+    pickId: string;
+    pickNumber: number;
+    round: number;
+    teamId: string;
+    playerId: string;
+    playerName: string;
+    position: Position;
+    overall: number;
+    /** True when the AI made the pick (including auto-picks for the user) */
+    auto: boolean;
+    /** Roster rules the pick broke, for the user's team (AI teams repair their roster instead) */
+    warnings?: string[];
+}
+
+/** State of a draft in progress */
+export interface DraftState {
+    season: number;
+    /** Pick ids in draft order */
+    pickIds: string[];
+    /** Index into pickIds of the pick on the clock */
+    currentIndex: number;
+    /** Prospects still on the board */
+    prospects: EconomyPlayer[];
+    selections: DraftSelection[];
+    isComplete: boolean;
 }
 
 /**
- * Contested catch clash - WR vs CB when ball arrives
- * Uses WR contested catch ability vs CB ball hawk ability
- * Returns catch probability modifier (-1 to 1)
+ * Generate one draft prospect: rookie age and upside, with talent from the
+ * prospect tier weights
  */
-export function calculateContestedCatchClash(
-    receiver: EconomyPlayer,
-    defender: EconomyPlayer
-): number {
-    const wrAbilities = calculateWRAbilities(receiver);
-    const cbAbilities = calculateCBAbilities(defender);
+export function generateProspect(position: Position): EconomyPlayer {
+    const prospect = generatePlayer(position, selectRandomTier(ECONOMY_CONSTANTS.DRAFT.PROSPECT_TIER_WEIGHTS));
 
-    const wrValue = wrAbilities.contestedCatch;
-    const cbValue = cbAbilities.ballHawk;
+    prospect.age = generateAge('rookie');
+    prospect.potentialGrade = generatePotential(prospect.age, 'rookie');
+    prospect.yearsInLeague = 0;
+    prospect.salaryCost = calculatePlayerCostFromStats(prospect);
+    prospect.prospectProfile = generateProspectProfile(prospect);
 
-    // Add variance
-    const variance = 0.15;
-    const wrRoll = wrValue * (1 + (Math.random() - 0.5) * 2 * variance);
-    const cbRoll = cbValue * (1 + (Math.random() - 0.5) * 2 * variance);
+    return prospect;
+}
 
-    // Return normalized difference (-1 to 1 range, roughly)
-    return (wrRoll - cbRoll) / 50;
+/**
+ * Generate a prospect class, with positions in the same proportions as a lineup
+ */
+export function generateDraftClass(size: number): EconomyPlayer[] {
+    const lineup = ECONOMY_CONSTANTS.GAME_SIM.LINEUP;
+    const positions = (Object.keys(lineup) as Position[])
+        .flatMap(position => Array(lineup[position]).fill(position) as Position[]);
+
+    return Array.from({ length: size }, (_, index) => generateProspect(
+        index < positions.length ? positions[index] : positions[randomInt(0, positions.length - 1)]
+    ));
 }
 
 /**
- * Get a display-friendly summary of core attributes
+ * Where a prospect sits on a team's draft board: talent (rating blended with
+ * college production) and upside, boosted when the team is short at the
+ * position, with a little noise
  */
-export function getCoreAttributeGrade(value: number): string {
-    if (value >= 90) return 'Elite';
-    if (value >= 80) return 'Excellent';
-    if (value >= 70) return 'Good';
-    if (value >= 60) return 'Average';
-    if (value >= 50) return 'Below Avg';
-    return 'Poor';
+export function scoreProspectForTeam(team: Team, prospect: EconomyPlayer): number {
+    const config = ECONOMY_CONSTANTS.DRAFT;
+    const rating = prospect.prospectProfile
+        ? prospect.overall * (1 - config.PRODUCTION_WEIGHT) +
+            calculateProductionGrade(prospect.position, prospect.prospectProfile.college) * config.PRODUCTION_WEIGHT
+        : prospect.overall;
+    const talent = rating + prospect.potentialGrade * config.POTENTIAL_WEIGHT;
+    const need = Math.min(2, calculatePositionNeed(team, prospect.position));
+    return talent * (1 + need * config.NEED_WEIGHT + randomNormal(0, config.BOARD_NOISE));
 }
 
 /**
- * Get overall core attribute average for a player
+ * The prospect a team takes: the top of its board, built from its scouting
  */
-export function getCoreAttributeAverage(player: EconomyPlayer): number {
-    const { strength, speed, agility, intelligence } = player.coreAttributes;
-    return Math.round((strength + speed + agility + intelligence) / 4);
+export function chooseDraftProspect(
+    team: Team,
+    prospects: EconomyPlayer[],
+    scoutingReports: ScoutingReport[] = []
+): EconomyPlayer | undefined {
+    return prospects
+        .map(prospect => ({
+            prospect,
+            score: scoreProspectForTeam(team, getScoutedPlayer(team, prospect, scoutingReports)),
+        }))
+        .sort((a, b) => b.score - a.score)[0]?.prospect;
 }
 
 // ============================================================================
-// POSITION-SPECIFIC ABILITY CALCULATIONS
+// PROSPECT PROFILES
 // ============================================================================
 
-/**
- * Calculate DL (Defensive Line) abilities from core attributes.
- * Each ability favors different attribute combinations, creating viable builds.
- */
-export function calculateDLAbilities(player: EconomyPlayer): DLAbilities {
-    const { strength, speed, agility, intelligence } = player.coreAttributes;
-    const passRush = calculateEffectiveStat(player, 'passRush');
+/** Pre-draft combine measurables */
+export interface CombineResults {
+    /** Seconds */
+    fortyYardDash: number;
+    /** Reps of 225 lbs */
+    benchPress: number;
+    /** 20-yard shuttle, seconds */
+    shuttle: number;
+    /** Inches */
+    verticalJump: number;
+    /** Cognitive test score, 0-50 */
+    wonderlic: number;
+}
 
-    return {
-        // Bull Rush: Power through - Strength dominant (60%), some technique (passRush 25%), timing (intelligence 15%)
-        bullRush: clamp(Math.round(
-            strength * 0.60 + passRush * 0.25 + intelligence * 0.15
-        ), 0, 99),
+/** One college season's production; stat keys depend on position */
+export interface CollegeSeason {
+    /** 1 = first college season */
+    season: number;
+    games: number;
+    stats: Record<string, number>;
+}
 
-        // Block Shed: Disengage quickly - Strength (40%) + Agility (40%) + technique (20%)
-        blockShed: clamp(Math.round(
-            strength * 0.40 + agility * 0.40 + passRush * 0.20
-        ), 0, 99),
+/** Everything public about a prospect before the draft */
+export interface ProspectProfile {
+    combine: CombineResults;
+    /** Oldest season first */
+    college: CollegeSeason[];
+}
 
-        // Spin Move: Finesse move - Agility dominant (55%), Speed (25%), technique (20%)
-        spinMove: clamp(Math.round(
-            agility * 0.55 + speed * 0.25 + passRush * 0.20
-        ), 0, 99),
+/** How one college stat is produced from a player's ratings */
+interface CollegeStatDefinition {
+    key: string;
+    /** 'game' stats are counted per game and stored as season totals; 'rate' stats are stored as-is */
+    per: 'game' | 'rate';
+    /** Value for the least and most skilled players */
+    worst: number;
+    best: number;
+    /** Ratings behind the stat and their weights */
+    skills: Partial<Record<keyof PlayerStats, number>>;
+}
 
-        // Swim Move: Over the arms - Agility (45%), Speed (35%), technique (20%)
-        swimMove: clamp(Math.round(
-            agility * 0.45 + speed * 0.35 + passRush * 0.20
-        ), 0, 99),
-    };
+/** College stats tracked by position */
+const COLLEGE_STATS: Record<Position, CollegeStatDefinition[]> = {
+    QB: [
+        { key: 'completionPct', per: 'rate', worst: 55, best: 72, skills: { throwing: 0.5, awareness: 0.3, focus: 0.2 } },
+        { key: 'yardsPerAttempt', per: 'rate', worst: 6, best: 10, skills: { throwing: 0.6, strength: 0.2, awareness: 0.2 } },
+        { key: 'passingYards', per: 'game', worst: 150, best: 330, skills: { throwing: 0.6, awareness: 0.4 } },
+        { key: 'passingTouchdowns', per: 'game', worst: 0.9, best: 3.2, skills: { throwing: 0.5, awareness: 0.5 } },
+        { key: 'interceptions', per: 'game', worst: 1.3, best: 0.4, skills: { awareness: 0.7, focus: 0.3 } },
+    ],
+    WR: [
+        { key: 'receptions', per: 'game', worst: 2.5, best: 7.5, skills: { catching: 0.5, routeRunning: 0.3, release: 0.2 } },
+        { key: 'receivingYards', per: 'game', worst: 30, best: 115, skills: { speed: 0.4, routeRunning: 0.3, catching: 0.3 } },
+        { key: 'receivingTouchdowns', per: 'game', worst: 0.15, best: 1.1, skills: { catching: 0.4, speed: 0.3, release: 0.3 } },
+        { key: 'catchRate', per: 'rate', worst: 55, best: 75, skills: { catching: 0.7, focus: 0.3 } },
+    ],
+    CB: [
+        { key: 'interceptions', per: 'game', worst: 0.05, best: 0.5, skills: { awareness: 0.6, speed: 0.2, agility: 0.2 } },
+        { key: 'passBreakups', per: 'game', worst: 0.4, best: 1.5, skills: { awareness: 0.4, speed: 0.3, agility: 0.3 } },
+        { key: 'tackles', per: 'game', worst: 2.5, best: 6, skills: { tackling: 0.6, pursuit: 0.4 } },
+        { key: 'completionPctAllowed', per: 'rate', worst: 65, best: 45, skills: { awareness: 0.4, speed: 0.3, agility: 0.3 } },
+    ],
+    OL: [
+        { key: 'sacksAllowed', per: 'game', worst: 0.5, best: 0, skills: { passBlock: 0.6, awareness: 0.25, balance: 0.15 } },
+        { key: 'pressuresAllowed', per: 'game', worst: 2.2, best: 0.4, skills: { passBlock: 0.5, strength: 0.3, balance: 0.2 } },
+        { key: 'pancakeBlocks', per: 'game', worst: 0.8, best: 4, skills: { strength: 0.5, passBlock: 0.3, balance: 0.2 } },
+        { key: 'penalties', per: 'game', worst: 1, best: 0.15, skills: { awareness: 0.6, balance: 0.4 } },
+    ],
+    DL: [
+        { key: 'sacks', per: 'game', worst: 0.15, best: 1.2, skills: { passRush: 0.5, pursuit: 0.3, strength: 0.2 } },
+        { key: 'tacklesForLoss', per: 'game', worst: 0.4, best: 1.6, skills: { tackling: 0.4, pursuit: 0.3, strength: 0.3 } },
+        { key: 'qbHurries', per: 'game', worst: 0.8, best: 3.2, skills: { passRush: 0.6, pursuit: 0.4 } },
+        { key: 'forcedFumbles', per: 'game', worst: 0, best: 0.4, skills: { hitPower: 0.6, strength: 0.4 } },
+    ],
+};
+
+/** Rating range the profile formulas treat as worst-to-best */
+const PROFILE_RATING_FLOOR = { STAT: 40, CORE: 30 };
+
+/**
+ * Share of the way from the rating floor to 99, in [0, 1]
+ */
+function normalizeRating(value: number, floor: number): number {
+    return clamp((value - floor) / (99 - floor), 0, 1);
 }
 
 /**
- * Calculate OL (Offensive Line) abilities from core attributes.
+ * Generate combine results from core attributes: speed drives the 40 and
+ * vertical, agility the shuttle, strength the bench, intelligence the Wonderlic.
  */
-export function calculateOLAbilities(player: EconomyPlayer): OLAbilities {
-    const { strength, speed, agility, intelligence } = player.coreAttributes;
-    const passBlock = calculateEffectiveStat(player, 'passBlock');
-    const balance = calculateEffectiveStat(player, 'balance');
+export function generateCombineResults(player: EconomyPlayer): CombineResults {
+    const config = ECONOMY_CONSTANTS.PROSPECT_PROFILE;
+    const benchmarks = config.COMBINE[player.position];
+    const core = player.coreAttributes;
+    const rate = (value: number) => normalizeRating(value, PROFILE_RATING_FLOOR.CORE);
+
+    const measure = (event: keyof CombineResults, score: number, decimals: number): number => {
+        const [worst, best] = benchmarks[event];
+        const value = worst + (best - worst) * score + randomNormal(0, config.COMBINE_NOISE[event]);
+        const factor = Math.pow(10, decimals);
+        return Math.max(0, Math.round(value * factor) / factor);
+    };
 
     return {
-        // Anchor: Hold ground - Strength dominant (55%), Balance (25%), technique (20%)
-        anchor: clamp(Math.round(
-            strength * 0.55 + balance * 0.25 + passBlock * 0.20
-        ), 0, 99),
-
-        // Hand Fighting: Control rushers - Strength (40%) + Agility (35%) + technique (25%)
-        handFighting: clamp(Math.round(
-            strength * 0.40 + agility * 0.35 + passBlock * 0.25
-        ), 0, 99),
-
-        // Footwork: Mirror laterally - Agility (45%) + Intelligence (30%) + technique (25%)
-        footwork: clamp(Math.round(
-            agility * 0.45 + intelligence * 0.30 + passBlock * 0.25
-        ), 0, 99),
-
-        // Drive Block: Sustain and move - Strength (40%) + Intelligence (30%) + technique (30%)
-        driveBlock: clamp(Math.round(
-            strength * 0.40 + intelligence * 0.30 + passBlock * 0.30
-        ), 0, 99),
+        fortyYardDash: measure('fortyYardDash', 0.82 * rate(core.speed) + 0.18 * rate(core.agility), 2),
+        benchPress: measure('benchPress', rate(core.strength), 0),
+        shuttle: measure('shuttle', 0.7 * rate(core.agility) + 0.3 * rate(core.speed), 2),
+        verticalJump: measure('verticalJump', 0.56 * rate(core.speed) + 0.44 * rate(core.agility), 1),
+        wonderlic: clamp(measure('wonderlic', rate(core.intelligence), 0), 0, 50),
     };
 }
 
 /**
- * Calculate CB (Cornerback) abilities from core attributes.
+ * Generate college production: one season per year since the college start
+ * age (1-4), improving each year, with swings for supporting cast and noise
  */
-export function calculateCBAbilities(player: EconomyPlayer): CBAbilities {
-    const { strength, speed, agility, intelligence } = player.coreAttributes;
-    const awareness = calculateEffectiveStat(player, 'awareness');
-    const tackling = calculateEffectiveStat(player, 'tackling');
-
-    return {
-        // Press Coverage: Jam at line - Strength (45%) + Intelligence (35%) + technique (20%)
-        pressCoverage: clamp(Math.round(
-            strength * 0.45 + intelligence * 0.35 + awareness * 0.20
-        ), 0, 99),
-
-        // Man Coverage: Stick with receiver - Speed (40%) + Agility (40%) + awareness (20%)
-        manCoverage: clamp(Math.round(
-            speed * 0.40 + agility * 0.40 + awareness * 0.20
-        ), 0, 99),
-
-        // Zone Coverage: Read and react - Intelligence (45%) + Agility (35%) + awareness (20%)
-        zoneCoverage: clamp(Math.round(
-            intelligence * 0.45 + agility * 0.35 + awareness * 0.20
-        ), 0, 99),
+export function generateCollegeProduction(player: EconomyPlayer): CollegeSeason[] {
+    const config = ECONOMY_CONSTANTS.PROSPECT_PROFILE;
+    const seasons = clamp(player.age - config.COLLEGE_START_AGE, 1, 4);
+
+    return Array.from({ length: seasons }, (_, index) => {
+        const games = randomInt(config.COLLEGE_GAMES.MIN, config.COLLEGE_GAMES.MAX);
+        const development = 1 - (seasons - 1 - index) * config.COLLEGE_GROWTH;
+        const seasonSwing = randomNormal(0, config.SEASON_NOISE);
+        const stats: Record<string, number> = {};
+
+        COLLEGE_STATS[player.position].forEach(definition => {
+            const skill = (Object.keys(definition.skills) as (keyof PlayerStats)[]).reduce((sum, stat) =>
+                sum + normalizeRating(player.stats[stat] ?? PROFILE_RATING_FLOOR.STAT, PROFILE_RATING_FLOOR.STAT) *
+                    (definition.skills[stat] as number), 0);
+            const score = clamp(skill * development + seasonSwing + randomNormal(0, config.STAT_NOISE), 0, 1.1);
+            const value = Math.max(0, definition.worst + (definition.best - definition.worst) * score);
+
+            stats[definition.key] = definition.per === 'game'
+                ? Math.round(value * games)
+                : Math.round(value * 10) / 10;
+        });
 
-        // Ball Hawk: Intercept passes - Intelligence (40%) + Speed (35%) + awareness (25%)
-        ballHawk: clamp(Math.round(
-            intelligence * 0.40 + speed * 0.35 + awareness * 0.25
-        ), 0, 99),
-    };
+        return { season: index + 1, games, stats };
+    });
 }
 
 /**
- * Calculate WR (Wide Receiver) abilities from core attributes.
+ * Generate a prospect's full public profile
  */
-export function calculateWRAbilities(player: EconomyPlayer): WRAbilities {
-    const { strength, speed, agility, intelligence } = player.coreAttributes;
-    const catching = calculateEffectiveStat(player, 'catching');
-    const focus = calculateEffectiveStat(player, 'focus');
-    const routeRunning = calculateEffectiveStat(player, 'routeRunning');
-
+export function generateProspectProfile(player: EconomyPlayer): ProspectProfile {
     return {
-        // Release Move: Beat press - Agility (45%) + Strength (35%) + technique (20%)
-        releaseMove: clamp(Math.round(
-            agility * 0.45 + strength * 0.35 + routeRunning * 0.20
-        ), 0, 99),
-
-        // Route Sharpness: Create separation - Agility (40%) + Speed (35%) + technique (25%)
-        routeSharpness: clamp(Math.round(
-            agility * 0.40 + speed * 0.35 + routeRunning * 0.25
-        ), 0, 99),
-
-        // Contested Catch: Catch in traffic - Strength (30%) + Intelligence (25%) + catching (25%) + focus (20%)
-        contestedCatch: clamp(Math.round(
-            strength * 0.30 + intelligence * 0.25 + catching * 0.25 + focus * 0.20
-        ), 0, 99),
-
-        // YAC Ability: Yards after catch - Speed (40%) + Agility (40%) + balance (20%)
-        yacAbility: clamp(Math.round(
-            speed * 0.40 + agility * 0.40 + calculateEffectiveStat(player, 'balance') * 0.20
-        ), 0, 99),
+        combine: generateCombineResults(player),
+        college: generateCollegeProduction(player),
     };
 }
 
 /**
- * Calculate QB (Quarterback) abilities from core attributes.
+ * Read core attributes back out of combine results (what an evaluator can
+ * infer without a scouting report)
  */
-export function calculateQBAbilities(player: EconomyPlayer): QBAbilities {
-    const { strength, speed, agility, intelligence } = player.coreAttributes;
-    const throwing = calculateEffectiveStat(player, 'throwing') || 70;
-    const awareness = calculateEffectiveStat(player, 'awareness');
+export function inferCoreAttributes(position: Position, combine: CombineResults): CoreAttributes {
+    const benchmarks = ECONOMY_CONSTANTS.PROSPECT_PROFILE.COMBINE[position];
+    const score = (event: keyof CombineResults) => {
+        const [worst, best] = benchmarks[event];
+        return clamp((combine[event] - worst) / (best - worst), 0, 1);
+    };
+    const toRating = (value: number) => Math.round(PROFILE_RATING_FLOOR.CORE + (99 - PROFILE_RATING_FLOOR.CORE) * value);
 
     return {
-        // Arm Strength: Deep throws - Strength (45%) + throwing (35%) + Intelligence (20%)
-        armStrength: clamp(Math.round(
-            strength * 0.45 + throwing * 0.35 + intelligence * 0.20
-        ), 0, 99),
-
-        // Quick Release: Fast delivery - Agility (40%) + throwing (35%) + Intelligence (25%)
-        quickRelease: clamp(Math.round(
-            agility * 0.40 + throwing * 0.35 + intelligence * 0.25
-        ), 0, 99),
-
-        // Field Vision: Read defenses - Intelligence (55%) + awareness (30%) + throwing (15%)
-        fieldVision: clamp(Math.round(
-            intelligence * 0.55 + awareness * 0.30 + throwing * 0.15
-        ), 0, 99),
-
-        // Pocket Presence: Escape pressure - Agility (45%) + Speed (35%) + awareness (20%)
-        pocketPresence: clamp(Math.round(
-            agility * 0.45 + speed * 0.35 + awareness * 0.20
-        ), 0, 99),
+        strength: toRating(score('benchPress')),
+        speed: toRating(score('fortyYardDash') * 0.6 + score('verticalJump') * 0.4),
+        agility: toRating(score('shuttle')),
+        intelligence: toRating(score('wonderlic')),
     };
 }
 
 /**
- * Get all abilities for a player based on their position.
+ * Grade college production on the overall-rating scale (40-99). Later
+ * seasons count for more, and earlier ones are adjusted for growth.
  */
-export function getPlayerAbilities(player: EconomyPlayer): DLAbilities | OLAbilities | CBAbilities | WRAbilities | QBAbilities | null {
-    switch (player.position) {
-        case 'DL':
-            return calculateDLAbilities(player);
-        case 'OL':
-            return calculateOLAbilities(player);
-        case 'CB':
-            return calculateCBAbilities(player);
-        case 'WR':
-            return calculateWRAbilities(player);
-        case 'QB':
-            return calculateQBAbilities(player);
-        default:
-            return null;
-    }
-}
+export function calculateProductionGrade(position: Position, college: CollegeSeason[]): number {
+    const config = ECONOMY_CONSTANTS.PROSPECT_PROFILE;
+    const definitions = COLLEGE_STATS[position];
+    if (college.length === 0 || definitions.length === 0) return PROFILE_RATING_FLOOR.STAT;
+
+    let weightedScore = 0;
+    let totalWeight = 0;
+    college.forEach((season, index) => {
+        const development = 1 - (college.length - 1 - index) * config.COLLEGE_GROWTH;
+        const seasonScore = definitions.reduce((sum, definition) => {
+            const raw = season.stats[definition.key] ?? definition.worst;
+            const value = definition.per === 'game' ? raw / Math.max(1, season.games) : raw;
+            return sum + (value - definition.worst) / (definition.best - definition.worst);
+        }, 0) / definitions.length;
+
+        const weight = index + 1;
+        weightedScore += (seasonScore / development) * weight;
+        totalWeight += weight;
+    });
 
-/**
- * Get the best DL ability for a given situation.
- * Returns the ability name and value.
- */
-export function getBestDLAbility(player: EconomyPlayer): { ability: keyof DLAbilities; value: number } {
-    const abilities = calculateDLAbilities(player);
-    let best: keyof DLAbilities = 'bullRush';
-    let bestValue = abilities.bullRush;
+    const score = clamp(weightedScore / totalWeight, 0, 1);
+    return Math.round(PROFILE_RATING_FLOOR.STAT + (99 - PROFILE_RATING_FLOOR.STAT) * score);
+}
 
-    for (const [key, value] of Object.entries(abilities)) {
-        if (value > bestValue) {
-            best = key as keyof DLAbilities;
-            bestValue = value;
-        }
-    }
+// ============================================================================
+// PLAYER GENERATION
+// ============================================================================
 
-    return { ability: best, value: bestValue };
-}
+/** Primary stats by position - these get boosted for the position */
+const POSITION_PRIMARY_STATS: Record<Position, (keyof PlayerStats)[]> = {
+    WR: ['speed', 'catching', 'routeRunning', 'release', 'agility'],
+    CB: ['speed', 'tackling', 'awareness', 'agility', 'pursuit'],
+    OL: ['passBlock', 'strength', 'balance', 'awareness'],
+    DL: ['passRush', 'strength', 'tackling', 'hitPower', 'pursuit'],
+    QB: ['throwing', 'awareness', 'agility', 'strength'],
+};
 
 /**
- * Get the best OL ability for a given situation.
+ * Overall rating from stats: the average of the position's primary stats
  */
-export function getBestOLAbility(player: EconomyPlayer): { ability: keyof OLAbilities; value: number } {
-    const abilities = calculateOLAbilities(player);
-    let best: keyof OLAbilities = 'anchor';
-    let bestValue = abilities.anchor;
+export function calculateOverallRating(stats: PlayerStats, position: Position): number {
+    const primaryStats = POSITION_PRIMARY_STATS[position];
+    const total = primaryStats.reduce((sum, stat) => sum + (stats[stat] || 0), 0);
+    return Math.floor(total / primaryStats.length);
+}
 
-    for (const [key, value] of Object.entries(abilities)) {
-        if (value > bestValue) {
-            best = key as keyof OLAbilities;
-            bestValue = value;
-        }
-    }
+/** First names for player generation */
+const FIRST_NAMES = [
+    'Aldric', 'Baldwin', 'Cedric', 'Drake', 'Edmund', 'Finnian', 'Gareth',
+    'Hadrian', 'Ivan', 'Jasper', 'Kendrick', 'Lionel', 'Magnus', 'Nathaniel',
+    'Oswald', 'Percival', 'Quentin', 'Roland', 'Sebastian', 'Thaddeus',
+    'Ulric', 'Vincent', 'Wallace', 'Xavier', 'York', 'Zephyr',
+];
 
-    return { ability: best, value: bestValue };
-}
+/** Last names for player generation */
+const LAST_NAMES = [
+    'Blackwood', 'Ironforge', 'Stoneheart', 'Wolfsbane', 'Dragonfire',
+    'Thunderbolt', 'Nightshade', 'Bloodmoon', 'Frostborne', 'Stormwind',
+    'Shadowmere', 'Goldcrest', 'Silvervale', 'Bronzehelm', 'Steelgrave',
+    'Darkhollow', 'Brightwater', 'Redmane', 'Whitefang', 'Greymoor',
+];
 
 /**
- * Get the best CB ability for coverage situations.
+ * Select a random tier based on weighted distribution
  */
-export function getBestCBAbility(player: EconomyPlayer, situation: 'press' | 'man' | 'zone' | 'any' = 'any'): { ability: keyof CBAbilities; value: number } {
-    const abilities = calculateCBAbilities(player);
-
-    if (situation !== 'any') {
-        const abilityMap: Record<string, keyof CBAbilities> = {
-            press: 'pressCoverage',
-            man: 'manCoverage',
-            zone: 'zoneCoverage',
-        };
-        const key = abilityMap[situation];
-        return { ability: key, value: abilities[key] };
-    }
-
-    let best: keyof CBAbilities = 'manCoverage';
-    let bestValue = abilities.manCoverage;
+export function selectRandomTier(
+    weights: Partial<Record<PlayerTier, number>> = ECONOMY_CONSTANTS.TIER_WEIGHTS
+): PlayerTier {
+    const roll = random();
+    let cumulative = 0;
 
-    for (const [key, value] of Object.entries(abilities)) {
-        if (value > bestValue) {
-            best = key as keyof CBAbilities;
-            bestValue = value;
+    for (const [tier, weight] of Object.entries(weights)) {
+        cumulative += weight ?? 0;
+        if (roll < cumulative) {
+            return tier as PlayerTier;
         }
     }
 
-    return { ability: best, value: bestValue };
+    return 'average'; // fallback
 }
 
 /**
- * Get the best WR ability for a given route type.
+ * Generate random stats for a player based on tier
  */
-export function getBestWRAbility(player: EconomyPlayer, situation: 'release' | 'route' | 'contested' | 'yac' | 'any' = 'any'): { ability: keyof WRAbilities; value: number } {
-    const abilities = calculateWRAbilities(player);
+export function generateRandomStats(position: Position, tier: PlayerTier): PlayerStats {
+    const tierRange = ECONOMY_CONSTANTS.PLAYER_TIERS[tier];
+    const primaryStats = POSITION_PRIMARY_STATS[position];
 
-    if (situation !== 'any') {
-        const abilityMap: Record<string, keyof WRAbilities> = {
-            release: 'releaseMove',
-            route: 'routeSharpness',
-            contested: 'contestedCatch',
-            yac: 'yacAbility',
-        };
-        const key = abilityMap[situation];
-        return { ability: key, value: abilities[key] };
-    }
+    // Generate base stats with some variance
+    const generateStat = (isPrimary: boolean): number => {
+        const { min, max } = tierRange;
+        // Primary stats get a boost, secondary stats are slightly lower
+        const boost = isPrimary ? 5 : -5;
+        const base = randomInt(min, max);
+        return clamp(base + boost + randomInt(-3, 3), 40, 99);
+    };
 
-    let best: keyof WRAbilities = 'routeSharpness';
-    let bestValue = abilities.routeSharpness;
+    const stats: PlayerStats = {
+        speed: generateStat(primaryStats.includes('speed')),
+        acceleration: generateStat(primaryStats.includes('acceleration')),
+        agility: generateStat(primaryStats.includes('agility')),
+        catching: generateStat(primaryStats.includes('catching')),
+        routeRunning: generateStat(primaryStats.includes('routeRunning')),
+        release: generateStat(primaryStats.includes('release')),
+        focus: generateStat(primaryStats.includes('focus')),
+        tackling: generateStat(primaryStats.includes('tackling')),
+        hitPower: generateStat(primaryStats.includes('hitPower')),
+        pursuit: generateStat(primaryStats.includes('pursuit')),
+        awareness: generateStat(primaryStats.includes('awareness')),
+        passBlock: generateStat(primaryStats.includes('passBlock')),
+        passRush: generateStat(primaryStats.includes('passRush')),
+        strength: generateStat(primaryStats.includes('strength')),
+        balance: generateStat(primaryStats.includes('balance')),
+        aggression: generateStat(primaryStats.includes('aggression')),
+        stamina: generateStat(primaryStats.includes('stamina')),
+    };
 
-    for (const [key, value] of Object.entries(abilities)) {
-        if (value > bestValue) {
-            best = key as keyof WRAbilities;
-            bestValue = value;
-        }
+    // Add throwing for QB
+    if (position === 'QB') {
+        stats.throwing = generateStat(true);
     }
 
-    return { ability: best, value: bestValue };
-}
-
-// ============================================================================
-// HYPE SYSTEM
-// ============================================================================
-
-/**
- * Initialize hype data for a new player.
- * - baseHypeMultiplier: Normal distribution (mean 1.0, std 0.2)
- * - yearsBeforePrimeCliff: Secret integer 0-5
- */
-export function initializeHypeData(): HypeData {
-    return {
-        baseHypeMultiplier: Math.max(
-            ECONOMY_CONSTANTS.HYPE.FLOOR,
-            randomNormal(ECONOMY_CONSTANTS.HYPE.MEAN, ECONOMY_CONSTANTS.HYPE.STD_DEV)
-        ),
-        yearsBeforePrimeCliff: randomInt(0, 5),
-        accumulatedFameBank: 0,
-        seasonFameEarnings: 0,
-    };
+    return stats;
 }
 
 /**
- * Calculate the "cliff age" where decline begins.
- * CliffAge = PhysicalPeakAge - yearsBeforePrimeCliff
+ * Generate age based on tier (veterans are older, rookies younger)
  */
-export function calculateCliffAge(player: EconomyPlayer): number {
-    return player.peakAge - player.hypeData.yearsBeforePrimeCliff;
+export function generateAge(tier: PlayerTier): number {
+    switch (tier) {
+        case 'elite':
+            return randomInt(26, 32);
+        case 'veteran':
+            return randomInt(28, 34);
+        case 'average':
+            return randomInt(24, 30);
+        case 'below_average':
+            return randomInt(23, 32);
+        case 'rookie':
+            return randomInt(21, 24);
+        case 'backup':
+            return randomInt(22, 35);
+        default:
+            return randomInt(22, 30);
+    }
 }
 
 /**
- * Calculate the current hype multiplier for a player.
- *
- * Logic:
- * - If Age < CliffAge: return baseHypeMultiplier
- * - If Age >= CliffAge: decline sharply each year
- * - Floor: never below 0.1
+ * Generate potential grade based on age and tier
  */
-export function calculateCurrentMultiplier(player: EconomyPlayer): number {
-    const cliffAge = calculateCliffAge(player);
-    const { baseHypeMultiplier } = player.hypeData;
+export function generatePotential(age: number, tier: PlayerTier): number {
+    // Young players have higher potential, veterans have realized potential
+    let basePotential: number;
 
-    // Before cliff: full multiplier
-    if (player.age < cliffAge) {
-        return baseHypeMultiplier;
+    if (age <= 24) {
+        basePotential = randomInt(1, 3);
+    } else if (age <= 27) {
+        basePotential = randomInt(0, 2);
+    } else {
+        basePotential = randomInt(0, 1);
     }
 
-    // After cliff: decline each year
-    const yearsAfterCliff = player.age - cliffAge;
-    const declineRate = ECONOMY_CONSTANTS.HYPE.DECLINE_RATE_PER_YEAR;
+    // Elite players might have already hit potential
+    if (tier === 'elite' && age > 26) {
+        basePotential = Math.max(0, basePotential - 1);
+    }
 
-    // Compound decline: multiplier * (1 - rate)^years
-    const declinedMultiplier = baseHypeMultiplier * Math.pow(1 - declineRate, yearsAfterCliff);
+    // Rookies get bonus potential
+    if (tier === 'rookie') {
+        basePotential = Math.min(3, basePotential + 1);
+    }
 
-    // Apply floor
-    return Math.max(ECONOMY_CONSTANTS.HYPE.FLOOR, declinedMultiplier);
+    return basePotential;
 }
 
 /**
- * Check if a player has hit their cliff age
+ * Generate core attributes for a player based on tier and position
+ * Core attributes are foundational traits that rarely change over time.
  */
-export function hasHitCliff(player: EconomyPlayer): boolean {
-    return player.age >= calculateCliffAge(player);
-}
+export function generateCoreAttributes(position: Position, tier: PlayerTier): CoreAttributes {
+    const tierRange = ECONOMY_CONSTANTS.CORE_ATTRIBUTES.TIER_RANGES[tier];
 
-/**
- * Get years until cliff (or years past cliff if negative)
- */
-export function getYearsToCliff(player: EconomyPlayer): number {
-    return calculateCliffAge(player) - player.age;
-}
+    // Generate base attribute with variance
+    const generateAttribute = (): number => {
+        const { min, max } = tierRange;
+        const base = randomInt(min, max);
+        // Add slight variance
+        return clamp(base + randomInt(-3, 3), 30, 99);
+    };
 
-// ============================================================================
-// PERFORMANCE TO FAME CONVERSION
-// ============================================================================
+    // Generate all four core attributes
+    let strength = generateAttribute();
+    let speed = generateAttribute();
+    let agility = generateAttribute();
+    let intelligence = generateAttribute();
 
-/**
- * Convert raw performance points to earned fame.
- * EarnedFame = RawPerformancePoints * CurrentMultiplier
- */
-export function calculateEarnedFame(
-    rawPerformancePoints: number,
-    player: EconomyPlayer
-): number {
-    const multiplier = calculateCurrentMultiplier(player);
-    const earnedFame = Math.floor(rawPerformancePoints * multiplier);
-    return earnedFame;
+    // Position-based tendencies (slight boosts)
+    switch (position) {
+        case 'OL':
+        case 'DL':
+            // Linemen tend to be stronger
+            strength = clamp(strength + randomInt(3, 8), 30, 99);
+            speed = clamp(speed - randomInt(3, 8), 30, 99);
+            break;
+        case 'WR':
+        case 'CB':
+            // Skill positions tend to be faster and more agile
+            speed = clamp(speed + randomInt(3, 8), 30, 99);
+            agility = clamp(agility + randomInt(2, 5), 30, 99);
+            break;
+        case 'QB':
+            // QBs tend to be smarter
+            intelligence = clamp(intelligence + randomInt(3, 8), 30, 99);
+            break;
+    }
+
+    return { strength, speed, agility, intelligence };
 }
 
 /**
- * Process a performance event and add fame to player's bank
+ * Generate a complete player with randomized attributes
  */
-export function processPerformanceEvent(
-    player: EconomyPlayer,
-    event: PerformanceEvent
-): number {
-    const earnedFame = calculateEarnedFame(event.rawPoints, player);
+export function generatePlayer(
+    position: Position,
+    tier: PlayerTier = 'average'
+): EconomyPlayer {
+    const firstName = FIRST_NAMES[randomInt(0, FIRST_NAMES.length - 1)];
+    const lastName = LAST_NAMES[randomInt(0, LAST_NAMES.length - 1)];
+    const age = generateAge(tier);
+    const peakAge = randomInt(28, 32);
+    const potentialGrade = generatePotential(age, tier);
+    const stats = generateRandomStats(position, tier);
+    const coreAttributes = generateCoreAttributes(position, tier);
+    const overall = calculateOverallRating(stats, position);
 
-    // Add to accumulated bank
-    player.hypeData.accumulatedFameBank += earnedFame;
-    player.hypeData.seasonFameEarnings += earnedFame;
+    const player: EconomyPlayer = {
+        id: generateId(),
+        firstName,
+        lastName,
+        age,
+        position,
+        stats,
+        overall,
+        peakAge,
+        potentialGrade,
+        yearsInLeague: Math.max(0, age - 21),
+        salaryCost: 0,
+        hypeData: initializeHypeData(),
+        coreAttributes,
+    };
 
-    return earnedFame;
+    // Calculate salary based on overall and tier
+    player.salaryCost = calculatePlayerCostFromStats(player);
+
+    return player;
 }
 
 /**
- * Calculate raw performance points from game stats
+ * Calculate player cost from their stats (used during generation)
  */
-export function calculateRawPerformancePoints(stats: {
-    catches?: number;
-    touchdowns?: number;
-    tackles?: number;
-    sacks?: number;
-    interceptions?: number;
-    passesDefended?: number;
-    yardsGained?: number;
-}): number {
-    const pp = ECONOMY_CONSTANTS.PERFORMANCE_POINTS;
+function calculatePlayerCostFromStats(player: EconomyPlayer): number {
+    const pc = ECONOMY_CONSTANTS.PLAYER_PRICING;
+    let baseCost = player.overall * pc.BASE_COST_PER_OVERALL;
 
-    return (
-        (stats.catches || 0) * pp.CATCH +
-        (stats.touchdowns || 0) * pp.TOUCHDOWN +
-        (stats.tackles || 0) * pp.TACKLE +
-        (stats.sacks || 0) * pp.SACK +
-        (stats.interceptions || 0) * pp.INTERCEPTION +
-        (stats.passesDefended || 0) * pp.PASS_DEFENDED +
-        (stats.yardsGained || 0) * pp.YARDS_GAINED
-    );
+    // Age adjustments
+    if (player.age >= pc.AGE_PENALTY_START) {
+        const yearsOver = player.age - pc.AGE_PENALTY_START;
+        baseCost *= (1 - yearsOver * pc.AGE_PENALTY_PER_YEAR);
+    } else if (player.age <= pc.YOUNG_PREMIUM_END) {
+        baseCost *= (1 + pc.YOUNG_PREMIUM_BONUS);
+    }
+
+    // Factor in potential
+    baseCost *= (1 + player.potentialGrade * 0.1);
+
+    return Math.max(50, Math.floor(baseCost));
 }
 
-// ============================================================================
-// HARVEST (TRADE) SYSTEM
-// ============================================================================
+/** Team strength level for roster generation */
+export type TeamStrength = 'elite' | 'good' | 'average' | 'weak';
 
 /**
- * Calculate the harvest (trade) value for a player.
- * Returns the full AccumulatedFameBank - no modifiers or deductions.
+ * Generate a full roster based on team strength level
+ * - elite teams: mostly veteran/elite players (90s team overall)
+ * - good teams: mix of veteran/average (80s team overall)
+ * - average teams: mostly average players (70s team overall)
+ * - weak teams: below_average/backup players (60s team overall)
  */
-export function calculateHarvestValue(player: EconomyPlayer): number {
-    return player.hypeData.accumulatedFameBank;
+export function generateRoster(teamStrength: TeamStrength = 'average'): EconomyPlayer[] {
+    const roster: EconomyPlayer[] = [];
+
+    // Positions to fill
+    const positions: Position[] = [
+        'QB',
+        'WR', 'WR', 'WR',
+        'CB', 'CB', 'CB', 'CB',
+        'OL', 'OL', 'OL', 'OL', 'OL',
+        'DL', 'DL', 'DL', 'DL'
+    ];
+
+    // Determine tier distribution based on team strength
+    const getTierForTeam = (): PlayerTier => {
+        const roll = random();
+
+        switch (teamStrength) {
+            case 'elite':
+                // 90s team: mostly elite/veteran
+                if (roll < 0.4) return 'elite';
+                if (roll < 0.8) return 'veteran';
+                return 'average';
+
+            case 'good':
+                // 80s team: mix of veteran/average with some elite
+                if (roll < 0.15) return 'elite';
+                if (roll < 0.5) return 'veteran';
+                if (roll < 0.85) return 'average';
+                return 'below_average';
+
+            case 'average':
+                // 70s team: mostly average with some variety
+                if (roll < 0.05) return 'veteran';
+                if (roll < 0.7) return 'average';
+                if (roll < 0.9) return 'below_average';
+                return 'rookie';
+
+            case 'weak':
+                // 60s team: below_average/backup
+                if (roll < 0.1) return 'average';
+                if (roll < 0.5) return 'below_average';
+                if (roll < 0.8) return 'rookie';
+                return 'backup';
+
+            default:
+                return 'average';
+        }
+    };
+
+    positions.forEach(position => {
+        roster.push(generatePlayer(position, getTierForTeam()));
+    });
+
+    return roster;
 }
 
 /**
- * Harvest a player - trade them for fame payout.
- * Returns the full AccumulatedFameBank and removes player from team.
+ * Generate a league of teams with realistic strength distribution
+ * Target: 2-3 elite teams (90s), most in 70s-80s, 2-3 weak teams (60s)
  */
-export function harvestPlayer(
-    team: Team,
-    playerId: string
-): HarvestResult | null {
-    const playerIndex = team.roster.findIndex(p => p.id === playerId);
-    if (playerIndex === -1) {
-        return null;
-    }
+export function generateLeague(numTeams: number = 12): Team[] {
+    const teams: Team[] = [];
 
-    const player = team.roster[playerIndex];
-    const famePayout = player.hypeData.accumulatedFameBank;
+    // Determine distribution: 2-3 elite, 2-3 weak, rest are average/good
+    const numElite = randomInt(2, 3);
+    const numWeak = randomInt(2, 3);
+    const numGood = Math.floor((numTeams - numElite - numWeak) / 2);
+    const numAverage = numTeams - numElite - numWeak - numGood;
 
-    // Remove player from roster
-    team.roster.splice(playerIndex, 1);
+    // Create strength assignments and shuffle
+    const strengths: TeamStrength[] = [
+        ...Array(numElite).fill('elite'),
+        ...Array(numGood).fill('good'),
+        ...Array(numAverage).fill('average'),
+        ...Array(numWeak).fill('weak'),
+    ];
 
-    // Add fame to team budget
-    team.fameBudget += famePayout;
+    // Shuffle to randomize which teams get which strength
+    const shuffledStrengths = shuffle(strengths);
 
-    return {
-        success: true,
-        famePayout,
-        player,
-    };
+    // Team name components
+    const cities = [
+        'Ironhold', 'Stormgate', 'Shadowmere', 'Goldcrest', 'Darkhollow',
+        'Frostpeak', 'Thundervale', 'Crimsonfort', 'Silverlake', 'Blackmoor',
+        'Dragonspire', 'Wolfhaven', 'Ravencliff', 'Stonekeep', 'Fireforge',
+        'Northwatch', 'Eastmarch', 'Westfall', 'Southshore', 'Highgarden',
+    ];
+
+    const mascots = [
+        'Knights', 'Dragons', 'Wolves', 'Ravens', 'Titans',
+        'Warriors', 'Crusaders', 'Gladiators', 'Sentinels', 'Guardians',
+        'Berserkers', 'Paladins', 'Warlords', 'Champions', 'Legends',
+    ];
+
+    // Shuffle cities for unique names
+    const shuffledCities = shuffle(cities);
+
+    for (let i = 0; i < numTeams; i++) {
+        const city = shuffledCities[i % shuffledCities.length];
+        const mascot = mascots[randomInt(0, mascots.length - 1)];
+        const teamStrength = shuffledStrengths[i];
+
+        const team: Team = {
+            id: generateId(),
+            name: `${city} ${mascot}`,
+            fameBudget: ECONOMY_CONSTANTS.STARTING_FAME,
+            coachVP: 0,
+            roster: generateRoster(teamStrength),
+            record: { wins: 0, losses: 0 },
+        };
+
+        teams.push(team);
+    }
+
+    return teams;
+}
+
+/**
+ * Calculate a team's overall rating from its current starters
+ */
+export function calculateTeamOverall(team: Team): number {
+    const lineup = buildGameLineup(team);
+    const starters = [
+        ...(lineup.quarterback ? [lineup.quarterback] : []),
+        ...lineup.receivers,
+        ...lineup.offensiveLine,
+        ...lineup.defensiveLine,
+        ...lineup.cornerbacks,
+    ];
+    if (starters.length === 0) return 0;
+    const total = starters.reduce((sum, player) => sum + player.overall, 0);
+    return Math.floor(total / starters.length);
 }
 
 // ============================================================================
-// PLAYER PRICING
+// CORE ATTRIBUTES SYSTEM
 // ============================================================================
 
 /**
- * Calculate the cost to buy a player based on stats and hype multiplier.
+ * Result of a core attribute growth attempt
  */
-export function calculatePlayerCost(player: EconomyPlayer): number {
-    const pc = ECONOMY_CONSTANTS.PLAYER_PRICING;
+export interface CoreAttributeGrowthResult {
+    attribute: keyof CoreAttributes;
+    oldValue: number;
+    newValue: number;
+    isBreakthrough: boolean;
+}
 
-    // Base cost from overall rating
-    let baseCost = player.overall * pc.BASE_COST_PER_OVERALL;
+/**
+ * Process potential core attribute growth for a player during offseason.
+ * Core attributes grow very rarely - even high potential players only have ~5-8% chance.
+ * Returns null if no growth occurred, or details of the growth.
+ */
+export function processCoreAttributeGrowth(
+    player: EconomyPlayer
+): CoreAttributeGrowthResult | null {
+    const config = ECONOMY_CONSTANTS.CORE_ATTRIBUTES;
 
-    // Apply hype multiplier weight
-    const currentMultiplier = calculateCurrentMultiplier(player);
-    const hypeAdjustment = 1 + (currentMultiplier - 1) * pc.HYPE_MULTIPLIER_WEIGHT;
-    baseCost *= hypeAdjustment;
+    // No growth after cutoff age
+    if (player.age >= config.GROWTH_CUTOFF_AGE) {
+        return null;
+    }
 
-    // Age adjustments
-    if (player.age >= pc.AGE_PENALTY_START) {
-        const yearsOver = player.age - pc.AGE_PENALTY_START;
-        baseCost *= (1 - yearsOver * pc.AGE_PENALTY_PER_YEAR);
-    } else if (player.age <= pc.YOUNG_PREMIUM_END) {
-        baseCost *= (1 + pc.YOUNG_PREMIUM_BONUS);
+    // Calculate growth chance based on potential
+    let growthChance = config.GROWTH_CHANCE_BASE +
+        (player.potentialGrade * config.GROWTH_CHANCE_PER_POTENTIAL);
+
+    // Young players get slight bonus
+    if (player.age <= 23) {
+        growthChance += 0.01;
     }
 
-    // Factor in potential
-    baseCost *= (1 + player.potentialGrade * 0.1);
+    // Cap the chance
+    growthChance = Math.min(growthChance, config.GROWTH_CHANCE_CAP);
 
-    return Math.max(50, Math.floor(baseCost));
+    // Roll for growth
+    if (random() > growthChance) {
+        return null;
+    }
+
+    // Growth occurred! Pick a random attribute
+    const attributes: (keyof CoreAttributes)[] = ['strength', 'speed', 'agility', 'intelligence'];
+    const attribute = attributes[randomInt(0, attributes.length - 1)];
+    const oldValue = player.coreAttributes[attribute];
+
+    // Check for breakthrough (exceptional growth)
+    const isBreakthrough = random() < config.BREAKTHROUGH_CHANCE;
+    const growthAmount = isBreakthrough
+        ? randomInt(config.BREAKTHROUGH_AMOUNT.min, config.BREAKTHROUGH_AMOUNT.max)
+        : randomInt(config.GROWTH_AMOUNT.min, config.GROWTH_AMOUNT.max);
+
+    // Apply growth
+    const newValue = clamp(oldValue + growthAmount, 30, 99);
+    player.coreAttributes[attribute] = newValue;
+
+    return {
+        attribute,
+        oldValue,
+        newValue,
+        isBreakthrough,
+    };
 }
 
-// ============================================================================
-// ECONOMY MANAGER CLASS
-// ============================================================================
+/**
+ * Calculate effective stat value considering core attribute influence.
+ * Formula: effectiveStat = baseStat * (1 - influence) + coreAttr * influence
+ *
+ * This blends the trained skill with the underlying physical/mental attribute.
+ * An unhealed injury takes its stat penalty off the result, and in-game
+ * fatigue scales it down.
+ */
+export function calculateEffectiveStat(
+    player: EconomyPlayer,
+    stat: keyof PlayerStats
+): number {
+    const baseStat = player.stats[stat];
+    if (baseStat === undefined) return 0;
+    const injuryPenalty = player.injury?.statPenalties[stat] ?? 0;
+    const fatigueFactor = calculateFatigueFactor(player);
+
+    const influences = ECONOMY_CONSTANTS.CORE_ATTRIBUTE_SKILL_INFLUENCE;
+    let totalInfluence = 0;
+    let weightedCoreContribution = 0;
+
+    // Check each core attribute for influence on this stat
+    for (const [coreAttr, skillInfluences] of Object.entries(influences)) {
+        const influence = (skillInfluences as Record<string, number>)[stat];
+        if (influence) {
+            totalInfluence += influence;
+            const coreValue = player.coreAttributes[coreAttr as keyof CoreAttributes];
+            weightedCoreContribution += coreValue * influence;
+        }
+    }
+
+    // If no core attributes influence this stat, return base stat
+    if (totalInfluence === 0) {
+        return clamp(Math.round((baseStat - injuryPenalty) * fatigueFactor), 0, 99);
+    }
+
+    // Blend base stat with core attribute contribution
+    // Example: if speed has 0.4 influence from core speed,
+    // effectiveSpeed = baseStat * 0.6 + coreSpeed * 0.4
+    const effectiveStat = (baseStat * (1 - totalInfluence) + weightedCoreContribution - injuryPenalty) * fatigueFactor;
+
+    return clamp(Math.round(effectiveStat), 0, 99);
+}
 
 /**
- * Main economy manager class.
- * Tracks team fame budget, handles transactions, and manages coach VP.
+ * Get all effective stats for a player, accounting for core attribute influence.
  */
-export class FootballEconomyEngine {
-    private teams: Map<string, Team> = new Map();
-    private seasonStandings: SeasonStandings | null = null;
+export function getEffectiveStats(player: EconomyPlayer): PlayerStats {
+    const effectiveStats: PlayerStats = {
+        speed: calculateEffectiveStat(player, 'speed'),
+        acceleration: calculateEffectiveStat(player, 'acceleration'),
+        agility: calculateEffectiveStat(player, 'agility'),
+        catching: calculateEffectiveStat(player, 'catching'),
+        routeRunning: calculateEffectiveStat(player, 'routeRunning'),
+        release: calculateEffectiveStat(player, 'release'),
+        focus: calculateEffectiveStat(player, 'focus'),
+        tackling: calculateEffectiveStat(player, 'tackling'),
+        hitPower: calculateEffectiveStat(player, 'hitPower'),
+        pursuit: calculateEffectiveStat(player, 'pursuit'),
+        awareness: calculateEffectiveStat(player, 'awareness'),
+        passBlock: calculateEffectiveStat(player, 'passBlock'),
+        passRush: calculateEffectiveStat(player, 'passRush'),
+        strength: calculateEffectiveStat(player, 'strength'),
+        balance: calculateEffectiveStat(player, 'balance'),
+        aggression: calculateEffectiveStat(player, 'aggression'),
+        stamina: calculateEffectiveStat(player, 'stamina'),
+    };
+
+    // Add throwing for QB
+    if (player.position === 'QB' && player.stats.throwing !== undefined) {
+        effectiveStats.throwing = calculateEffectiveStat(player, 'throwing');
+    }
+
+    return effectiveStats;
+}
+
+/**
+ * Calculate a weighted roll for clash mechanics using effective stats.
+ * This connects core attributes to on-field performance.
+ */
+export function calculateWeightedRoll(
+    player: EconomyPlayer,
+    statWeights: Partial<Record<keyof PlayerStats, number>>,
+    variance: number = 0.2
+): number {
+    let weightedTotal = 0;
+
+    for (const [stat, weight] of Object.entries(statWeights)) {
+        const effectiveStat = calculateEffectiveStat(player, stat as keyof PlayerStats);
+        weightedTotal += effectiveStat * weight;
+    }
+
+    // Apply random variance (±variance%)
+    const randomFactor = 1 + (random() - 0.5) * 2 * variance;
+    return weightedTotal * randomFactor;
+}
+
+/**
+ * How far a player's aggression sits above (or below) the baseline
+ */
+function calculateAggressionEdge(player: EconomyPlayer): number {
+    return calculateEffectiveStat(player, 'aggression') - ECONOMY_CONSTANTS.AGGRESSION.BASELINE;
+}
+
+/**
+ * An aggression-driven chance: the base chance moved by the player's edge
+ */
+function calculateAggressionChance(player: EconomyPlayer, base: number, weight: number): number {
+    const range = ECONOMY_CONSTANTS.AGGRESSION.CHANCE_RANGE;
+    return clamp(base + calculateAggressionEdge(player) * weight, range.MIN, range.MAX);
+}
+
+/**
+ * Result of a separation clash
+ */
+export interface SeparationClashResult {
+    /** Positive if the receiver wins, negative if the defender wins */
+    margin: number;
+    /** The corner was flagged for illegal contact in the press */
+    pressFoul: boolean;
+}
+
+/**
+ * Separation clash - WR trying to get open vs CB coverage
+ * Uses ability matchups: WR abilities vs CB coverage style
+ * Returns positive if receiver wins, negative if defender wins
+ */
+export function calculateSeparationClash(
+    receiver: EconomyPlayer,
+    defender: EconomyPlayer,
+    phase: 'release' | 'route' | 'any' = 'any'
+): number {
+    return calculateSeparationClashDetailed(receiver, defender, phase).margin;
+}
+
+/**
+ * Detailed separation clash. An aggressive corner jams harder at the line
+ * but risks an illegal-contact flag every time they press.
+ */
+export function calculateSeparationClashDetailed(
+    receiver: EconomyPlayer,
+    defender: EconomyPlayer,
+    phase: 'release' | 'route' | 'any' = 'any',
+    officials: OfficialsTendencies = ECONOMY_CONSTANTS.PENALTIES.DEFAULT_OFFICIALS
+): SeparationClashResult {
+    const aggressionConfig = ECONOMY_CONSTANTS.AGGRESSION;
+    const wrAbilities = calculateWRAbilities(receiver);
+    const cbAbilities = calculateCBAbilities(defender);
+
+    let receiverValue: number;
+    let defenderValue: number;
+
+    if (phase === 'release') {
+        // At the line: WR release vs CB press
+        receiverValue = wrAbilities.releaseMove;
+        defenderValue = cbAbilities.pressCoverage + calculateAggressionEdge(defender) * aggressionConfig.PRESS_BONUS;
+    } else if (phase === 'route') {
+        // During route: WR route sharpness vs CB man/zone (use best)
+        receiverValue = wrAbilities.routeSharpness;
+        defenderValue = Math.max(cbAbilities.manCoverage, cbAbilities.zoneCoverage);
+    } else {
+        // General: Use best abilities for each
+        const wrBest = getBestWRAbility(receiver, 'any');
+        const cbBest = getBestCBAbility(defender, 'any');
+        receiverValue = wrBest.value;
+        defenderValue = cbBest.value;
+    }
+
+    // Add variance (±15%)
+    const variance = 0.15;
+    const receiverRoll = receiverValue * (1 + (random() - 0.5) * 2 * variance);
+    const defenderRoll = defenderValue * (1 + (random() - 0.5) * 2 * variance);
+
+    return {
+        margin: receiverRoll - defenderRoll,
+        pressFoul: phase === 'release' && rollPenalty(defender, 'illegal_contact', officials),
+    };
+}
+
+/**
+ * Result of a line clash with ability details
+ */
+export interface LineClashResult {
+    margin: number;
+    dlAbilityUsed: keyof DLAbilities;
+    olAbilityUsed: keyof OLAbilities;
+    dlAbilityValue: number;
+    olAbilityValue: number;
+    /** The rusher won but over-pursued, letting the QB escape */
+    overPursued: boolean;
+    /** Players hurt in the clash (usually none) */
+    injuredPlayerIds: string[];
+}
+
+/**
+ * Result of a tackle clash
+ */
+export interface TackleClashResult {
+    tackled: boolean;
+    /** Tackler roll minus evasion roll */
+    margin: number;
+    /** The tackle was a big hit: the carrier goes straight down */
+    bigHit: boolean;
+    /** The tackler knocked the ball loose */
+    forcedFumble: boolean;
+    /** Players hurt in the collision (usually none) */
+    injuredPlayerIds: string[];
+}
+
+/**
+ * Ability matchup matrix - determines effectiveness of DL move vs OL technique
+ * Values > 1.0 favor DL, < 1.0 favor OL
+ */
+const ABILITY_MATCHUP_MATRIX: Record<keyof DLAbilities, Record<keyof OLAbilities, number>> = {
+    bullRush: {
+        anchor: 0.85,       // Anchor is strong vs bull rush
+        handFighting: 1.0,  // Neutral
+        footwork: 1.15,     // Footwork weak vs power
+        driveBlock: 0.95,   // Drive block decent vs bull rush
+    },
+    blockShed: {
+        anchor: 1.10,       // Block shed beats pure anchor
+        handFighting: 0.90, // Hand fighting counters block shed
+        footwork: 1.05,     // Slight advantage
+        driveBlock: 0.95,   // Drive block decent
+    },
+    spinMove: {
+        anchor: 1.20,       // Spin beats stationary anchor
+        handFighting: 1.05, // Slight advantage
+        footwork: 0.85,     // Footwork counters spin
+        driveBlock: 1.10,   // Spin beats forward momentum
+    },
+    swimMove: {
+        anchor: 1.15,       // Swim beats anchor
+        handFighting: 0.85, // Hand fighting counters swim
+        footwork: 0.95,     // Slight disadvantage
+        driveBlock: 1.05,   // Slight advantage
+    },
+};
+
+/**
+ * Line clash - OL blocking vs DL rushing using ability matchups
+ * Each player uses their best ability, but matchups matter
+ * Returns positive if OL wins (protection), negative if DL wins (pressure)
+ */
+export function calculateLineClash(
+    offensiveLineman: EconomyPlayer,
+    defensiveLineman: EconomyPlayer
+): number {
+    const result = calculateLineClashDetailed(offensiveLineman, defensiveLineman);
+    return result.margin;
+}
+
+/**
+ * Detailed line clash with ability information.
+ * An aggressive rusher gets more burst off the snap but is more likely to
+ * over-pursue when they win.
+ */
+export function calculateLineClashDetailed(
+    offensiveLineman: EconomyPlayer,
+    defensiveLineman: EconomyPlayer
+): LineClashResult {
+    const dlAbilities = calculateDLAbilities(defensiveLineman);
+    const olAbilities = calculateOLAbilities(offensiveLineman);
+
+    // DL picks their best move
+    const dlBest = getBestDLAbility(defensiveLineman);
+
+    // OL picks their best counter for that move
+    // Or their overall best if no specific counter
+    let olBest = getBestOLAbility(offensiveLineman);
+
+    // Check if there's a better counter available
+    const matchups = ABILITY_MATCHUP_MATRIX[dlBest.ability];
+    let bestCounterValue = -Infinity;
+    let bestCounter: keyof OLAbilities = olBest.ability;
+
+    for (const [olAbility, matchupMod] of Object.entries(matchups)) {
+        const olAbilityKey = olAbility as keyof OLAbilities;
+        // Effective value = ability value / matchup modifier (lower modifier = better for OL)
+        const effectiveValue = olAbilities[olAbilityKey] / matchupMod;
+        if (effectiveValue > bestCounterValue) {
+            bestCounterValue = effectiveValue;
+            bestCounter = olAbilityKey;
+        }
+    }
+
+    // Use the best counter if it's reasonably close to their best overall ability
+    if (olAbilities[bestCounter] >= olBest.value * 0.85) {
+        olBest = { ability: bestCounter, value: olAbilities[bestCounter] };
+    }
+
+    // Calculate the clash with matchup modifier
+    const aggressionConfig = ECONOMY_CONSTANTS.AGGRESSION;
+    const matchupModifier = ABILITY_MATCHUP_MATRIX[dlBest.ability][olBest.ability];
+    const burst = calculateAggressionEdge(defensiveLineman) * aggressionConfig.RUSH_BURST;
+    const dlEffective = (dlBest.value + burst) * matchupModifier;
+    const olEffective = olBest.value;
+
+    // Add variance (±15%)
+    const variance = 0.15;
+    const dlRoll = dlEffective * (1 + (random() - 0.5) * 2 * variance);
+    const olRoll = olEffective * (1 + (random() - 0.5) * 2 * variance);
+    const margin = olRoll - dlRoll;
+
+    return {
+        margin,
+        dlAbilityUsed: dlBest.ability,
+        olAbilityUsed: olBest.ability,
+        dlAbilityValue: dlBest.value,
+        olAbilityValue: olBest.value,
+        overPursued: margin < 0 && random() < calculateAggressionChance(
+            defensiveLineman, aggressionConfig.OVER_PURSUIT_CHANCE, aggressionConfig.OVER_PURSUIT_WEIGHT),
+        injuredPlayerIds: [offensiveLineman, defensiveLineman]
+            .filter((player, index, pair) => rollClashInjury(player, pair[1 - index], 'line'))
+            .map(player => player.id),
+    };
+}
+
+/**
+ * Tackle clash - defender trying to tackle ball carrier
+ * Ball carrier uses YAC ability if WR, otherwise standard evasion
+ * Returns true if tackle succeeds
+ */
+export function calculateTackleClash(
+    tackler: EconomyPlayer,
+    ballCarrier: EconomyPlayer
+): boolean {
+    return calculateTackleClashDetailed(tackler, ballCarrier).tackled;
+}
+
+/**
+ * Detailed tackle clash with the margin and any injuries from the collision.
+ * An aggressive tackler lands more big hits and forces more fumbles.
+ */
+export function calculateTackleClashDetailed(
+    tackler: EconomyPlayer,
+    ballCarrier: EconomyPlayer
+): TackleClashResult {
+    const tacklerRoll = calculateWeightedRoll(tackler, {
+        tackling: 0.40,
+        pursuit: 0.30,
+        hitPower: 0.30,
+    });
+
+    let evasionRoll: number;
+
+    // WRs use their YAC ability for evasion
+    if (ballCarrier.position === 'WR') {
+        const wrAbilities = calculateWRAbilities(ballCarrier);
+        evasionRoll = wrAbilities.yacAbility * (1 + (random() - 0.5) * 0.3);
+    } else {
+        evasionRoll = calculateWeightedRoll(ballCarrier, {
+            agility: 0.35,
+            speed: 0.30,
+            balance: 0.35,
+        });
+    }
+
+    // Tackle succeeds if tackler roll exceeds evasion by more than -5
+    const margin = tacklerRoll - evasionRoll;
+    const tackled = margin > -5;
+
+    const config = ECONOMY_CONSTANTS.AGGRESSION;
+    const bigHit = tackled && random() < calculateAggressionChance(tackler, config.BIG_HIT_CHANCE, config.BIG_HIT_WEIGHT);
+    const fumbleChance = calculateAggressionChance(tackler, config.FUMBLE_CHANCE, config.FUMBLE_WEIGHT) *
+        (bigHit ? config.BIG_HIT_FUMBLE_MULTIPLIER : 1);
+    const forcedFumble = tackled && random() < fumbleChance;
+
+    const injuredPlayerIds: string[] = [];
+    if (rollClashInjury(ballCarrier, tackler, 'tackle', bigHit ? config.BIG_HIT_INJURY_MULTIPLIER : 1)) {
+        injuredPlayerIds.push(ballCarrier.id);
+    }
+    if (rollClashInjury(tackler, ballCarrier, 'tackle')) {
+        injuredPlayerIds.push(tackler.id);
+    }
+
+    return { tackled, margin, bigHit, forcedFumble, injuredPlayerIds };
+}
+
+/**
+ * Contested catch clash - WR vs CB when ball arrives
+ * Uses WR contested catch ability vs CB ball hawk ability
+ * Returns catch probability modifier (-1 to 1)
+ */
+export function calculateContestedCatchClash(
+    receiver: EconomyPlayer,
+    defender: EconomyPlayer
+): number {
+    const wrAbilities = calculateWRAbilities(receiver);
+    const cbAbilities = calculateCBAbilities(defender);
+
+    const wrValue = wrAbilities.contestedCatch;
+    const cbValue = cbAbilities.ballHawk;
+
+    // Add variance
+    const variance = 0.15;
+    const wrRoll = wrValue * (1 + (random() - 0.5) * 2 * variance);
+    const cbRoll = cbValue * (1 + (random() - 0.5) * 2 * variance);
+
+    // Return normalized difference (-1 to 1 range, roughly)
+    return (wrRoll - cbRoll) / 50;
+}
+
+/**
+ * Get a display-friendly summary of core attributes
+ */
+export function getCoreAttributeGrade(value: number): string {
+    if (value >= 90) return 'Elite';
+    if (value >= 80) return 'Excellent';
+    if (value >= 70) return 'Good';
+    if (value >= 60) return 'Average';
+    if (value >= 50) return 'Below Avg';
+    return 'Poor';
+}
+
+/**
+ * Get overall core attribute average for a player
+ */
+export function getCoreAttributeAverage(player: EconomyPlayer): number {
+    const { strength, speed, agility, intelligence } = player.coreAttributes;
+    return Math.round((strength + speed + agility + intelligence) / 4);
+}
+
+// ============================================================================
+// POSITION-SPECIFIC ABILITY CALCULATIONS
+// ============================================================================
+
+/**
+ * Calculate DL (Defensive Line) abilities from core attributes.
+ * Each ability favors different attribute combinations, creating viable builds.
+ */
+export function calculateDLAbilities(player: EconomyPlayer): DLAbilities {
+    const { strength, speed, agility, intelligence } = player.coreAttributes;
+    const passRush = calculateEffectiveStat(player, 'passRush');
+
+    return {
+        // Bull Rush: Power through - Strength dominant (60%), some technique (passRush 25%), timing (intelligence 15%)
+        bullRush: clamp(Math.round(
+            strength * 0.60 + passRush * 0.25 + intelligence * 0.15
+        ), 0, 99),
+
+        // Block Shed: Disengage quickly - Strength (40%) + Agility (40%) + technique (20%)
+        blockShed: clamp(Math.round(
+            strength * 0.40 + agility * 0.40 + passRush * 0.20
+        ), 0, 99),
+
+        // Spin Move: Finesse move - Agility dominant (55%), Speed (25%), technique (20%)
+        spinMove: clamp(Math.round(
+            agility * 0.55 + speed * 0.25 + passRush * 0.20
+        ), 0, 99),
+
+        // Swim Move: Over the arms - Agility (45%), Speed (35%), technique (20%)
+        swimMove: clamp(Math.round(
+            agility * 0.45 + speed * 0.35 + passRush * 0.20
+        ), 0, 99),
+    };
+}
+
+/**
+ * Calculate OL (Offensive Line) abilities from core attributes.
+ */
+export function calculateOLAbilities(player: EconomyPlayer): OLAbilities {
+    const { strength, speed, agility, intelligence } = player.coreAttributes;
+    const passBlock = calculateEffectiveStat(player, 'passBlock');
+    const balance = calculateEffectiveStat(player, 'balance');
+
+    return {
+        // Anchor: Hold ground - Strength dominant (55%), Balance (25%), technique (20%)
+        anchor: clamp(Math.round(
+            strength * 0.55 + balance * 0.25 + passBlock * 0.20
+        ), 0, 99),
+
+        // Hand Fighting: Control rushers - Strength (40%) + Agility (35%) + technique (25%)
+        handFighting: clamp(Math.round(
+            strength * 0.40 + agility * 0.35 + passBlock * 0.25
+        ), 0, 99),
+
+        // Footwork: Mirror laterally - Agility (45%) + Intelligence (30%) + technique (25%)
+        footwork: clamp(Math.round(
+            agility * 0.45 + intelligence * 0.30 + passBlock * 0.25
+        ), 0, 99),
+
+        // Drive Block: Sustain and move - Strength (40%) + Intelligence (30%) + technique (30%)
+        driveBlock: clamp(Math.round(
+            strength * 0.40 + intelligence * 0.30 + passBlock * 0.30
+        ), 0, 99),
+    };
+}
+
+/**
+ * Calculate CB (Cornerback) abilities from core attributes.
+ */
+export function calculateCBAbilities(player: EconomyPlayer): CBAbilities {
+    const { strength, speed, agility, intelligence } = player.coreAttributes;
+    const awareness = calculateEffectiveStat(player, 'awareness');
+    const tackling = calculateEffectiveStat(player, 'tackling');
+
+    return {
+        // Press Coverage: Jam at line - Strength (45%) + Intelligence (35%) + technique (20%)
+        pressCoverage: clamp(Math.round(
+            strength * 0.45 + intelligence * 0.35 + awareness * 0.20
+        ), 0, 99),
+
+        // Man Coverage: Stick with receiver - Speed (40%) + Agility (40%) + awareness (20%)
+        manCoverage: clamp(Math.round(
+            speed * 0.40 + agility * 0.40 + awareness * 0.20
+        ), 0, 99),
+
+        // Zone Coverage: Read and react - Intelligence (45%) + Agility (35%) + awareness (20%)
+        zoneCoverage: clamp(Math.round(
+            intelligence * 0.45 + agility * 0.35 + awareness * 0.20
+        ), 0, 99),
+
+        // Ball Hawk: Intercept passes - Intelligence (40%) + Speed (35%) + awareness (25%)
+        ballHawk: clamp(Math.round(
+            intelligence * 0.40 + speed * 0.35 + awareness * 0.25
+        ), 0, 99),
+    };
+}
+
+/**
+ * Calculate WR (Wide Receiver) abilities from core attributes.
+ */
+export function calculateWRAbilities(player: EconomyPlayer): WRAbilities {
+    const { strength, speed, agility, intelligence } = player.coreAttributes;
+    const catching = calculateEffectiveStat(player, 'catching');
+    const focus = calculateEffectiveStat(player, 'focus');
+    const routeRunning = calculateEffectiveStat(player, 'routeRunning');
+
+    return {
+        // Release Move: Beat press - Agility (45%) + Strength (35%) + technique (20%)
+        releaseMove: clamp(Math.round(
+            agility * 0.45 + strength * 0.35 + routeRunning * 0.20
+        ), 0, 99),
+
+        // Route Sharpness: Create separation - Agility (40%) + Speed (35%) + technique (25%)
+        routeSharpness: clamp(Math.round(
+            agility * 0.40 + speed * 0.35 + routeRunning * 0.25
+        ), 0, 99),
+
+        // Contested Catch: Catch in traffic - Strength (30%) + Intelligence (25%) + catching (25%) + focus (20%)
+        contestedCatch: clamp(Math.round(
+            strength * 0.30 + intelligence * 0.25 + catching * 0.25 + focus * 0.20
+        ), 0, 99),
+
+        // YAC Ability: Yards after catch - Speed (40%) + Agility (40%) + balance (20%)
+        yacAbility: clamp(Math.round(
+            speed * 0.40 + agility * 0.40 + calculateEffectiveStat(player, 'balance') * 0.20
+        ), 0, 99),
+    };
+}
+
+/**
+ * Calculate QB (Quarterback) abilities from core attributes.
+ */
+export function calculateQBAbilities(player: EconomyPlayer): QBAbilities {
+    const { strength, speed, agility, intelligence } = player.coreAttributes;
+    const throwing = calculateEffectiveStat(player, 'throwing') || 70;
+    const awareness = calculateEffectiveStat(player, 'awareness');
+
+    return {
+        // Arm Strength: Deep throws - Strength (45%) + throwing (35%) + Intelligence (20%)
+        armStrength: clamp(Math.round(
+            strength * 0.45 + throwing * 0.35 + intelligence * 0.20
+        ), 0, 99),
+
+        // Quick Release: Fast delivery - Agility (40%) + throwing (35%) + Intelligence (25%)
+        quickRelease: clamp(Math.round(
+            agility * 0.40 + throwing * 0.35 + intelligence * 0.25
+        ), 0, 99),
+
+        // Field Vision: Read defenses - Intelligence (55%) + awareness (30%) + throwing (15%)
+        fieldVision: clamp(Math.round(
+            intelligence * 0.55 + awareness * 0.30 + throwing * 0.15
+        ), 0, 99),
+
+        // Pocket Presence: Escape pressure - Agility (45%) + Speed (35%) + awareness (20%)
+        pocketPresence: clamp(Math.round(
+            agility * 0.45 + speed * 0.35 + awareness * 0.20
+        ), 0, 99),
+    };
+}
+
+/**
+ * Get all abilities for a player based on their position.
+ */
+export function getPlayerAbilities(player: EconomyPlayer): DLAbilities | OLAbilities | CBAbilities | WRAbilities | QBAbilities | null {
+    switch (player.position) {
+        case 'DL':
+            return calculateDLAbilities(player);
+        case 'OL':
+            return calculateOLAbilities(player);
+        case 'CB':
+            return calculateCBAbilities(player);
+        case 'WR':
+            return calculateWRAbilities(player);
+        case 'QB':
+            return calculateQBAbilities(player);
+        default:
+            return null;
+    }
+}
+
+/**
+ * Get the best DL ability for a given situation.
+ * Returns the ability name and value.
+ */
+export function getBestDLAbility(player: EconomyPlayer): { ability: keyof DLAbilities; value: number } {
+    const abilities = calculateDLAbilities(player);
+    let best: keyof DLAbilities = 'bullRush';
+    let bestValue = abilities.bullRush;
+
+    for (const [key, value] of Object.entries(abilities)) {
+        if (value > bestValue) {
+            best = key as keyof DLAbilities;
+            bestValue = value;
+        }
+    }
+
+    return { ability: best, value: bestValue };
+}
+
+/**
+ * Get the best OL ability for a given situation.
+ */
+export function getBestOLAbility(player: EconomyPlayer): { ability: keyof OLAbilities; value: number } {
+    const abilities = calculateOLAbilities(player);
+    let best: keyof OLAbilities = 'anchor';
+    let bestValue = abilities.anchor;
+
+    for (const [key, value] of Object.entries(abilities)) {
+        if (value > bestValue) {
+            best = key as keyof OLAbilities;
+            bestValue = value;
+        }
+    }
+
+    return { ability: best, value: bestValue };
+}
+
+/**
+ * Get the best CB ability for coverage situations.
+ */
+export function getBestCBAbility(player: EconomyPlayer, situation: 'press' | 'man' | 'zone' | 'any' = 'any'): { ability: keyof CBAbilities; value: number } {
+    const abilities = calculateCBAbilities(player);
+
+    if (situation !== 'any') {
+        const abilityMap: Record<string, keyof CBAbilities> = {
+            press: 'pressCoverage',
+            man: 'manCoverage',
+            zone: 'zoneCoverage',
+        };
+        const key = abilityMap[situation];
+        return { ability: key, value: abilities[key] };
+    }
+
+    let best: keyof CBAbilities = 'manCoverage';
+    let bestValue = abilities.manCoverage;
+
+    for (const [key, value] of Object.entries(abilities)) {
+        if (value > bestValue) {
+            best = key as keyof CBAbilities;
+            bestValue = value;
+        }
+    }
+
+    return { ability: best, value: bestValue };
+}
+
+/**
+ * Get the best WR ability for a given route type.
+ */
+export function getBestWRAbility(player: EconomyPlayer, situation: 'release' | 'route' | 'contested' | 'yac' | 'any' = 'any'): { ability: keyof WRAbilities; value: number } {
+    const abilities = calculateWRAbilities(player);
+
+    if (situation !== 'any') {
+        const abilityMap: Record<string, keyof WRAbilities> = {
+            release: 'releaseMove',
+            route: 'routeSharpness',
+            contested: 'contestedCatch',
+            yac: 'yacAbility',
+        };
+        const key = abilityMap[situation];
+        return { ability: key, value: abilities[key] };
+    }
+
+    let best: keyof WRAbilities = 'routeSharpness';
+    let bestValue = abilities.routeSharpness;
+
+    for (const [key, value] of Object.entries(abilities)) {
+        if (value > bestValue) {
+            best = key as keyof WRAbilities;
+            bestValue = value;
+        }
+    }
+
+    return { ability: best, value: bestValue };
+}
+
+// ============================================================================
+// HYPE SYSTEM
+// ============================================================================
+
+/**
+ * Initialize hype data for a new player.
+ * - baseHypeMultiplier: Normal distribution (mean 1.0, std 0.2)
+ * - yearsBeforePrimeCliff: Secret integer 0-5
+ */
+export function initializeHypeData(): HypeData {
+    return {
+        baseHypeMultiplier: Math.max(
+            ECONOMY_CONSTANTS.HYPE.FLOOR,
+            randomNormal(ECONOMY_CONSTANTS.HYPE.MEAN, ECONOMY_CONSTANTS.HYPE.STD_DEV)
+        ),
+        yearsBeforePrimeCliff: randomInt(0, 5),
+        accumulatedFameBank: 0,
+        seasonFameEarnings: 0,
+    };
+}
+
+/**
+ * Calculate the "cliff age" where decline begins.
+ * CliffAge = PhysicalPeakAge - yearsBeforePrimeCliff
+ */
+export function calculateCliffAge(player: EconomyPlayer): number {
+    return player.peakAge - player.hypeData.yearsBeforePrimeCliff;
+}
+
+/**
+ * Calculate the current hype multiplier for a player.
+ *
+ * Logic:
+ * - If Age < CliffAge: return baseHypeMultiplier
+ * - If Age >= CliffAge: decline sharply each year
+ * - Floor: never below 0.1
+ */
+export function calculateCurrentMultiplier(player: EconomyPlayer): number {
+    const cliffAge = calculateCliffAge(player);
+    const { baseHypeMultiplier } = player.hypeData;
+
+    // Before cliff: full multiplier
+    if (player.age < cliffAge) {
+        return baseHypeMultiplier;
+    }
+
+    // After cliff: decline each year
+    const yearsAfterCliff = player.age - cliffAge;
+    const declineRate = ECONOMY_CONSTANTS.HYPE.DECLINE_RATE_PER_YEAR;
+
+    // Compound decline: multiplier * (1 - rate)^years
+    const declinedMultiplier = baseHypeMultiplier * Math.pow(1 - declineRate, yearsAfterCliff);
+
+    // Apply floor
+    return Math.max(ECONOMY_CONSTANTS.HYPE.FLOOR, declinedMultiplier);
+}
+
+/**
+ * Check if a player has hit their cliff age
+ */
+export function hasHitCliff(player: EconomyPlayer): boolean {
+    return player.age >= calculateCliffAge(player);
+}
+
+/**
+ * Get years until cliff (or years past cliff if negative)
+ */
+export function getYearsToCliff(player: EconomyPlayer): number {
+    return calculateCliffAge(player) - player.age;
+}
+
+// ============================================================================
+// PERFORMANCE TO FAME CONVERSION
+// ============================================================================
+
+/**
+ * Convert raw performance points to earned fame.
+ * EarnedFame = RawPerformancePoints * CurrentMultiplier
+ */
+export function calculateEarnedFame(
+    rawPerformancePoints: number,
+    player: EconomyPlayer
+): number {
+    const multiplier = calculateCurrentMultiplier(player);
+    const earnedFame = Math.floor(rawPerformancePoints * multiplier);
+    return earnedFame;
+}
+
+/**
+ * Process a performance event and add fame to player's bank
+ */
+export function processPerformanceEvent(
+    player: EconomyPlayer,
+    event: PerformanceEvent
+): number {
+    const earnedFame = calculateEarnedFame(event.rawPoints, player);
+
+    // Add to accumulated bank
+    player.hypeData.accumulatedFameBank += earnedFame;
+    player.hypeData.seasonFameEarnings += earnedFame;
+
+    return earnedFame;
+}
+
+/**
+ * Calculate raw performance points from game stats
+ */
+export function calculateRawPerformancePoints(stats: {
+    catches?: number;
+    touchdowns?: number;
+    tackles?: number;
+    sacks?: number;
+    interceptions?: number;
+    passesDefended?: number;
+    yardsGained?: number;
+}): number {
+    const pp = ECONOMY_CONSTANTS.PERFORMANCE_POINTS;
+
+    return (
+        (stats.catches || 0) * pp.CATCH +
+        (stats.touchdowns || 0) * pp.TOUCHDOWN +
+        (stats.tackles || 0) * pp.TACKLE +
+        (stats.sacks || 0) * pp.SACK +
+        (stats.interceptions || 0) * pp.INTERCEPTION +
+        (stats.passesDefended || 0) * pp.PASS_DEFENDED +
+        (stats.yardsGained || 0) * pp.YARDS_GAINED
+    );
+}
+
+/**
+ * Turn a player's box score line into performance events.
+ * Passing and receiving touchdowns and yards both count, so quarterbacks
+ * earn fame for completions as well as their receivers.
+ */
+export function createPerformanceEvents(stats: PlayerGameStats, gameId?: string): PerformanceEvent[] {
+    const pp = ECONOMY_CONSTANTS.PERFORMANCE_POINTS;
+    const counts: [PerformanceEvent['eventType'], number, number][] = [
+        ['catch', stats.catches, pp.CATCH],
+        ['touchdown', stats.receivingTouchdowns + stats.passingTouchdowns, pp.TOUCHDOWN],
+        ['yards_gained', Math.max(0, stats.receivingYards + stats.passingYards), pp.YARDS_GAINED],
+        ['tackle', stats.tackles, pp.TACKLE],
+        ['sack', stats.sacks, pp.SACK],
+        ['interception', stats.interceptions, pp.INTERCEPTION],
+        ['pass_defended', stats.passesDefended, pp.PASS_DEFENDED],
+    ];
+
+    return counts
+        .filter(([, count]) => count > 0)
+        .map(([eventType, count, points]) => ({
+            playerId: stats.playerId,
+            eventType,
+            rawPoints: count * points,
+            metadata: { gameId, count },
+        }));
+}
+
+/**
+ * Apply a game's box score to a team: award fame through processPerformanceEvent
+ * and append each player's line to their game log.
+ * Returns fame earned by player id.
+ */
+export function applyGamePerformance(
+    team: Team,
+    playerStats: PlayerGameStats[],
+    entry: Omit<PlayerGameLogEntry, 'stats' | 'fameEarned'>
+): Map<string, number> {
+    const results = new Map<string, number>();
+
+    playerStats
+        .filter(stats => stats.teamId === team.id)
+        .forEach(stats => {
+            const player = team.roster.find(p => p.id === stats.playerId);
+            if (!player) return;
+
+            const fameEarned = createPerformanceEvents(stats, entry.gameId)
+                .reduce((total, event) => total + processPerformanceEvent(player, event), 0);
+
+            player.gameLog = player.gameLog ?? [];
+            player.gameLog.push({ ...entry, stats, fameEarned });
+            results.set(player.id, fameEarned);
+        });
+
+    return results;
+}
+
+// ============================================================================
+// HARVEST (TRADE) SYSTEM
+// ============================================================================
+
+/**
+ * Calculate the harvest (trade) value for a player.
+ * Returns the full AccumulatedFameBank - no modifiers or deductions.
+ */
+export function calculateHarvestValue(player: EconomyPlayer): number {
+    return player.hypeData.accumulatedFameBank;
+}
+
+/**
+ * Harvest a player - trade them for fame payout.
+ * Returns the full AccumulatedFameBank and removes player from team.
+ */
+export function harvestPlayer(
+    team: Team,
+    playerId: string
+): HarvestResult | null {
+    const playerIndex = team.roster.findIndex(p => p.id === playerId);
+    if (playerIndex === -1) {
+        return null;
+    }
+
+    const player = team.roster[playerIndex];
+    const famePayout = player.hypeData.accumulatedFameBank;
+
+    // Remove player from roster; any unamortised bonus stays on the cap
+    team.roster.splice(playerIndex, 1);
+    chargeDeadCap(team, player, 'traded');
+
+    // Add fame to team budget
+    team.fameBudget += famePayout;
+
+    return {
+        success: true,
+        famePayout,
+        player,
+    };
+}
+
+// ============================================================================
+// PLAYER PRICING
+// ============================================================================
+
+/**
+ * Calculate the cost to buy a player based on stats and hype multiplier.
+ */
+export function calculatePlayerCost(player: EconomyPlayer): number {
+    const pc = ECONOMY_CONSTANTS.PLAYER_PRICING;
+
+    // Base cost from overall rating
+    let baseCost = player.overall * pc.BASE_COST_PER_OVERALL;
+
+    // Apply hype multiplier weight
+    const currentMultiplier = calculateCurrentMultiplier(player);
+    const hypeAdjustment = 1 + (currentMultiplier - 1) * pc.HYPE_MULTIPLIER_WEIGHT;
+    baseCost *= hypeAdjustment;
+
+    // Age adjustments
+    if (player.age >= pc.AGE_PENALTY_START) {
+        const yearsOver = player.age - pc.AGE_PENALTY_START;
+        baseCost *= (1 - yearsOver * pc.AGE_PENALTY_PER_YEAR);
+    } else if (player.age <= pc.YOUNG_PREMIUM_END) {
+        baseCost *= (1 + pc.YOUNG_PREMIUM_BONUS);
+    }
+
+    // Factor in potential
+    baseCost *= (1 + player.potentialGrade * 0.1);
+
+    return Math.max(50, Math.floor(baseCost));
+}
+
+// ============================================================================
+// INJURIES
+// ============================================================================
+
+/** How bad an injury is */
+export type InjurySeverity = 'minor' | 'moderate' | 'severe' | 'season_ending';
+
+/** The contact that caused an injury */
+export type InjuryTrigger = 'tackle' | 'line' | 'sack';
+
+/** An injury sustained in a game */
+export interface PlayerInjury {
+    id: string;
+    /** e.g. "ankle sprain" */
+    name: string;
+    bodyPart: string;
+    severity: InjurySeverity;
+    trigger: InjuryTrigger;
+    /** Weeks left before the player can play again */
+    weeksOut: number;
+    /** Weeks out when the injury happened */
+    totalWeeks: number;
+    /** Weeks of reduced stats left once the player is back */
+    lingeringWeeks: number;
+    /** Points taken off effective stats until fully healed */
+    statPenalties: Partial<Record<keyof PlayerStats, number>>;
+    season?: number;
+    /** Regular-season week of the game (absent for playoff and exhibition games) */
+    week?: number;
+    /** Playoff round of the game (absent outside the playoffs) */
+    playoffRound?: number;
+    gameId?: string;
+}
+
+/** A player's stint on injured reserve */
+export interface InjuredReserveStatus {
+    season: number;
+    /** Regular-season week the player was placed (absent in the playoffs) */
+    week?: number;
+    /** Weeks spent on reserve so far */
+    weeksOnReserve: number;
+}
+
+/** An injury from a simulated game, before it is applied to the roster */
+export interface GameInjury {
+    playerId: string;
+    teamId: string;
+    driveNumber: number;
+    injury: PlayerInjury;
+}
+
+/** Injury kinds: the stats they hurt and the contacts that cause them */
+const INJURY_TYPES: { name: string; bodyPart: string; stats: (keyof PlayerStats)[]; triggers: InjuryTrigger[] }[] = [
+    { name: 'ankle sprain', bodyPart: 'ankle', stats: ['speed', 'acceleration', 'agility'], triggers: ['tackle', 'line'] },
+    { name: 'hamstring strain', bodyPart: 'hamstring', stats: ['speed', 'acceleration'], triggers: ['tackle'] },
+    { name: 'knee sprain', bodyPart: 'knee', stats: ['agility', 'balance', 'speed'], triggers: ['tackle', 'line', 'sack'] },
+    { name: 'shoulder separation', bodyPart: 'shoulder', stats: ['strength', 'passBlock', 'passRush', 'tackling', 'throwing'], triggers: ['tackle', 'line', 'sack'] },
+    { name: 'hand fracture', bodyPart: 'hand', stats: ['catching', 'passBlock', 'passRush'], triggers: ['line'] },
+    { name: 'rib contusion', bodyPart: 'ribs', stats: ['stamina', 'strength'], triggers: ['line', 'sack'] },
+    { name: 'concussion', bodyPart: 'head', stats: ['awareness', 'focus'], triggers: ['tackle', 'sack'] },
+];
+
+/**
+ * Multiplier on a player's injury chance in a contact with an opponent.
+ * Low stamina and balance, age past the threshold and a hard-hitting
+ * (aggressive) opponent all raise it.
+ */
+export function calculateInjuryRisk(player: EconomyPlayer, opponent: EconomyPlayer): number {
+    const config = ECONOMY_CONSTANTS.INJURIES;
+    const durability = (calculateEffectiveStat(player, 'stamina') + calculateEffectiveStat(player, 'balance')) / 2;
+    const aggression = calculateEffectiveStat(opponent, 'aggression');
+
+    const risk = (1 + (config.DURABILITY_BASELINE - durability) * config.DURABILITY_WEIGHT) *
+        (1 + Math.max(0, player.age - config.AGE_THRESHOLD) * config.AGE_WEIGHT) *
+        (1 + (aggression - config.AGGRESSION_BASELINE) * config.AGGRESSION_WEIGHT);
+
+    return clamp(risk, config.RISK_RANGE.MIN, config.RISK_RANGE.MAX);
+}
+
+/**
+ * Roll whether a player is hurt in a contact with an opponent
+ */
+export function rollClashInjury(
+    player: EconomyPlayer,
+    opponent: EconomyPlayer,
+    trigger: InjuryTrigger,
+    multiplier: number = 1
+): boolean {
+    return random() < ECONOMY_CONSTANTS.INJURIES.BASE_CHANCE[trigger] * calculateInjuryRisk(player, opponent) * multiplier;
+}
+
+function selectInjurySeverity(): InjurySeverity {
+    const roll = random();
+    let cumulative = 0;
+
+    for (const [severity, weight] of Object.entries(ECONOMY_CONSTANTS.INJURIES.SEVERITY_WEIGHTS)) {
+        cumulative += weight;
+        if (roll < cumulative) {
+            return severity as InjurySeverity;
+        }
+    }
+
+    return 'minor';
+}
+
+/**
+ * Generate an injury caused by a contact: its kind, severity, weeks out,
+ * lingering weeks and stat penalties
+ */
+export function generateInjury(trigger: InjuryTrigger): PlayerInjury {
+    const config = ECONOMY_CONSTANTS.INJURIES;
+    const type = pickRandom(INJURY_TYPES.filter(candidate => candidate.triggers.includes(trigger))) ?? INJURY_TYPES[0];
+    const severity = selectInjurySeverity();
+    const [minOut, maxOut] = config.WEEKS_OUT[severity];
+    const [minLingering, maxLingering] = config.LINGERING_WEEKS[severity];
+    const weeksOut = randomInt(minOut, maxOut);
+
+    const statPenalties: Partial<Record<keyof PlayerStats, number>> = {};
+    type.stats.forEach(stat => {
+        statPenalties[stat] = config.STAT_PENALTY[severity];
+    });
+
+    return {
+        id: generateId(),
+        name: type.name,
+        bodyPart: type.bodyPart,
+        severity,
+        trigger,
+        weeksOut,
+        totalWeeks: weeksOut,
+        lingeringWeeks: randomInt(minLingering, maxLingering),
+        statPenalties,
+    };
+}
+
+/**
+ * Whether a player can't play: too hurt, or off the active roster
+ */
+export function isPlayerUnavailable(player: EconomyPlayer): boolean {
+    return (player.injury?.weeksOut ?? 0) > 0 || !isActiveRosterPlayer(player);
+}
+
+/**
+ * Give a player a new injury. A player already hurt keeps whichever
+ * injury keeps them out longer; the other goes into their history.
+ */
+export function applyInjury(player: EconomyPlayer, injury: PlayerInjury): void {
+    const current = player.injury;
+    if (current && current.weeksOut >= injury.weeksOut) {
+        player.injuryHistory = [...(player.injuryHistory ?? []), injury];
+        return;
+    }
+    if (current) {
+        player.injuryHistory = [...(player.injuryHistory ?? []), current];
+    }
+    player.injury = injury;
+}
+
+/**
+ * Move an injury on by one week: first the weeks out run down, then the
+ * lingering weeks. Returns the injury once it has fully healed.
+ */
+export function advanceInjuryRecovery(player: EconomyPlayer): PlayerInjury | null {
+    if (player.injuredReserve) player.injuredReserve.weeksOnReserve++;
+
+    const injury = player.injury;
+    if (!injury) return null;
+
+    if (injury.weeksOut > 0) {
+        injury.weeksOut--;
+    } else if (injury.lingeringWeeks > 0) {
+        injury.lingeringWeeks--;
+    }
+    if (injury.weeksOut > 0 || injury.lingeringWeeks > 0) return null;
+
+    return healInjury(player);
+}
+
+/**
+ * Clear a player's injury and archive it
+ */
+export function healInjury(player: EconomyPlayer): PlayerInjury | null {
+    const injury = player.injury;
+    if (!injury) return null;
+
+    injury.weeksOut = 0;
+    injury.lingeringWeeks = 0;
+    player.injuryHistory = [...(player.injuryHistory ?? []), injury];
+    delete player.injury;
+    return injury;
+}
+
+// ============================================================================
+// FATIGUE
+// ============================================================================
+
+/**
+ * Multiplier on how fast a player tires; low stamina tires faster.
+ * Uses trained stamina so fatigue doesn't feed back into itself.
+ */
+export function calculateFatigueRate(player: EconomyPlayer): number {
+    const config = ECONOMY_CONSTANTS.FATIGUE;
+    const rate = 1 + (config.STAMINA_BASELINE - player.stats.stamina) * config.STAMINA_WEIGHT;
+    return clamp(rate, config.RATE_RANGE.MIN, config.RATE_RANGE.MAX);
+}
+
+/**
+ * Multiplier on how fast a player recovers; high stamina recovers faster
+ */
+export function calculateRecoveryRate(player: EconomyPlayer): number {
+    const config = ECONOMY_CONSTANTS.FATIGUE;
+    const rate = 1 + (player.stats.stamina - config.STAMINA_BASELINE) * config.STAMINA_WEIGHT;
+    return clamp(rate, config.RATE_RANGE.MIN, config.RATE_RANGE.MAX);
+}
+
+/**
+ * Share of each effective stat a player keeps at their current in-game fatigue
+ */
+export function calculateFatigueFactor(player: EconomyPlayer): number {
+    return 1 - ECONOMY_CONSTANTS.FATIGUE.MAX_STAT_PENALTY * (player.fatigue ?? 0) / 100;
+}
+
+/**
+ * Fatigue a player starts a game with, carried over from their season wear
+ */
+export function calculateKickoffFatigue(player: EconomyPlayer): number {
+    return (player.wear ?? 0) * ECONOMY_CONSTANTS.FATIGUE.WEAR_CARRYOVER;
+}
+
+/**
+ * Tire a player for one snap on the field
+ */
+export function addSnapFatigue(player: EconomyPlayer): void {
+    const gained = ECONOMY_CONSTANTS.FATIGUE.SNAP_COST * calculateFatigueRate(player);
+    player.fatigue = Math.min(100, (player.fatigue ?? 0) + gained);
+}
+
+/**
+ * Rest a player for one snap spent off the field
+ */
+export function recoverSnapFatigue(player: EconomyPlayer): void {
+    const recovered = ECONOMY_CONSTANTS.FATIGUE.SNAP_RECOVERY * calculateRecoveryRate(player);
+    player.fatigue = Math.max(0, (player.fatigue ?? 0) - recovered);
+}
+
+/**
+ * Add season wear for the snaps a player took in a game
+ */
+export function addGameWear(player: EconomyPlayer, snaps: number): void {
+    if (snaps <= 0) return;
+    const gained = snaps * ECONOMY_CONSTANTS.FATIGUE.WEAR_PER_SNAP * calculateFatigueRate(player);
+    player.wear = Math.min(100, (player.wear ?? 0) + gained);
+}
+
+/**
+ * Recover a week of season wear; a bye week recovers much more
+ */
+export function recoverWear(player: EconomyPlayer, bye: boolean): void {
+    if (!player.wear) return;
+    const config = ECONOMY_CONSTANTS.FATIGUE;
+    const wear = player.wear - (bye ? config.BYE_RECOVERY : config.WEEKLY_RECOVERY) * calculateRecoveryRate(player);
+    if (wear > 0) {
+        player.wear = wear;
+    } else {
+        delete player.wear;
+    }
+}
+
+// ============================================================================
+// PENALTIES
+// ============================================================================
+
+/** Fouls the game simulation calls */
+export type PenaltyType =
+    | 'offsides'
+    | 'offensive_holding'
+    | 'illegal_contact'
+    | 'pass_interference'
+    | 'roughing_the_passer'
+    | 'personal_foul';
+
+/**
+ * How a game's officiating crew calls fouls. Strictness scales every foul;
+ * the per-foul multipliers pick out a crew's pet calls.
+ */
+export interface OfficialsTendencies {
+    /** Multiplier on every foul chance (1 = league average) */
+    strictness: number;
+    /** Extra multipliers for individual fouls */
+    fouls?: Partial<Record<PenaltyType, number>>;
+}
+
+/** A foul called on a play */
+export interface PlayPenalty {
+    type: PenaltyType;
+    /** Team that committed the foul */
+    teamId: string;
+    playerId: string;
+    /** Yards enforced (after the half-the-distance limit) */
+    yards: number;
+    /** The offense gets a fresh set of downs */
+    automaticFirstDown: boolean;
+    /** Enforced from the end of a play that stands; otherwise the down is replayed */
+    afterPlay: boolean;
+}
+
+const PENALTY_NAMES: Record<PenaltyType, string> = {
+    offsides: 'Offsides',
+    offensive_holding: 'Offensive holding',
+    illegal_contact: 'Illegal contact',
+    pass_interference: 'Pass interference',
+    roughing_the_passer: 'Roughing the passer',
+    personal_foul: 'Personal foul',
+};
+
+/** Fouls committed after the ball is thrown or the carrier is down */
+const AFTER_PLAY_PENALTIES: PenaltyType[] = ['roughing_the_passer', 'personal_foul'];
+
+/**
+ * Chance a player commits a foul when its situation comes up.
+ * Aggression stands in for (a lack of) discipline and awareness keeps a
+ * player out of trouble; the officiating crew scales the result.
+ */
+export function calculatePenaltyChance(
+    player: EconomyPlayer,
+    type: PenaltyType,
+    officials: OfficialsTendencies = ECONOMY_CONSTANTS.PENALTIES.DEFAULT_OFFICIALS
+): number {
+    const config = ECONOMY_CONSTANTS.PENALTIES;
+    const aggression = calculateEffectiveStat(player, 'aggression');
+    const awareness = calculateEffectiveStat(player, 'awareness');
+
+    const discipline = clamp(
+        1 + (aggression - config.BASELINE) * config.AGGRESSION_WEIGHT - (awareness - config.BASELINE) * config.AWARENESS_WEIGHT,
+        config.DISCIPLINE_RANGE.MIN,
+        config.DISCIPLINE_RANGE.MAX
+    );
+    const crew = officials.strictness * (officials.fouls?.[type] ?? 1);
+
+    return clamp(config.BASE_CHANCE[type] * discipline * crew, 0, 1);
+}
+
+/**
+ * Roll whether a player is flagged for a foul
+ */
+export function rollPenalty(
+    player: EconomyPlayer,
+    type: PenaltyType,
+    officials: OfficialsTendencies = ECONOMY_CONSTANTS.PENALTIES.DEFAULT_OFFICIALS
+): boolean {
+    return random() < calculatePenaltyChance(player, type, officials);
+}
+
+/**
+ * Enforce a foul from a yard line (offense's view, 0-100). Walk-offs stop at
+ * half the distance to the goal line; pass interference is spotted where it
+ * happened (spotYards past the line), no closer than the 1.
+ */
+export function enforcePenalty(
+    type: PenaltyType,
+    player: EconomyPlayer,
+    teamId: string,
+    offenseTeamId: string,
+    yardLine: number,
+    spotYards: number = 0
+): PlayPenalty {
+    const config = ECONOMY_CONSTANTS.PENALTIES;
+    const offensive = teamId === offenseTeamId;
+    const walkOff = type === 'pass_interference' ? Math.max(1, spotYards) : config.YARDS[type];
+    const limit = offensive
+        ? Math.floor(yardLine / 2)
+        : type === 'pass_interference' ? 99 - yardLine : Math.floor((100 - yardLine) / 2);
+
+    return {
+        type,
+        teamId,
+        playerId: player.id,
+        yards: Math.max(0, Math.min(walkOff, limit)),
+        automaticFirstDown: !offensive && config.AUTOMATIC_FIRST_DOWN.includes(type),
+        afterPlay: AFTER_PLAY_PENALTIES.includes(type),
+    };
+}
+
+/**
+ * Yards a penalty moves the ball for the offense: forward for defensive fouls, back for offensive ones
+ */
+export function getPenaltyYardage(penalty: PlayPenalty, offenseTeamId: string): number {
+    return penalty.teamId === offenseTeamId ? -penalty.yards : penalty.yards;
+}
+
+/** Play description for a foul, e.g. "Personal foul on A. Blackwood, 15 yards, automatic first down" */
+function describePenalty(penalty: PlayPenalty, player: EconomyPlayer): string {
+    return `${PENALTY_NAMES[penalty.type]} on ${formatPlayerName(player)}, ${penalty.yards} yard${penalty.yards === 1 ? '' : 's'}` +
+        (penalty.automaticFirstDown ? ', automatic first down' : '');
+}
+
+/**
+ * Copy an officiating crew, or null when strictness or a foul multiplier is below zero
+ */
+function copyOfficials(officials: OfficialsTendencies): OfficialsTendencies | null {
+    const multipliers = [officials.strictness, ...Object.values(officials.fouls ?? {})];
+    if (multipliers.some(value => typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        return null;
+    }
+    return { strictness: officials.strictness, fouls: officials.fouls ? { ...officials.fouls } : undefined };
+}
+
+// ============================================================================
+// DEPTH CHART
+// ============================================================================
+
+/** Hand-set orderings by position: player ids, starters first */
+export type DepthChartOverrides = Partial<Record<Position, string[]>>;
+
+/**
+ * How a player ranks on the depth chart, from their position abilities.
+ * Linemen win their clashes with their best move or technique, so they are
+ * ranked by it; everyone else by the average of their abilities.
+ */
+export function calculateDepthChartScore(player: EconomyPlayer): number {
+    const abilities = getPlayerAbilities(player);
+    if (!abilities) return player.overall;
+
+    const values = Object.values(abilities) as number[];
+    if (player.position === 'OL' || player.position === 'DL') {
+        return Math.max(...values);
+    }
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Resolve a team's full depth chart, starters first at each position.
+ * Hand-ordered positions keep their order (players missing from it follow,
+ * best first); every other position is sorted by depth chart score.
+ * Unavailable players keep their place - the lineup skips past them.
+ */
+export function resolveDepthChart(team: Team): Record<Position, EconomyPlayer[]> {
+    const chart = {} as Record<Position, EconomyPlayer[]>;
+
+    (Object.keys(ECONOMY_CONSTANTS.GAME_SIM.LINEUP) as Position[]).forEach(position => {
+        const players = team.roster.filter(player => player.position === position);
+        const scores = new Map(players.map(player => [player.id, calculateDepthChartScore(player)]));
+        const ranked = [...players].sort((a, b) => (scores.get(b.id) as number) - (scores.get(a.id) as number));
+
+        const manual = (team.depthChart?.[position] ?? [])
+            .map(playerId => players.find(player => player.id === playerId))
+            .filter((player): player is EconomyPlayer => player !== undefined);
+        chart[position] = [...manual, ...ranked.filter(player => !manual.includes(player))];
+    });
+
+    return chart;
+}
+
+// ============================================================================
+// GAME SIMULATION
+// ============================================================================
+
+/** Starting lineup for one side of a game */
+export interface GameLineup {
+    teamId: string;
+    quarterback: EconomyPlayer | null;
+    receivers: EconomyPlayer[];
+    offensiveLine: EconomyPlayer[];
+    defensiveLine: EconomyPlayer[];
+    cornerbacks: EconomyPlayer[];
+}
+
+/** Kinds of plays the simulator produces */
+export type PlayType =
+    | 'pass_complete'
+    | 'pass_incomplete'
+    | 'interception'
+    | 'sack'
+    | 'field_goal'
+    | 'missed_field_goal'
+    | 'punt'
+    | 'turnover_on_downs'
+    | 'penalty';
+
+/** One play in the game log */
+export interface PlayLogEntry {
+    driveNumber: number;
+    offenseTeamId: string;
+    defenseTeamId: string;
+    type: PlayType;
+    /** Yards gained (negative for sacks) */
+    yards: number;
+    /** Field position before the snap (0 = own goal line, 100 = opponent's goal line) */
+    yardLine: number;
+    down: number;
+    distance: number;
+    touchdown: boolean;
+    firstDown: boolean;
+    passerId?: string;
+    receiverId?: string;
+    /** Cornerback in coverage on the target */
+    defenderId?: string;
+    tacklerId?: string;
+    sackerId?: string;
+    /** Offensive lineman who held off the pass rush */
+    blockerId?: string;
+    /** The tackle was a big hit */
+    bigHit?: boolean;
+    /** The ball carrier fumbled, and who came up with it */
+    fumble?: 'lost' | 'recovered';
+    /** Foul called on the play (a 'penalty' play was wiped out by it) */
+    penalty?: PlayPenalty;
+    /** Players hurt on the play */
+    injuries?: PlayInjury[];
+    description: string;
+}
+
+/** A player hurt on a play, and the contact that did it */
+export interface PlayInjury {
+    playerId: string;
+    trigger: InjuryTrigger;
+}
+
+/** How a possession ended */
+export type DriveOutcome = 'touchdown' | 'field_goal' | 'missed_field_goal' | 'punt' | 'turnover' | 'turnover_on_downs' | 'end_of_half';
+
+/** Summary of one possession */
+export interface DriveResult {
+    driveNumber: number;
+    offenseTeamId: string;
+    startYardLine: number;
+    plays: number;
+    yards: number;
+    outcome: DriveOutcome;
+    points: number;
+}
+
+/** Team totals for one game */
+export interface TeamBoxScore {
+    teamId: string;
+    points: number;
+    plays: number;
+    totalYards: number;
+    passAttempts: number;
+    completions: number;
+    passingYards: number;
+    sacksAllowed: number;
+    sackYardsLost: number;
+    interceptionsThrown: number;
+    fumblesLost: number;
+    /** Fouls committed by this team, and the yards they cost */
+    penalties: number;
+    penaltyYards: number;
+    firstDowns: number;
+    touchdowns: number;
+    fieldGoalsMade: number;
+    fieldGoalsAttempted: number;
+    punts: number;
+}
+
+/** One player's stat line for one game */
+export interface PlayerGameStats {
+    playerId: string;
+    teamId: string;
+    position: Position;
+    /** Plays on the field (kicks excluded) */
+    snaps: number;
+    passAttempts: number;
+    completions: number;
+    passingYards: number;
+    passingTouchdowns: number;
+    interceptionsThrown: number;
+    sacksTaken: number;
+    targets: number;
+    catches: number;
+    receivingYards: number;
+    receivingTouchdowns: number;
+    tackles: number;
+    sacks: number;
+    interceptions: number;
+    passesDefended: number;
+    /** Pass-rush reps a lineman held up */
+    blocksWon: number;
+}
+
+/** Box score for a whole game */
+export interface GameBoxScore {
+    home: TeamBoxScore;
+    away: TeamBoxScore;
+    /** Every player who took a snap or recorded a stat, home team first */
+    players: PlayerGameStats[];
+}
+
+/** A game as it appears in a player's game log */
+export interface PlayerGameLogEntry {
+    gameId: string;
+    season: number;
+    /** Regular-season week (absent for playoff and exhibition games) */
+    week?: number;
+    /** Playoff round number (absent outside the playoffs) */
+    playoffRound?: number;
+    opponentId: string;
+    stats: PlayerGameStats;
+    fameEarned: number;
+}
+
+/** Full output of a simulated game */
+export interface GameSimulationResult {
+    homeTeamId: string;
+    awayTeamId: string;
+    homeScore: number;
+    awayScore: number;
+    overtime: boolean;
+    drives: DriveResult[];
+    playLog: PlayLogEntry[];
+    boxScore: GameBoxScore;
+    /** Injuries sustained in the game (not yet applied to the rosters) */
+    injuries: GameInjury[];
+    /** Snaps on the field by player id, for season wear */
+    snapCounts: Record<string, number>;
+}
+
+/** Options for a simulated game */
+export interface GameSimulationOptions {
+    /** Whether the game may end tied after overtime (regular season) */
+    allowTies?: boolean;
+    /** The officiating crew's tendencies (league average by default) */
+    officials?: OfficialsTendencies;
+}
+
+/** Mutable state while a drive is being played */
+interface DriveState {
+    yardLine: number;
+    down: number;
+    distance: number;
+}
+
+/** A simulated pass play before the drive adds field position and down */
+type PassPlayResult = Omit<PlayLogEntry, 'driveNumber' | 'offenseTeamId' | 'defenseTeamId' | 'yardLine' | 'down' | 'distance' | 'touchdown' | 'firstDown'>;
+
+/**
+ * Build a starting lineup from the depth chart: the first players at each position.
+ * Injured players, players on injured reserve and any excluded players sit out
+ * and the next player down the chart is promoted in their place.
+ * With rotation on, tired starters are spelled by a clearly fresher backup.
+ */
+export function buildGameLineup(
+    team: Team,
+    excludedPlayerIds: Set<string> = new Set(),
+    rotate: boolean = false
+): GameLineup {
+    const counts = ECONOMY_CONSTANTS.GAME_SIM.LINEUP;
+    const fatigueConfig = ECONOMY_CONSTANTS.FATIGUE;
+    const chart = resolveDepthChart(team);
+    const best = (position: Position): EconomyPlayer[] => {
+        const available = chart[position]
+            .filter(player => !isPlayerUnavailable(player) && !excludedPlayerIds.has(player.id));
+        const starters = available.slice(0, counts[position]);
+        if (!rotate) return starters;
+
+        const backups = available.slice(counts[position]);
+        return starters.map(starter => {
+            const fatigue = starter.fatigue ?? 0;
+            if (fatigue < fatigueConfig.ROTATION_THRESHOLD) return starter;
+            const index = backups.findIndex(backup =>
+                fatigue - (backup.fatigue ?? 0) >= fatigueConfig.ROTATION_MARGIN);
+            return index === -1 ? starter : backups.splice(index, 1)[0];
+        });
+    };
+
+    return {
+        teamId: team.id,
+        quarterback: best('QB')[0] ?? null,
+        receivers: best('WR'),
+        offensiveLine: best('OL'),
+        defensiveLine: best('DL'),
+        cornerbacks: best('CB'),
+    };
+}
+
+/** Short display name for play descriptions, e.g. "A. Blackwood" */
+function formatPlayerName(player: EconomyPlayer): string {
+    return `${player.firstName.charAt(0)}. ${player.lastName}`;
+}
+
+function pickRandom<T>(items: T[]): T | undefined {
+    return items.length > 0 ? items[randomInt(0, items.length - 1)] : undefined;
+}
+
+/** Field goal success chance by kick distance */
+function calculateFieldGoalChance(distance: number): number {
+    return clamp(1.6 - distance * 0.018, 0.3, 0.98);
+}
+
+/**
+ * Simulate a single pass play using the roster clash functions:
+ * pass rush (line clash), coverage (separation clash), the catch
+ * (contested catch clash) and yards after catch (tackle clash).
+ * Each of those is also where the officials can throw a flag.
+ */
+function simulatePassPlay(
+    offense: GameLineup,
+    defense: GameLineup,
+    situation: DriveState,
+    accuracyBonus: number,
+    officials: OfficialsTendencies
+): PassPlayResult {
+    const config = ECONOMY_CONSTANTS.GAME_SIM;
+    const qb = offense.quarterback;
+    const blocker = pickRandom(offense.offensiveLine);
+    const rusher = pickRandom(defense.defensiveLine);
+
+    // Anyone hurt on the play is noted on it; the game takes them out afterwards
+    const hurt: { player: EconomyPlayer; trigger: InjuryTrigger }[] = [];
+    const noteInjuries = (players: EconomyPlayer[], injuredIds: string[], trigger: InjuryTrigger) => {
+        players
+            .filter(player => injuredIds.includes(player.id))
+            .forEach(player => hurt.push({ player, trigger }));
+    };
+    let overPursuer: EconomyPlayer | undefined;
+    let blockHeld: EconomyPlayer | undefined;
+    const finish = (result: PassPlayResult): PassPlayResult => {
+        const play = blockHeld ? { ...result, blockerId: blockHeld.id } : result;
+        const escape = overPursuer ? ` (${formatPlayerName(overPursuer)} over-pursues, QB escapes)` : '';
+        return hurt.length === 0 ? { ...play, description: play.description + escape } : {
+            ...play,
+            injuries: hurt.map(({ player, trigger }) => ({ playerId: player.id, trigger })),
+            description: `${play.description}${escape} (${hurt.map(({ player }) => formatPlayerName(player)).join(', ')} injured)`,
+        };
+    };
+
+    // Fouls before the throw wipe out the play; the down is replayed from the penalty spot
+    const flag = (type: PenaltyType, player: EconomyPlayer, side: GameLineup, spotYards?: number): PassPlayResult => {
+        const penalty = enforcePenalty(type, player, side.teamId, offense.teamId, situation.yardLine, spotYards);
+        return finish({
+            type: 'penalty',
+            yards: getPenaltyYardage(penalty, offense.teamId),
+            penalty,
+            description: describePenalty(penalty, player),
+        });
+    };
+
+    // Pre-snap: a lineman jumps early
+    const offside = defense.defensiveLine.find(lineman => rollPenalty(lineman, 'offsides', officials));
+    if (offside) {
+        return flag('offsides', offside, defense);
+    }
+
+    // Coverage: every receiver runs a route against their matched corner.
+    // An illegal-contact flag in the press stops the play before the throw.
+    const routes = offense.receivers.map((receiver, index) => {
+        const defender = defense.cornerbacks.length > 0
+            ? defense.cornerbacks[index % defense.cornerbacks.length]
+            : undefined;
+        if (!defender) return { receiver, defender, separation: 20, pressFoul: false };
+
+        const release = calculateSeparationClashDetailed(receiver, defender, 'release', officials);
+        const separation = (release.margin * 0.4 +
+            calculateSeparationClash(receiver, defender, 'route') * 0.6) * config.CLASH_WEIGHT.SEPARATION +
+            randomNormal(0, config.PLAY_NOISE.SEPARATION);
+        return { receiver, defender, separation, pressFoul: release.pressFoul };
+    });
+
+    const fouled = routes.find(route => route.pressFoul);
+    if (fouled?.defender) {
+        return flag('illegal_contact', fouled.defender, defense);
+    }
+
+    // Pass rush
+    let pressured = false;
+    if (blocker && rusher) {
+        const clash = calculateLineClashDetailed(blocker, rusher);
+        noteInjuries([blocker, rusher], clash.injuredPlayerIds, 'line');
+        const margin = clash.margin * config.CLASH_WEIGHT.LINE + randomNormal(0, config.PLAY_NOISE.LINE);
+        if (clash.overPursued && margin < config.PRESSURE_MARGIN) {
+            // The rusher won the rep but ran past the QB
+            overPursuer = rusher;
+        } else if (margin < config.PRESSURE_MARGIN && rollPenalty(blocker, 'offensive_holding', officials)) {
+            // Beaten, the blocker grabs the rusher instead
+            return flag('offensive_holding', blocker, offense);
+        } else if (margin < config.SACK_MARGIN) {
+            const yards = -randomInt(3, 9);
+            if (qb && rollClashInjury(qb, rusher, 'sack')) {
+                hurt.push({ player: qb, trigger: 'sack' });
+            }
+            return finish({
+                type: 'sack',
+                yards,
+                passerId: qb?.id,
+                sackerId: rusher.id,
+                tacklerId: rusher.id,
+                description: `${qb ? formatPlayerName(qb) : 'QB'} sacked by ${formatPlayerName(rusher)} ` +
+                    `(${clash.dlAbilityUsed} beat ${clash.olAbilityUsed}) for ${yards} yards`,
+            });
+        }
+        pressured = !overPursuer && margin < config.PRESSURE_MARGIN;
+        if (margin >= config.PRESSURE_MARGIN) blockHeld = blocker;
+    } else if (rusher) {
+        // Nobody to block
+        pressured = true;
+    }
+
+    if (!qb || routes.length === 0) {
+        return finish({ type: 'pass_incomplete', yards: 0, passerId: qb?.id, description: 'Pass falls incomplete' });
+    }
+
+    // The QB finds the most open receiver unless his read is rushed
+    const readQuality = calculateQBAbilities(qb).fieldVision / 100;
+    const target = random() < readQuality * (pressured ? 0.7 : 1)
+        ? routes.reduce((best, route) => route.separation > best.separation ? route : best)
+        : (pickRandom(routes) as typeof routes[number]);
+
+    let accuracy = calculateWeightedRoll(qb, { throwing: 0.6, awareness: 0.4 }) * accuracyBonus;
+    if (pressured) accuracy *= config.PRESSURE_ACCURACY;
+    const accuracyEdge = (accuracy - 70) / 200;
+
+    const depthRoll = random();
+    const depth = depthRoll < config.DEPTH_WEIGHTS.short ? 'short'
+        : depthRoll < config.DEPTH_WEIGHTS.short + config.DEPTH_WEIGHTS.medium ? 'medium'
+        : 'deep';
+    const airRange = config.AIR_YARDS[depth];
+    const airYards = randomInt(airRange.min, airRange.max);
+    // Deeper throws are harder to complete
+    const depthPenalty = depth === 'deep' ? 0.2 : depth === 'medium' ? 0.08 : 0;
+
+    const passer = formatPlayerName(qb);
+    const receiverName = formatPlayerName(target.receiver);
+    let caught: boolean;
+
+    // Late hits: roughing a pressured passer, or a personal foul after the tackle.
+    // The play stands and the foul is walked off from where it ended. On a
+    // touchdown or a lost fumble it would carry over to the next possession,
+    // which isn't modelled.
+    const addLateHit = (play: PassPlayResult, tackler?: EconomyPlayer): PassPlayResult => {
+        const end = situation.yardLine + play.yards;
+        if (end >= 100 || play.fumble === 'lost') return play;
+
+        const lateHit = pressured && rusher && rollPenalty(rusher, 'roughing_the_passer', officials)
+            ? { type: 'roughing_the_passer' as const, player: rusher }
+            : tackler && rollPenalty(tackler, 'personal_foul', officials)
+                ? { type: 'personal_foul' as const, player: tackler }
+                : undefined;
+        if (!lateHit) return play;
+
+        const penalty = enforcePenalty(lateHit.type, lateHit.player, defense.teamId, offense.teamId, Math.max(1, end));
+        return { ...play, penalty, description: `${play.description} - ${describePenalty(penalty, lateHit.player)}` };
+    };
+
+    if (target.separation >= config.OPEN_SEPARATION || !target.defender) {
+        caught = random() < config.OPEN_COMPLETION_BASE + accuracyEdge - depthPenalty;
+    } else {
+        const contest = calculateContestedCatchClash(target.receiver, target.defender) * config.CLASH_WEIGHT.CONTEST +
+            target.separation / 60 + accuracyEdge - depthPenalty +
+            randomNormal(0, config.PLAY_NOISE.CONTEST);
+
+        const intercepted = contest < config.INTERCEPTION_THRESHOLD && random() < config.INTERCEPTION_CHANCE;
+        caught = !intercepted && contest > config.CONTESTED_CATCH_THRESHOLD;
+
+        // A beaten corner may grab the receiver instead - spotted where the ball was headed
+        if (!caught && rollPenalty(target.defender, 'pass_interference', officials)) {
+            return flag('pass_interference', target.defender, defense, airYards);
+        }
+
+        if (intercepted) {
+            return finish({
+                type: 'interception',
+                yards: 0,
+                passerId: qb.id,
+                receiverId: target.receiver.id,
+                defenderId: target.defender.id,
+                description: `${passer} pass intended for ${receiverName} INTERCEPTED by ${formatPlayerName(target.defender)}`,
+            });
+        }
+    }
+
+    if (!caught) {
+        return finish(addLateHit({
+            type: 'pass_incomplete',
+            yards: 0,
+            passerId: qb.id,
+            receiverId: target.receiver.id,
+            defenderId: target.defender?.id,
+            description: target.defender
+                ? `${passer} pass ${depth} to ${receiverName} incomplete, defended by ${formatPlayerName(target.defender)}`
+                : `${passer} pass ${depth} to ${receiverName} incomplete`,
+        }));
+    }
+
+    // Yards after catch: the nearest defender gets a shot, then help arrives
+    let yardsAfterCatch = 0;
+    let tackler: EconomyPlayer | undefined;
+    let bigHit = false;
+    let fumble: 'lost' | 'recovered' | undefined;
+    const tacklers = [target.defender, pickRandom(defense.cornerbacks), pickRandom(defense.cornerbacks)]
+        .filter((player): player is EconomyPlayer => player !== undefined);
+
+    for (const defender of tacklers) {
+        const clash = calculateTackleClashDetailed(defender, target.receiver);
+        noteInjuries([target.receiver, defender], clash.injuredPlayerIds, 'tackle');
+        const holdChance = clash.tackled
+            ? config.TACKLE_HOLD_CHANCE.WON
+            : config.TACKLE_HOLD_CHANCE.LOST;
+        // A hurt receiver, or one taking a big hit, goes down where they are hit
+        if (clash.bigHit || clash.injuredPlayerIds.includes(target.receiver.id) || random() < holdChance) {
+            yardsAfterCatch += clash.bigHit ? 0 : randomInt(0, 3);
+            tackler = defender;
+            bigHit = clash.bigHit;
+            if (clash.forcedFumble) {
+                fumble = random() < config.FUMBLE_LOST_CHANCE ? 'lost' : 'recovered';
+            }
+            break;
+        }
+        yardsAfterCatch += randomInt(2, 7);
+    }
+
+    const yards = airYards + yardsAfterCatch;
+    const fumbleNote = fumble
+        ? ` - FUMBLE, recovered by the ${fumble === 'lost' ? 'defense' : 'offense'}`
+        : '';
+    return finish(addLateHit({
+        type: 'pass_complete',
+        yards,
+        passerId: qb.id,
+        receiverId: target.receiver.id,
+        defenderId: target.defender?.id,
+        tacklerId: tackler?.id,
+        bigHit: bigHit || undefined,
+        fumble,
+        description: `${passer} pass ${depth} to ${receiverName} for ${yards} yards` +
+            (tackler ? ` (${bigHit ? 'big hit' : 'tackled'} by ${formatPlayerName(tackler)})` : '') +
+            fumbleNote,
+    }, tackler));
+}
+
+/**
+ * Play one possession and append its plays to the log
+ */
+function simulateDrive(
+    offense: GameLineup,
+    defense: GameLineup,
+    driveNumber: number,
+    startYardLine: number,
+    accuracyBonus: number,
+    officials: OfficialsTendencies,
+    playLog: PlayLogEntry[],
+    onPlay: (play: PlayLogEntry) => void = () => undefined
+): { drive: DriveResult; nextStartYardLine: number } {
+    const config = ECONOMY_CONSTANTS.GAME_SIM;
+    const state: DriveState = { yardLine: startYardLine, down: 1, distance: 10 };
+    let plays = 0;
+
+    const finish = (outcome: DriveOutcome, points: number, nextStartYardLine: number) => ({
+        drive: {
+            driveNumber,
+            offenseTeamId: offense.teamId,
+            startYardLine,
+            plays,
+            yards: state.yardLine - startYardLine,
+            outcome,
+            points,
+        },
+        nextStartYardLine,
+    });
+
+    const log = (entry: Omit<PlayLogEntry, 'driveNumber' | 'offenseTeamId' | 'defenseTeamId' | 'yardLine' | 'down' | 'distance'>) => {
+        const play: PlayLogEntry = {
+            driveNumber,
+            offenseTeamId: offense.teamId,
+            defenseTeamId: defense.teamId,
+            yardLine: state.yardLine,
+            down: state.down,
+            distance: state.distance,
+            ...entry,
+        };
+        playLog.push(play);
+        onPlay(play);
+    };
+
+    while (plays < config.MAX_PLAYS_PER_DRIVE) {
+        // Fourth down: kick, punt or go for it
+        if (state.down === 4) {
+            const kickDistance = 100 - state.yardLine + 17;
+            const goForIt = state.distance <= 2 && state.yardLine >= 45 && kickDistance > config.MAX_FIELD_GOAL - 5;
+
+            if (!goForIt && kickDistance <= config.MAX_FIELD_GOAL) {
+                plays++;
+                const made = random() < calculateFieldGoalChance(kickDistance);
+                log({
+                    type: made ? 'field_goal' : 'missed_field_goal',
+                    yards: 0,
+                    touchdown: false,
+                    firstDown: false,
+                    description: `${kickDistance}-yard field goal ${made ? 'is GOOD' : 'is NO GOOD'}`,
+                });
+                return made
+                    ? finish('field_goal', 3, config.TOUCHBACK_YARD_LINE)
+                    : finish('missed_field_goal', 0, Math.max(config.TOUCHBACK_YARD_LINE, 100 - state.yardLine - 7));
+            }
+
+            if (!goForIt) {
+                plays++;
+                const puntDistance = randomInt(config.PUNT_DISTANCE.min, config.PUNT_DISTANCE.max);
+                const landingSpot = state.yardLine + puntDistance;
+                log({
+                    type: 'punt',
+                    yards: 0,
+                    touchdown: false,
+                    firstDown: false,
+                    description: landingSpot >= 100 ? 'Punt into the end zone for a touchback' : `Punt ${puntDistance} yards`,
+                });
+                return finish('punt', 0, landingSpot >= 100 ? 20 : 100 - landingSpot);
+            }
+        }
+
+        plays++;
+        const play = simulatePassPlay(offense, defense, state, accuracyBonus, officials);
+
+        if (play.type === 'interception') {
+            log({ ...play, touchdown: false, firstDown: false });
+            const returnSpot = clamp(state.yardLine + randomInt(5, 20), 1, 99);
+            return finish('turnover', 0, 100 - returnSpot);
+        }
+
+        if (play.type === 'penalty') {
+            // The down is replayed from the penalty spot unless the foul moves the chains
+            const firstDown = play.yards > 0 && (play.penalty?.automaticFirstDown === true || play.yards >= state.distance);
+            log({ ...play, touchdown: false, firstDown });
+            state.yardLine += play.yards;
+            if (firstDown) {
+                state.down = 1;
+                state.distance = Math.min(10, 100 - state.yardLine);
+            } else {
+                state.distance -= play.yards;
+            }
+            continue;
+        }
+
+        if (play.fumble === 'lost') {
+            const spot = Math.min(99, state.yardLine + play.yards);
+            log({ ...play, yards: spot - state.yardLine, touchdown: false, firstDown: false });
+            state.yardLine = spot;
+            return finish('turnover', 0, 100 - spot);
+        }
+
+        const newYardLine = state.yardLine + play.yards;
+        const touchdown = newYardLine >= 100;
+        // A late hit is walked off from where the play ended
+        const penaltyYards = play.penalty ? getPenaltyYardage(play.penalty, offense.teamId) : 0;
+        const gained = play.yards + penaltyYards;
+        const firstDown = !touchdown && (gained >= state.distance || play.penalty?.automaticFirstDown === true);
+        log({
+            ...play,
+            yards: touchdown ? 100 - state.yardLine : play.yards,
+            touchdown,
+            firstDown,
+            description: touchdown ? `${play.description} - TOUCHDOWN` : play.description,
+        });
+
+        if (touchdown) {
+            state.yardLine = 100;
+            return finish('touchdown', 7, config.TOUCHBACK_YARD_LINE);
+        }
+
+        state.yardLine = Math.max(1, newYardLine) + penaltyYards;
+
+        if (firstDown) {
+            state.down = 1;
+            state.distance = Math.min(10, 100 - state.yardLine);
+        } else if (state.down === 4) {
+            log({
+                type: 'turnover_on_downs',
+                yards: 0,
+                touchdown: false,
+                firstDown: false,
+                description: 'Turnover on downs',
+            });
+            return finish('turnover_on_downs', 0, 100 - state.yardLine);
+        } else {
+            state.down++;
+            state.distance -= gained;
+        }
+    }
+
+    return finish('end_of_half', 0, config.TOUCHBACK_YARD_LINE);
+}
+
+/**
+ * Summarise one team's side of the play log
+ */
+function buildTeamBoxScore(teamId: string, points: number, playLog: PlayLogEntry[]): TeamBoxScore {
+    const box: TeamBoxScore = {
+        teamId,
+        points,
+        plays: 0,
+        totalYards: 0,
+        passAttempts: 0,
+        completions: 0,
+        passingYards: 0,
+        sacksAllowed: 0,
+        sackYardsLost: 0,
+        interceptionsThrown: 0,
+        fumblesLost: 0,
+        penalties: 0,
+        penaltyYards: 0,
+        firstDowns: 0,
+        touchdowns: 0,
+        fieldGoalsMade: 0,
+        fieldGoalsAttempted: 0,
+        punts: 0,
+    };
+
+    playLog
+        .filter(play => play.offenseTeamId === teamId)
+        .forEach(play => {
+            switch (play.type) {
+                case 'pass_complete':
+                    box.passAttempts++;
+                    box.completions++;
+                    box.passingYards += play.yards;
+                    break;
+                case 'pass_incomplete':
+                    box.passAttempts++;
+                    break;
+                case 'interception':
+                    box.passAttempts++;
+                    box.interceptionsThrown++;
+                    break;
+                case 'sack':
+                    box.sacksAllowed++;
+                    box.sackYardsLost -= play.yards;
+                    break;
+                case 'field_goal':
+                    box.fieldGoalsAttempted++;
+                    box.fieldGoalsMade++;
+                    break;
+                case 'missed_field_goal':
+                    box.fieldGoalsAttempted++;
+                    break;
+                case 'punt':
+                    box.punts++;
+                    break;
+            }
+
+            if (play.type === 'pass_complete' || play.type === 'pass_incomplete' ||
+                play.type === 'interception' || play.type === 'sack') {
+                box.plays++;
+                box.totalYards += play.yards;
+            }
+            if (play.fumble === 'lost') box.fumblesLost++;
+            if (play.firstDown) box.firstDowns++;
+            if (play.touchdown) box.touchdowns++;
+        });
+
+    playLog
+        .filter(play => play.penalty?.teamId === teamId)
+        .forEach(play => {
+            box.penalties++;
+            box.penaltyYards += play.penalty?.yards ?? 0;
+        });
+
+    return box;
+}
+
+/**
+ * Build per-player stat lines from the play log.
+ * Offensive stats go to the passer, receiver and the blocker who held up;
+ * defensive stats to the covering corner, tackler and pass rusher. Everyone
+ * who took a snap gets a line, even without a counting stat.
+ * @param snapCounts - Snaps on the field by player id
+ */
+export function buildPlayerBoxScore(
+    home: Team,
+    away: Team,
+    playLog: PlayLogEntry[],
+    snapCounts: Record<string, number> = {}
+): PlayerGameStats[] {
+    const lines = new Map<string, PlayerGameStats>();
+    const rosterIndex = new Map<string, { teamId: string; position: Position }>();
+    [home, away].forEach(team => {
+        team.roster.forEach(player => rosterIndex.set(player.id, { teamId: team.id, position: player.position }));
+    });
+
+    const line = (playerId: string | undefined): PlayerGameStats | null => {
+        if (!playerId) return null;
+        const existing = lines.get(playerId);
+        if (existing) return existing;
+
+        const info = rosterIndex.get(playerId);
+        if (!info) return null;
+        const created: PlayerGameStats = {
+            playerId,
+            teamId: info.teamId,
+            position: info.position,
+            snaps: 0,
+            passAttempts: 0,
+            completions: 0,
+            passingYards: 0,
+            passingTouchdowns: 0,
+            interceptionsThrown: 0,
+            sacksTaken: 0,
+            targets: 0,
+            catches: 0,
+            receivingYards: 0,
+            receivingTouchdowns: 0,
+            tackles: 0,
+            sacks: 0,
+            interceptions: 0,
+            passesDefended: 0,
+            blocksWon: 0,
+        };
+        lines.set(playerId, created);
+        return created;
+    };
+
+    playLog.forEach(play => {
+        const passer = line(play.passerId);
+        const receiver = line(play.receiverId);
+        const defender = line(play.defenderId);
+
+        switch (play.type) {
+            case 'pass_complete':
+                if (passer) {
+                    passer.passAttempts++;
+                    passer.completions++;
+                    passer.passingYards += play.yards;
+                    if (play.touchdown) passer.passingTouchdowns++;
+                }
+                if (receiver) {
+                    receiver.targets++;
+                    receiver.catches++;
+                    receiver.receivingYards += play.yards;
+                    if (play.touchdown) receiver.receivingTouchdowns++;
+                }
+                break;
+            case 'pass_incomplete':
+                if (passer) passer.passAttempts++;
+                if (receiver) receiver.targets++;
+                if (defender) defender.passesDefended++;
+                break;
+            case 'interception':
+                if (passer) {
+                    passer.passAttempts++;
+                    passer.interceptionsThrown++;
+                }
+                if (receiver) receiver.targets++;
+                if (defender) defender.interceptions++;
+                break;
+            case 'sack':
+                if (passer) passer.sacksTaken++;
+                break;
+        }
+
+        const tackler = line(play.tacklerId);
+        if (tackler) tackler.tackles++;
+        const sacker = line(play.sackerId);
+        if (sacker) sacker.sacks++;
+        const blocker = line(play.blockerId);
+        if (blocker) blocker.blocksWon++;
+    });
+
+    Object.entries(snapCounts)
+        .filter(([, snaps]) => snaps > 0)
+        .forEach(([playerId, snaps]) => {
+            const player = line(playerId);
+            if (player) player.snaps = snaps;
+        });
+
+    return Array.from(lines.values())
+        .sort((a, b) => Number(b.teamId === home.id) - Number(a.teamId === home.id));
+}
+
+/** Play types that are snaps (kicks are not) */
+const SNAP_TYPES: PlayType[] = ['pass_complete', 'pass_incomplete', 'interception', 'sack', 'penalty'];
+
+/**
+ * Simulate a full game between two teams, drive by drive.
+ * Usable for both regular-season and playoff games; playoff games
+ * (allowTies: false) keep playing overtime possessions until someone leads.
+ * Players tire on every snap they're on the field and rest off it; tired
+ * starters rotate out between drives. Fatigue only lives for the game.
+ */
+export function simulateGame(
+    home: Team,
+    away: Team,
+    options: GameSimulationOptions = {}
+): GameSimulationResult {
+    const config = ECONOMY_CONSTANTS.GAME_SIM;
+    const allowTies = options.allowTies ?? true;
+    const officials = options.officials ?? ECONOMY_CONSTANTS.PENALTIES.DEFAULT_OFFICIALS;
+    const players = [...home.roster, ...away.roster];
+    players.forEach(player => {
+        player.fatigue = calculateKickoffFatigue(player);
+    });
+    const lineups: Record<string, GameLineup> = {
+        [home.id]: buildGameLineup(home, new Set(), true),
+        [away.id]: buildGameLineup(away, new Set(), true),
+    };
+    const accuracyBonus: Record<string, number> = {
+        [home.id]: config.HOME_FIELD_BONUS,
+        [away.id]: 1,
+    };
+
+    const score: Record<string, number> = { [home.id]: 0, [away.id]: 0 };
+    const drives: DriveResult[] = [];
+    const playLog: PlayLogEntry[] = [];
+
+    // Injured players are out for the rest of the game and a backup takes their spot
+    const injuries: GameInjury[] = [];
+    const injuredIds = new Set<string>();
+    const onInjuries = (playInjuries: PlayInjury[]) => {
+        playInjuries.forEach(({ playerId, trigger }) => {
+            if (injuredIds.has(playerId)) return;
+            const team = home.roster.some(player => player.id === playerId) ? home : away;
+            injuredIds.add(playerId);
+            injuries.push({ playerId, teamId: team.id, driveNumber: drives.length + 1, injury: generateInjury(trigger) });
+            Object.assign(lineups[team.id], buildGameLineup(team, injuredIds, true));
+        });
+    };
+
+    // The offense's skill players and line and the defense's front and corners
+    // are on the field; everyone else rests
+    const snapCounts: Record<string, number> = {};
+    const onPlay = (play: PlayLogEntry) => {
+        if (SNAP_TYPES.includes(play.type)) {
+            const offense = lineups[play.offenseTeamId];
+            const defense = lineups[play.defenseTeamId];
+            const onField = new Set([
+                offense.quarterback,
+                ...offense.receivers,
+                ...offense.offensiveLine,
+                ...defense.defensiveLine,
+                ...defense.cornerbacks,
+            ].map(player => player?.id));
+
+            players.forEach(player => {
+                if (onField.has(player.id)) {
+                    snapCounts[player.id] = (snapCounts[player.id] ?? 0) + 1;
+                    addSnapFatigue(player);
+                } else {
+                    recoverSnapFatigue(player);
+                }
+            });
+        }
+        if (play.injuries) onInjuries(play.injuries);
+    };
+
+    // Coin toss decides who receives first
+    let offenseId = random() < 0.5 ? home.id : away.id;
+    let startYardLine = config.TOUCHBACK_YARD_LINE;
+
+    const playPossession = () => {
+        const defenseId = offenseId === home.id ? away.id : home.id;
+        // Substitutions between series
+        Object.assign(lineups[home.id], buildGameLineup(home, injuredIds, true));
+        Object.assign(lineups[away.id], buildGameLineup(away, injuredIds, true));
+        const { drive, nextStartYardLine } = simulateDrive(
+            lineups[offenseId],
+            lineups[defenseId],
+            drives.length + 1,
+            startYardLine,
+            accuracyBonus[offenseId],
+            officials,
+            playLog,
+            onPlay
+        );
+        drives.push(drive);
+        score[offenseId] += drive.points;
+        offenseId = defenseId;
+        startYardLine = nextStartYardLine;
+    };
+
+    for (let i = 0; i < config.DRIVES_PER_TEAM * 2; i++) {
+        playPossession();
+    }
+
+    // Overtime: paired possessions until someone leads
+    let overtime = false;
+    let overtimeDrives = 0;
+    while (score[home.id] === score[away.id]) {
+        if (allowTies && overtimeDrives >= config.OVERTIME_DRIVES * 2) break;
+        if (overtimeDrives >= config.MAX_OVERTIME_DRIVES * 2) {
+            // Neither offense can move the ball - settle it with a long kick
+            const kickerTeamId = random() < 0.5 ? home.id : away.id;
+            score[kickerTeamId] += 3;
+            playLog.push({
+                driveNumber: drives.length,
+                offenseTeamId: kickerTeamId,
+                defenseTeamId: kickerTeamId === home.id ? away.id : home.id,
+                type: 'field_goal',
+                yards: 0,
+                yardLine: 100 - config.MAX_FIELD_GOAL + 17,
+                down: 4,
+                distance: 10,
+                touchdown: false,
+                firstDown: false,
+                description: `${config.MAX_FIELD_GOAL}-yard field goal is GOOD`,
+            });
+            break;
+        }
+        overtime = true;
+        startYardLine = config.TOUCHBACK_YARD_LINE;
+        playPossession();
+        playPossession();
+        overtimeDrives += 2;
+    }
+
+    players.forEach(player => {
+        delete player.fatigue;
+    });
+
+    return {
+        homeTeamId: home.id,
+        awayTeamId: away.id,
+        homeScore: score[home.id],
+        awayScore: score[away.id],
+        overtime,
+        drives,
+        playLog,
+        boxScore: {
+            home: buildTeamBoxScore(home.id, score[home.id], playLog),
+            away: buildTeamBoxScore(away.id, score[away.id], playLog),
+            players: buildPlayerBoxScore(home, away, playLog, snapCounts),
+        },
+        injuries,
+        snapCounts,
+    };
+}
+
+// ============================================================================
+// CAREER HISTORY
+// ============================================================================
+
+/** Production counters tracked per game, season and career */
+export type PlayerProductionStats = Omit<PlayerGameStats, 'playerId' | 'teamId' | 'position'>;
+
+/** One archived season of a player's career */
+export interface PlayerSeasonRecord {
+    season: number;
+    /** Age during the season */
+    age: number;
+    teamId: string;
+    teamName: string;
+    /** Regular-season and exhibition games */
+    gamesPlayed: number;
+    playoffGames: number;
+    /** Production across every game played, playoffs included */
+    stats: PlayerProductionStats;
+    fameEarned: number;
+    /** Overall rating at the end of the season */
+    overall: number;
+    /** Contract held at the end of the season */
+    contract?: ContractData;
+    playoffFinish?: PlayoffFinish;
+    /** Awards won this season */
+    awards?: AwardType[];
+}
+
+/** Career-long totals */
+export interface PlayerCareerTotals extends PlayerProductionStats {
+    seasons: number;
+    gamesPlayed: number;
+    playoffGames: number;
+    fameEarned: number;
+}
+
+/** A player's archived seasons plus running totals */
+export interface PlayerCareerHistory {
+    seasons: PlayerSeasonRecord[];
+    totals: PlayerCareerTotals;
+}
+
+/** Season metrics a best-season query can rank by */
+export type SeasonMetric = keyof PlayerProductionStats | 'fameEarned' | 'gamesPlayed';
+
+/**
+ * Zeroed production counters
+ */
+export function createEmptyProductionStats(): PlayerProductionStats {
+    return {
+        snaps: 0,
+        passAttempts: 0,
+        completions: 0,
+        passingYards: 0,
+        passingTouchdowns: 0,
+        interceptionsThrown: 0,
+        sacksTaken: 0,
+        targets: 0,
+        catches: 0,
+        receivingYards: 0,
+        receivingTouchdowns: 0,
+        tackles: 0,
+        sacks: 0,
+        interceptions: 0,
+        passesDefended: 0,
+        blocksWon: 0,
+    };
+}
+
+/**
+ * Create an empty career history
+ */
+export function createCareerHistory(): PlayerCareerHistory {
+    return {
+        seasons: [],
+        totals: { ...createEmptyProductionStats(), seasons: 0, gamesPlayed: 0, playoffGames: 0, fameEarned: 0 },
+    };
+}
+
+/**
+ * Add one set of production counters onto another. Counters missing from
+ * either side (lines saved before a stat existed) count as zero.
+ */
+function addProductionStats(target: PlayerProductionStats, source: PlayerProductionStats): void {
+    (Object.keys(createEmptyProductionStats()) as (keyof PlayerProductionStats)[]).forEach(key => {
+        target[key] = (target[key] ?? 0) + (source[key] ?? 0);
+    });
+}
+
+/**
+ * Close out a player's season: summarise the game log into a season record,
+ * add it to the career history and clear the game log for next season.
+ * Call before resetting season fame earnings.
+ */
+export function archivePlayerSeason(player: EconomyPlayer, team: Team, season: number): PlayerSeasonRecord {
+    const games = (player.gameLog ?? []).filter(entry => entry.season === season);
+    const stats = createEmptyProductionStats();
+    games.forEach(entry => addProductionStats(stats, entry.stats));
+
+    const record: PlayerSeasonRecord = {
+        season,
+        age: player.age,
+        teamId: team.id,
+        teamName: team.name,
+        gamesPlayed: games.filter(entry => entry.playoffRound === undefined).length,
+        playoffGames: games.filter(entry => entry.playoffRound !== undefined).length,
+        stats,
+        fameEarned: player.hypeData.seasonFameEarnings,
+        overall: player.overall,
+        contract: player.contractData
+            ? { ...player.contractData, salarySchedule: [...player.contractData.salarySchedule] }
+            : undefined,
+        playoffFinish: team.playoffFinish,
+    };
+
+    const history = player.careerHistory ?? createCareerHistory();
+    history.seasons.push(record);
+    addProductionStats(history.totals, stats);
+    history.totals.seasons++;
+    history.totals.gamesPlayed += record.gamesPlayed;
+    history.totals.playoffGames += record.playoffGames;
+    history.totals.fameEarned += record.fameEarned;
+
+    player.careerHistory = history;
+    player.gameLog = [];
+    return record;
+}
+
+/**
+ * Get a player's career totals (zeroed for players with no archived seasons)
+ */
+export function getCareerTotals(player: EconomyPlayer): PlayerCareerTotals {
+    return { ...(player.careerHistory ?? createCareerHistory()).totals };
+}
+
+/**
+ * Find the archived season with the highest value for a metric.
+ * Ties go to the earlier season.
+ */
+export function getBestSeason(
+    player: EconomyPlayer,
+    metric: SeasonMetric = 'fameEarned'
+): PlayerSeasonRecord | null {
+    const value = (record: PlayerSeasonRecord) =>
+        metric === 'fameEarned' || metric === 'gamesPlayed' ? record[metric] : record.stats[metric];
+
+    return (player.careerHistory?.seasons ?? []).reduce<PlayerSeasonRecord | null>(
+        (best, record) => (best === null || value(record) > value(best) ? record : best),
+        null
+    );
+}
+
+/**
+ * Fame earned in each archived season, oldest first
+ */
+export function getFamePerSeason(player: EconomyPlayer): { season: number; teamId: string; fameEarned: number }[] {
+    return (player.careerHistory?.seasons ?? []).map(record => ({
+        season: record.season,
+        teamId: record.teamId,
+        fameEarned: record.fameEarned,
+    }));
+}
+
+// ============================================================================
+// PLAYER PROGRESSION
+// ============================================================================
+
+/** Where a player is in their career arc */
+export type CareerPhase = 'developing' | 'prime' | 'declining';
+
+/** One stat's offseason change */
+export interface StatChange {
+    stat: keyof PlayerStats;
+    oldValue: number;
+    newValue: number;
+    change: number;
+}
+
+/** Everything that changed for one player in the offseason */
+export interface PlayerProgressionReport {
+    playerId: string;
+    playerName: string;
+    position: Position;
+    /** Age the changes were applied at */
+    age: number;
+    phase: CareerPhase;
+    /** Share of the team's snaps played last season (0-1) */
+    playingTime: number;
+    /** Growth multiplier from last season's performance */
+    performanceFactor: number;
+    /** Stats that moved, biggest change first */
+    statChanges: StatChange[];
+    coreAttributeGrowth: CoreAttributeGrowthResult | null;
+    overall: { oldValue: number; newValue: number; change: number };
+    potentialGrade: { oldValue: number; newValue: number };
+    salaryCost: { oldValue: number; newValue: number };
+}
+
+/** Stats driven by the body; they fade first */
+const PHYSICAL_STATS: (keyof PlayerStats)[] = [
+    'speed', 'acceleration', 'agility', 'strength', 'stamina', 'balance', 'hitPower',
+];
+
+/** Stats driven by the mind; they keep improving with experience */
+const MENTAL_STATS: (keyof PlayerStats)[] = ['awareness', 'focus'];
+
+/**
+ * Career phase at an age: developing until PRIME_YEARS before peakAge,
+ * prime through peakAge, declining after
+ */
+export function getCareerPhase(player: EconomyPlayer, age: number = player.age): CareerPhase {
+    if (age > player.peakAge) return 'declining';
+    if (age > player.peakAge - ECONOMY_CONSTANTS.PROGRESSION.PRIME_YEARS) return 'prime';
+    return 'developing';
+}
+
+/**
+ * Share of a season a player was on the field (0-1): their snaps against a
+ * full-time workload over the team's games. Seasons archived before snaps
+ * were counted fall back to games played.
+ * @param teamGames - Regular-season games the player's team played (0 if unknown: counts as full time)
+ */
+export function calculatePlayingTime(lastSeason: PlayerSeasonRecord | undefined, teamGames: number): number {
+    if (teamGames <= 0) return 1;
+    if (!lastSeason) return 0;
+    const snaps = lastSeason.stats.snaps;
+    return typeof snaps === 'number'
+        ? clamp(snaps / (teamGames * ECONOMY_CONSTANTS.PROGRESSION.FULL_GAME_SNAPS), 0, 1)
+        : clamp(lastSeason.gamesPlayed / teamGames, 0, 1);
+}
+
+/**
+ * Highest potential grade a player can still hold at an age
+ */
+export function getPotentialCap(player: EconomyPlayer, age: number = player.age): number {
+    if (age > player.peakAge) return 0;
+    const cap = ECONOMY_CONSTANTS.PROGRESSION.POTENTIAL_AGE_CAPS.find(entry => age <= entry.maxAge);
+    return cap ? cap.grade : 1;
+}
+
+/**
+ * Apply one offseason of progression to a player (call after the season has
+ * been archived and the player has aged). Developing players grow toward their
+ * potential, more so with snaps played and a strong season; prime players hold
+ * steady; players past peakAge decline, physical stats first and speed
+ * positions hardest. Also rolls core attribute growth and recomputes overall,
+ * potential and salaryCost.
+ * @param lastSeason - The season just archived, for playing time and performance
+ * @param teamGames - Regular-season games the player's team played (0 if unknown)
+ */
+export function progressPlayer(
+    player: EconomyPlayer,
+    lastSeason?: PlayerSeasonRecord,
+    teamGames: number = 0
+): PlayerProgressionReport {
+    const config = ECONOMY_CONSTANTS.PROGRESSION;
+    const phase = getCareerPhase(player);
+    const oldOverall = player.overall;
+    const oldPotential = player.potentialGrade;
+    const oldSalaryCost = player.salaryCost;
+
+    const gamesPlayed = lastSeason?.gamesPlayed ?? 0;
+    const playingTime = calculatePlayingTime(lastSeason, teamGames);
+    const famePerGame = gamesPlayed > 0 && !config.UNRATED_POSITIONS.includes(player.position)
+        ? (lastSeason?.fameEarned ?? 0) / gamesPlayed
+        : config.PERFORMANCE_BASELINE;
+    const performanceFactor = 1 + clamp(famePerGame / config.PERFORMANCE_BASELINE - 1, -1, 1) * config.PERFORMANCE_SWING;
+
+    const primaryStats = POSITION_PRIMARY_STATS[player.position];
+    const groupOf = (stat: keyof PlayerStats): 'physical' | 'skill' | 'mental' =>
+        PHYSICAL_STATS.includes(stat) ? 'physical' : MENTAL_STATS.includes(stat) ? 'mental' : 'skill';
+
+    let baseChange = 0;
+    if (phase === 'developing') {
+        const growth = config.BASE_GROWTH + player.potentialGrade * config.GROWTH_PER_POTENTIAL;
+        const playingTimeFactor = config.BENCH_GROWTH + (1 - config.BENCH_GROWTH) * playingTime;
+        baseChange = growth * playingTimeFactor * performanceFactor;
+    } else if (phase === 'declining') {
+        const yearsPastPeak = player.age - player.peakAge;
+        baseChange = -(config.DECLINE_BASE + (yearsPastPeak - 1) * config.DECLINE_PER_YEAR) *
+            config.POSITION_DECLINE[player.position];
+    }
+
+    const statChanges: StatChange[] = [];
+    (Object.keys(player.stats) as (keyof PlayerStats)[]).forEach(stat => {
+        const oldValue = player.stats[stat];
+        if (oldValue === undefined) return;
+
+        let expected = 0;
+        if (phase === 'developing') {
+            expected = baseChange * config.GROWTH_WEIGHTS[groupOf(stat)] *
+                (primaryStats.includes(stat) ? 1 : config.SECONDARY_GROWTH);
+        } else if (phase === 'declining') {
+            // Negative base, so a negative weight (mental stats) still improves
+            expected = -Math.abs(baseChange) * config.DECLINE_WEIGHTS[groupOf(stat)];
+        }
+        const noise = randomNormal(0, phase === 'prime' ? config.STAT_NOISE / 2 : config.STAT_NOISE);
+        const newValue = clamp(Math.round(oldValue + expected + noise), 30, 99);
+
+        if (newValue !== oldValue) {
+            player.stats[stat] = newValue;
+            statChanges.push({ stat, oldValue, newValue, change: newValue - oldValue });
+        }
+    });
+    statChanges.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+    const coreAttributeGrowth = processCoreAttributeGrowth(player);
+
+    player.overall = calculateOverallRating(player.stats, player.position);
+    player.potentialGrade = Math.min(player.potentialGrade, getPotentialCap(player));
+    player.salaryCost = calculatePlayerCost(player);
+
+    return {
+        playerId: player.id,
+        playerName: `${player.firstName} ${player.lastName}`,
+        position: player.position,
+        age: player.age,
+        phase,
+        playingTime,
+        performanceFactor,
+        statChanges,
+        coreAttributeGrowth,
+        overall: { oldValue: oldOverall, newValue: player.overall, change: player.overall - oldOverall },
+        potentialGrade: { oldValue: oldPotential, newValue: player.potentialGrade },
+        salaryCost: { oldValue: oldSalaryCost, newValue: player.salaryCost },
+    };
+}
+
+// ============================================================================
+// AWARDS, RETIREMENT & HALL OF FAME
+// ============================================================================
+
+/** Season awards */
+export type AwardType = 'mvp' | 'all_league';
+
+/** One award given at the end of a season */
+export interface SeasonAward {
+    season: number;
+    award: AwardType;
+    playerId: string;
+    playerName: string;
+    position: Position;
+    teamId: string;
+    fameEarned: number;
+}
+
+/** Why a player retired */
+export type RetirementReason = 'age' | 'declining_skills' | 'unsigned';
+
+/** A retirement decision */
+export interface RetirementDecision {
+    retires: boolean;
+    chance: number;
+    reason: RetirementReason;
+}
+
+/** Hall of fame standing of a retired player */
+export interface HallOfFameStatus {
+    status: 'waiting' | 'on_ballot' | 'inducted' | 'dropped';
+    score: number;
+    /** Ballots appeared on so far */
+    ballots: number;
+    inductedSeason?: number;
+}
+
+/** A player in the league-wide retired archive */
+export interface RetiredPlayer {
+    /** The player as they retired, career history included */
+    player: EconomyPlayer;
+    retiredSeason: number;
+    age: number;
+    /** Last team played for (undefined if they retired as a free agent) */
+    teamId?: string;
+    teamName?: string;
+    reason: RetirementReason;
+    careerTotals: PlayerCareerTotals;
+    titles: number;
+    mvpAwards: number;
+    allLeagueAwards: number;
+    hallOfFame: HallOfFameStatus;
+}
+
+/** Retirement news for the UI */
+export interface RetirementAnnouncement {
+    playerId: string;
+    playerName: string;
+    position: Position;
+    age: number;
+    season: number;
+    teamId?: string;
+    teamName?: string;
+    reason: RetirementReason;
+    seasonsPlayed: number;
+    careerFame: number;
+    message: string;
+}
+
+/** Everything processEndOfSeason did */
+export interface EndOfSeasonReport {
+    season: number;
+    awards: SeasonAward[];
+    progression: PlayerProgressionReport[];
+    retirements: RetirementAnnouncement[];
+    hallOfFameInductees: RetiredPlayer[];
+}
+
+/**
+ * Pick the season's awards: MVP for the top fame earner and an All-League
+ * team with a full lineup's worth of players at each position. Positions
+ * that earn no fame are ranked by blocks won instead.
+ * Call before the season is archived (it reads the game logs).
+ */
+export function selectSeasonAwards(season: number, teams: Team[]): SeasonAward[] {
+    const unrated = ECONOMY_CONSTANTS.PROGRESSION.UNRATED_POSITIONS;
+    const blocksWon = (player: EconomyPlayer) => (player.gameLog ?? [])
+        .filter(entry => entry.season === season)
+        .reduce((total, entry) => total + (entry.stats.blocksWon ?? 0), 0);
+    const score = (player: EconomyPlayer) => unrated.includes(player.position)
+        ? blocksWon(player)
+        : player.hypeData.seasonFameEarnings;
+
+    const candidates = teams
+        .flatMap(team => team.roster.map(player => ({ player, team, score: score(player) })))
+        .filter(candidate => candidate.score > 0)
+        .sort((a, b) => b.score - a.score);
+
+    const award = (type: AwardType, { player, team }: { player: EconomyPlayer; team: Team }): SeasonAward => ({
+        season,
+        award: type,
+        playerId: player.id,
+        playerName: `${player.firstName} ${player.lastName}`,
+        position: player.position,
+        teamId: team.id,
+        fameEarned: player.hypeData.seasonFameEarnings,
+    });
+
+    const mvp = candidates.find(({ player }) => !unrated.includes(player.position));
+    const awards: SeasonAward[] = mvp ? [award('mvp', mvp)] : [];
+    const lineup = ECONOMY_CONSTANTS.GAME_SIM.LINEUP;
+    (Object.keys(lineup) as Position[]).forEach(position => {
+        candidates
+            .filter(({ player }) => player.position === position)
+            .slice(0, lineup[position])
+            .forEach(candidate => awards.push(award('all_league', candidate)));
+    });
+    return awards;
+}
+
+/**
+ * Count the awards of one type across a player's archived seasons
+ */
+export function countCareerAwards(player: EconomyPlayer, type: AwardType): number {
+    return (player.careerHistory?.seasons ?? [])
+        .reduce((count, season) => count + (season.awards ?? []).filter(award => award === type).length, 0);
+}
+
+/**
+ * Count the championships across a player's archived seasons
+ */
+export function countCareerTitles(player: EconomyPlayer): number {
+    return (player.careerHistory?.seasons ?? []).filter(season => season.playoffFinish === 'champion').length;
+}
+
+/**
+ * Decide whether a player retires this offseason (call after aging).
+ * Age drives the chance; faded skills, a season on the bench or having no
+ * contract push it up, a star season or years left on a deal pull it down.
+ * @param lastSeason - The season just archived
+ * @param teamGames - Regular-season games the player's team played (0 if unknown)
+ */
+export function decideRetirement(
+    player: EconomyPlayer,
+    lastSeason?: PlayerSeasonRecord,
+    teamGames: number = 0
+): RetirementDecision {
+    const config = ECONOMY_CONSTANTS.RETIREMENT;
+
+    if (player.age >= config.MAX_AGE) {
+        return { retires: true, chance: 1, reason: 'age' };
+    }
+    if (player.age < config.MIN_AGE) {
+        return { retires: false, chance: 0, reason: 'age' };
+    }
+
+    const ageChance = (player.age - config.MIN_AGE + 1) * config.CHANCE_PER_YEAR;
+    let chance = ageChance;
+    let reason: RetirementReason = 'age';
+
+    if (player.overall < config.DECLINED_OVERALL) {
+        chance += config.DECLINED_BONUS;
+        if (config.DECLINED_BONUS > ageChance) reason = 'declining_skills';
+    }
+    if (calculatePlayingTime(lastSeason, teamGames) < 0.5) {
+        chance += config.BENCHED_BONUS;
+    }
+    const gamesPlayed = lastSeason?.gamesPlayed ?? 0;
+    if (gamesPlayed > 0 && (lastSeason?.fameEarned ?? 0) / gamesPlayed >=
+        ECONOMY_CONSTANTS.PROGRESSION.PERFORMANCE_BASELINE * config.STAR_MULTIPLE) {
+        chance -= config.STAR_DISCOUNT;
+    }
+
+    if (player.contractData && !isContractExpired(player)) {
+        chance *= config.UNDER_CONTRACT_FACTOR;
+    } else {
+        chance += config.UNSIGNED_BONUS;
+        if (reason === 'age' && config.UNSIGNED_BONUS > ageChance) reason = 'unsigned';
+    }
+
+    chance = clamp(chance, 0, 1);
+    return { retires: random() < chance, chance, reason };
+}
+
+/**
+ * Hall of fame score: career fame plus titles and awards
+ */
+export function calculateHallOfFameScore(retired: Pick<RetiredPlayer, 'careerTotals' | 'titles' | 'mvpAwards' | 'allLeagueAwards'>): number {
+    const config = ECONOMY_CONSTANTS.HALL_OF_FAME;
+    const score = retired.careerTotals.fameEarned / config.FAME_PER_POINT +
+        retired.titles * config.TITLE_POINTS +
+        retired.mvpAwards * config.MVP_POINTS +
+        retired.allLeagueAwards * config.ALL_LEAGUE_POINTS;
+    return Math.round(score * 10) / 10;
+}
+
+/**
+ * Archive entry for a retiring player
+ */
+export function createRetiredPlayer(
+    player: EconomyPlayer,
+    season: number,
+    reason: RetirementReason,
+    team?: Team
+): RetiredPlayer {
+    const retired = {
+        player,
+        retiredSeason: season,
+        age: player.age,
+        teamId: team?.id,
+        teamName: team?.name,
+        reason,
+        careerTotals: getCareerTotals(player),
+        titles: countCareerTitles(player),
+        mvpAwards: countCareerAwards(player, 'mvp'),
+        allLeagueAwards: countCareerAwards(player, 'all_league'),
+    };
+    return {
+        ...retired,
+        hallOfFame: { status: 'waiting', score: calculateHallOfFameScore(retired), ballots: 0 },
+    };
+}
+
+/**
+ * Run one season's hall of fame vote over the archive. Retirees join the
+ * ballot after the waiting period; the bar drops a little each ballot, and
+ * candidates who never clear it drop off.
+ * @returns The players inducted this season
+ */
+export function runHallOfFameElection(retiredPlayers: RetiredPlayer[], season: number): RetiredPlayer[] {
+    const config = ECONOMY_CONSTANTS.HALL_OF_FAME;
+    const inducted: RetiredPlayer[] = [];
+
+    retiredPlayers.forEach(retired => {
+        const hallOfFame = retired.hallOfFame;
+        if (hallOfFame.status === 'waiting' && season - retired.retiredSeason >= config.WAITING_SEASONS) {
+            hallOfFame.status = 'on_ballot';
+        }
+        if (hallOfFame.status !== 'on_ballot') return;
+
+        hallOfFame.ballots++;
+        const threshold = config.THRESHOLD * (1 - (hallOfFame.ballots - 1) * config.THRESHOLD_DECAY);
+        if (hallOfFame.score >= threshold) {
+            hallOfFame.status = 'inducted';
+            hallOfFame.inductedSeason = season;
+            inducted.push(retired);
+        } else if (hallOfFame.ballots >= config.MAX_BALLOTS) {
+            hallOfFame.status = 'dropped';
+        }
+    });
+
+    return inducted;
+}
+
+/**
+ * Retirement news for an archived player
+ */
+export function createRetirementAnnouncement(retired: RetiredPlayer): RetirementAnnouncement {
+    const { player } = retired;
+    const playerName = `${player.firstName} ${player.lastName}`;
+    // Generated veterans played seasons before the league's history began
+    const seasonsPlayed = Math.max(player.yearsInLeague, retired.careerTotals.seasons);
+    const why = retired.reason === 'declining_skills' ? 'as their skills fade'
+        : retired.reason === 'unsigned' ? 'without a contract'
+        : `at ${retired.age}`;
+
+    return {
+        playerId: player.id,
+        playerName,
+        position: player.position,
+        age: retired.age,
+        season: retired.retiredSeason,
+        teamId: retired.teamId,
+        teamName: retired.teamName,
+        reason: retired.reason,
+        seasonsPlayed,
+        careerFame: retired.careerTotals.fameEarned,
+        message: `${playerName} (${player.position}${retired.teamName ? `, ${retired.teamName}` : ''}) retires ${why} ` +
+            `after ${seasonsPlayed} season${seasonsPlayed === 1 ? '' : 's'}`,
+    };
+}
+
+// ============================================================================
+// SEASON SCHEDULE & STANDINGS
+// ============================================================================
+
+/**
+ * Generate a balanced regular-season schedule using the circle method.
+ *
+ * Every team plays every other team once per rotation; when the season is
+ * longer than one rotation the rotation repeats with home/away swapped.
+ * With an odd number of teams, one team has a bye each week.
+ */
+export function generateSchedule(
+    teamIds: string[],
+    weeks: number = ECONOMY_CONSTANTS.PLAYOFFS.REGULAR_SEASON_WEEKS
+): ScheduledGame[] {
+    if (teamIds.length < 2) return [];
+
+    // Randomize who meets whom in which week
+    const slots: (string | null)[] = shuffle(teamIds);
+    if (slots.length % 2 === 1) {
+        slots.push(null); // bye slot
+    }
+
+    const roundsPerRotation = slots.length - 1;
+    const half = slots.length / 2;
+    const games: ScheduledGame[] = [];
+
+    for (let week = 1; week <= weeks; week++) {
+        const round = (week - 1) % roundsPerRotation;
+        const rotation = Math.floor((week - 1) / roundsPerRotation);
+
+        // Rotate every slot except the first by `round` positions
+        const rotated = [slots[0], ...slots.slice(1).map((_, i) =>
+            slots[1 + ((i + round) % roundsPerRotation)]
+        )];
+
+        for (let i = 0; i < half; i++) {
+            const teamA = rotated[i];
+            const teamB = rotated[rotated.length - 1 - i];
+            if (teamA === null || teamB === null) continue; // bye
+
+            // Alternate the fixed slot's home games and stagger the rest,
+            // then flip everything on each repeat of the rotation
+            let aIsHome = i === 0 ? round % 2 === 0 : i % 2 === 1;
+            if (rotation % 2 === 1) aIsHome = !aIsHome;
+
+            games.push({
+                id: generateId(),
+                week,
+                homeTeamId: aIsHome ? teamA : teamB,
+                awayTeamId: aIsHome ? teamB : teamA,
+            });
+        }
+    }
+
+    return games;
+}
+
+/**
+ * Get the teams with no game in a given week
+ */
+export function getByeTeams(teamIds: string[], schedule: ScheduledGame[], week: number): string[] {
+    const playing = new Set<string>();
+    schedule
+        .filter(game => game.week === week)
+        .forEach(game => {
+            playing.add(game.homeTeamId);
+            playing.add(game.awayTeamId);
+        });
+    return teamIds.filter(id => !playing.has(id));
+}
+
+/**
+ * Calculate the current streak for a team from its played games
+ */
+export function calculateStreak(teamId: string, schedule: ScheduledGame[]): StreakInfo | null {
+    const played = schedule
+        .filter(game => game.result && (game.homeTeamId === teamId || game.awayTeamId === teamId))
+        .sort((a, b) => a.week - b.week);
+
+    let streak: StreakInfo | null = null;
+
+    played.forEach(game => {
+        const result = game.result as GameScore;
+        const isHome = game.homeTeamId === teamId;
+        const scored = isHome ? result.homeScore : result.awayScore;
+        const allowed = isHome ? result.awayScore : result.homeScore;
+        const type: StreakInfo['type'] = scored > allowed ? 'W' : scored < allowed ? 'L' : 'T';
+
+        streak = streak && streak.type === type
+            ? { type, length: streak.length + 1 }
+            : { type, length: 1 };
+    });
+
+    return streak;
+}
+
+/**
+ * Build the standings table from the schedule's played games.
+ * Sorted by win percentage, then point differential.
+ */
+export function calculateStandings(teams: Team[], schedule: ScheduledGame[]): StandingsEntry[] {
+    const entries = new Map<string, StandingsEntry>();
+
+    teams.forEach(team => {
+        entries.set(team.id, {
+            teamId: team.id,
+            teamName: team.name,
+            wins: 0,
+            losses: 0,
+            ties: 0,
+            gamesPlayed: 0,
+            winPct: 0,
+            pointsFor: 0,
+            pointsAgainst: 0,
+            pointDifferential: 0,
+            streak: calculateStreak(team.id, schedule),
+        });
+    });
+
+    schedule.forEach(game => {
+        if (!game.result) return;
+        const { homeScore, awayScore } = game.result;
+        const home = entries.get(game.homeTeamId);
+        const away = entries.get(game.awayTeamId);
+
+        if (home) {
+            home.gamesPlayed++;
+            home.pointsFor += homeScore;
+            home.pointsAgainst += awayScore;
+            if (homeScore > awayScore) home.wins++;
+            else if (homeScore < awayScore) home.losses++;
+            else home.ties++;
+        }
+
+        if (away) {
+            away.gamesPlayed++;
+            away.pointsFor += awayScore;
+            away.pointsAgainst += homeScore;
+            if (awayScore > homeScore) away.wins++;
+            else if (awayScore < homeScore) away.losses++;
+            else away.ties++;
+        }
+    });
+
+    const standings = Array.from(entries.values());
+    standings.forEach(entry => {
+        entry.winPct = entry.gamesPlayed > 0
+            ? (entry.wins + entry.ties * 0.5) / entry.gamesPlayed
+            : 0;
+        entry.pointDifferential = entry.pointsFor - entry.pointsAgainst;
+    });
+
+    return standings.sort((a, b) => {
+        const pctDiff = b.winPct - a.winPct;
+        if (pctDiff !== 0) return pctDiff;
+        return b.pointDifferential - a.pointDifferential;
+    });
+}
+
+/**
+ * Format a streak for display (e.g. "W3")
+ */
+export function formatStreak(streak: StreakInfo | null): string {
+    return streak ? `${streak.type}${streak.length}` : '-';
+}
+
+// ============================================================================
+// LEAGUE STRUCTURE & TIEBREAKERS
+// ============================================================================
+
+/**
+ * Organise teams into conferences and divisions.
+ * Teams are dealt round-robin so divisions differ in size by at most one.
+ * Sets conferenceId/divisionId on every team.
+ */
+export function createLeagueStructure(
+    teams: Team[],
+    numConferences: number = ECONOMY_CONSTANTS.LEAGUE_STRUCTURE.CONFERENCES,
+    divisionsPerConference: number = ECONOMY_CONSTANTS.LEAGUE_STRUCTURE.DIVISIONS_PER_CONFERENCE
+): LeagueStructure {
+    const config = ECONOMY_CONSTANTS.LEAGUE_STRUCTURE;
+    const conferences: Conference[] = [];
+    const divisions: Division[] = [];
+
+    for (let c = 0; c < numConferences; c++) {
+        const conferenceName = config.CONFERENCE_NAMES[c] ?? `Conference ${c + 1}`;
+        const conference: Conference = {
+            id: generateId(),
+            name: `${conferenceName} Conference`,
+            divisionIds: [],
+        };
+
+        for (let d = 0; d < divisionsPerConference; d++) {
+            const division: Division = {
+                id: generateId(),
+                name: `${conferenceName} ${config.DIVISION_NAMES[d] ?? `Division ${d + 1}`}`,
+                conferenceId: conference.id,
+                teamIds: [],
+            };
+            conference.divisionIds.push(division.id);
+            divisions.push(division);
+        }
+
+        conferences.push(conference);
+    }
+
+    teams.forEach((team, index) => {
+        const division = divisions[index % divisions.length];
+        division.teamIds.push(team.id);
+        team.divisionId = division.id;
+        team.conferenceId = division.conferenceId;
+    });
+
+    return { conferences, divisions };
+}
+
+/** Everything the tiebreakers need to compare teams */
+export interface TiebreakerContext {
+    teams: Map<string, Team>;
+    standings: Map<string, StandingsEntry>;
+    schedule: ScheduledGame[];
+}
+
+/** A team's place in a ranking, with the reason it landed there */
+export interface RankedTeam {
+    teamId: string;
+    /** Why the team ranked here (empty when it was the only team left) */
+    explanation: string;
+}
+
+/** Win/loss/tie record over a subset of games */
+interface SubsetRecord {
+    wins: number;
+    losses: number;
+    ties: number;
+    games: number;
+    pct: number;
+}
+
+/** One step of the tiebreaker cascade */
+interface TiebreakerStep {
+    label: string;
+    /** Returns a comparable value per team (higher is better), or null if the step does not apply */
+    evaluate: (tied: string[], context: TiebreakerContext) => Map<string, number> | null;
+    /** Short detail for the explanation (e.g. "2-0") */
+    describe: (teamId: string, tied: string[], context: TiebreakerContext) => string;
+}
+
+/**
+ * Build a tiebreaker context from the season schedule.
+ * Teams with no scheduled results fall back to their stored record.
+ */
+export function buildTiebreakerContext(teams: Team[], schedule: ScheduledGame[]): TiebreakerContext {
+    const standings = new Map<string, StandingsEntry>();
+
+    calculateStandings(teams, schedule).forEach(entry => {
+        const team = teams.find(t => t.id === entry.teamId);
+        if (team && entry.gamesPlayed === 0) {
+            const ties = team.record.ties ?? 0;
+            const games = team.record.wins + team.record.losses + ties;
+            entry.wins = team.record.wins;
+            entry.losses = team.record.losses;
+            entry.ties = ties;
+            entry.gamesPlayed = games;
+            entry.winPct = games > 0 ? (team.record.wins + ties * 0.5) / games : 0;
+        }
+        standings.set(entry.teamId, entry);
+    });
+
+    return {
+        teams: new Map(teams.map(team => [team.id, team])),
+        standings,
+        schedule,
+    };
+}
+
+/**
+ * Record of a team in played games against a set of opponents
+ */
+function calculateRecordAgainst(
+    teamId: string,
+    opponentIds: Set<string>,
+    schedule: ScheduledGame[]
+): SubsetRecord {
+    const record: SubsetRecord = { wins: 0, losses: 0, ties: 0, games: 0, pct: 0 };
+
+    schedule.forEach(game => {
+        if (!game.result) return;
+        const isHome = game.homeTeamId === teamId;
+        const isAway = game.awayTeamId === teamId;
+        if (!isHome && !isAway) return;
+
+        const opponentId = isHome ? game.awayTeamId : game.homeTeamId;
+        if (!opponentIds.has(opponentId)) return;
+
+        const scored = isHome ? game.result.homeScore : game.result.awayScore;
+        const allowed = isHome ? game.result.awayScore : game.result.homeScore;
+        record.games++;
+        if (scored > allowed) record.wins++;
+        else if (scored < allowed) record.losses++;
+        else record.ties++;
+    });
+
+    record.pct = record.games > 0 ? (record.wins + record.ties * 0.5) / record.games : 0;
+    return record;
+}
+
+function formatSubsetRecord(record: { wins: number; losses: number; ties: number }): string {
+    return record.ties > 0
+        ? `${record.wins}-${record.losses}-${record.ties}`
+        : `${record.wins}-${record.losses}`;
+}
+
+/**
+ * Format a team's overall record (e.g. "11-6")
+ */
+function formatTeamRecord(teamId: string, context: TiebreakerContext): string {
+    const entry = context.standings.get(teamId);
+    return entry ? formatSubsetRecord(entry) : '0-0';
+}
+
+/** Append a parenthesised reason when there is one */
+function withReason(text: string, reason: string): string {
+    return reason ? `${text} (${reason})` : text;
+}
+
+function getTeamName(teamId: string, context: TiebreakerContext): string {
+    return context.teams.get(teamId)?.name ?? teamId;
+}
+
+/** Opponents every tied team has played, excluding the tied teams themselves */
+function getCommonOpponents(tied: string[], context: TiebreakerContext): Set<string> {
+    const opponentSets = tied.map(teamId => {
+        const opponents = new Set<string>();
+        context.schedule.forEach(game => {
+            if (!game.result) return;
+            if (game.homeTeamId === teamId) opponents.add(game.awayTeamId);
+            if (game.awayTeamId === teamId) opponents.add(game.homeTeamId);
+        });
+        return opponents;
+    });
+
+    const common = new Set<string>();
+    opponentSets[0]?.forEach(opponentId => {
+        if (tied.includes(opponentId)) return;
+        if (opponentSets.every(set => set.has(opponentId))) {
+            common.add(opponentId);
+        }
+    });
+    return common;
+}
+
+function getDivisionOpponents(teamId: string, context: TiebreakerContext): Set<string> {
+    const divisionId = context.teams.get(teamId)?.divisionId;
+    const opponents = new Set<string>();
+    context.teams.forEach(team => {
+        if (team.id !== teamId && divisionId !== undefined && team.divisionId === divisionId) {
+            opponents.add(team.id);
+        }
+    });
+    return opponents;
+}
+
+/**
+ * NFL-style tiebreaker cascade, applied in order.
+ * Whenever a step separates some (but not all) teams, the cascade restarts
+ * with the teams still tied.
+ */
+const TIEBREAKER_STEPS: TiebreakerStep[] = [
+    {
+        label: 'head-to-head record',
+        evaluate: (tied, context) => {
+            // Only applies when every tied team has met every other
+            const allMet = tied.every(teamId => tied.every(otherId =>
+                otherId === teamId ||
+                calculateRecordAgainst(teamId, new Set([otherId]), context.schedule).games > 0
+            ));
+            if (!allMet) return null;
+
+            return new Map(tied.map(teamId => [
+                teamId,
+                calculateRecordAgainst(teamId, new Set(tied.filter(id => id !== teamId)), context.schedule).pct,
+            ]));
+        },
+        describe: (teamId, tied, context) => formatSubsetRecord(
+            calculateRecordAgainst(teamId, new Set(tied.filter(id => id !== teamId)), context.schedule)
+        ),
+    },
+    {
+        label: 'division record',
+        evaluate: (tied, context) => {
+            const divisionId = context.teams.get(tied[0])?.divisionId;
+            if (!divisionId || !tied.every(id => context.teams.get(id)?.divisionId === divisionId)) {
+                return null;
+            }
+            return new Map(tied.map(teamId => [
+                teamId,
+                calculateRecordAgainst(teamId, getDivisionOpponents(teamId, context), context.schedule).pct,
+            ]));
+        },
+        describe: (teamId, _tied, context) => formatSubsetRecord(
+            calculateRecordAgainst(teamId, getDivisionOpponents(teamId, context), context.schedule)
+        ),
+    },
+    {
+        label: 'record against common opponents',
+        evaluate: (tied, context) => {
+            const common = getCommonOpponents(tied, context);
+            const records = tied.map(teamId => calculateRecordAgainst(teamId, common, context.schedule));
+            if (records.some(record => record.games < ECONOMY_CONSTANTS.TIEBREAKERS.MIN_COMMON_GAMES)) {
+                return null;
+            }
+            return new Map(tied.map((teamId, i) => [teamId, records[i].pct]));
+        },
+        describe: (teamId, tied, context) => formatSubsetRecord(
+            calculateRecordAgainst(teamId, getCommonOpponents(tied, context), context.schedule)
+        ),
+    },
+    {
+        label: 'point differential',
+        evaluate: (tied, context) => new Map(tied.map(teamId => [
+            teamId,
+            context.standings.get(teamId)?.pointDifferential ?? 0,
+        ])),
+        describe: (teamId, _tied, context) => {
+            const differential = context.standings.get(teamId)?.pointDifferential ?? 0;
+            return differential > 0 ? `+${differential}` : `${differential}`;
+        },
+    },
+];
+
+/**
+ * Break a tie between teams with identical records.
+ * Falls through the cascade and finally flips a coin using the engine RNG.
+ */
+function breakTie(tied: string[], context: TiebreakerContext): RankedTeam {
+    for (const step of TIEBREAKER_STEPS) {
+        const values = step.evaluate(tied, context);
+        if (!values) continue;
+
+        const bestValue = Math.max(...tied.map(id => values.get(id) ?? 0));
+        const leaders = tied.filter(id => (values.get(id) ?? 0) === bestValue);
+
+        if (leaders.length === tied.length) continue;
+        if (leaders.length > 1) return breakTie(leaders, context);
+
+        const winner = leaders[0];
+        const others = tied.filter(id => id !== winner).map(id => getTeamName(id, context));
+        return {
+            teamId: winner,
+            explanation: `won tiebreaker over ${others.join(', ')} on ${step.label} (${step.describe(winner, tied, context)})`,
+        };
+    }
+
+    const winner = tied[randomInt(0, tied.length - 1)];
+    const others = tied.filter(id => id !== winner).map(id => getTeamName(id, context));
+    return {
+        teamId: winner,
+        explanation: `won coin flip over ${others.join(', ')} after all tiebreakers were level`,
+    };
+}
+
+/**
+ * Rank a group of teams: best win percentage first, ties broken by the cascade.
+ */
+export function rankTeamsWithTiebreakers(teamIds: string[], context: TiebreakerContext): RankedTeam[] {
+    const remaining = [...teamIds];
+    const ranked: RankedTeam[] = [];
+
+    while (remaining.length > 0) {
+        let pick: RankedTeam;
+
+        if (remaining.length === 1) {
+            pick = { teamId: remaining[0], explanation: '' };
+        } else {
+            const bestPct = Math.max(...remaining.map(id => context.standings.get(id)?.winPct ?? 0));
+            const leaders = remaining.filter(id => (context.standings.get(id)?.winPct ?? 0) === bestPct);
+            pick = leaders.length === 1
+                ? { teamId: leaders[0], explanation: ranked.length === 0 ? 'best record' : 'best remaining record' }
+                : breakTie(leaders, context);
+        }
+
+        ranked.push(pick);
+        remaining.splice(remaining.indexOf(pick.teamId), 1);
+    }
+
+    return ranked;
+}
+
+/** Playoff seeding outcome for one team */
+export interface SeedingDecision {
+    teamId: string;
+    /** League-wide seed, or null if the team missed the playoffs */
+    seed: number | null;
+    /** Seed within the conference, or null if the team missed the playoffs */
+    conferenceSeed: number | null;
+    conferenceId?: string;
+    qualification: 'division_winner' | 'wild_card' | 'missed';
+    explanation: string;
+}
+
+/**
+ * Seed one group of teams (a conference, or the whole league without conferences).
+ * Division winners are guaranteed the top seeds; the remaining slots go to wild cards.
+ */
+function seedGroup(
+    teamIds: string[],
+    divisions: Division[],
+    slots: number,
+    context: TiebreakerContext,
+    groupName: string
+): SeedingDecision[] {
+    const decisions: SeedingDecision[] = [];
+    const divisionReasons = new Map<string, string>();
+
+    // Division winners (only divisions with teams in this group)
+    divisions.forEach(division => {
+        const members = division.teamIds.filter(id => teamIds.includes(id));
+        if (members.length === 0) return;
+        const winner = rankTeamsWithTiebreakers(members, context)[0];
+        divisionReasons.set(winner.teamId, withReason(`won the ${division.name}`, winner.explanation));
+    });
+
+    const winnerIds = Array.from(divisionReasons.keys());
+    const rankedWinners = rankTeamsWithTiebreakers(winnerIds, context).slice(0, slots);
+    rankedWinners.forEach((ranked, index) => {
+        const seed = index + 1;
+        decisions.push({
+            teamId: ranked.teamId,
+            seed: null,
+            conferenceSeed: seed,
+            qualification: 'division_winner',
+            explanation: withReason(
+                `${getTeamName(ranked.teamId, context)} (${formatTeamRecord(ranked.teamId, context)}) ` +
+                `${divisionReasons.get(ranked.teamId)} and earned the #${seed} seed in the ${groupName}`,
+                ranked.explanation ? `among division winners: ${ranked.explanation}` : ''
+            ) + '.',
+        });
+    });
+
+    // Wild cards from everyone else
+    const seededIds = new Set(decisions.map(d => d.teamId));
+    const rankedRest = rankTeamsWithTiebreakers(teamIds.filter(id => !seededIds.has(id)), context);
+    const wildCardSlots = Math.max(0, slots - decisions.length);
+
+    rankedRest.forEach((ranked, index) => {
+        const name = getTeamName(ranked.teamId, context);
+        const record = formatTeamRecord(ranked.teamId, context);
+
+        if (index < wildCardSlots) {
+            const seed = decisions.length + 1;
+            decisions.push({
+                teamId: ranked.teamId,
+                seed: null,
+                conferenceSeed: seed,
+                qualification: 'wild_card',
+                explanation: withReason(`${name} (${record}) earned a wild card as the #${seed} seed in the ${groupName}`, ranked.explanation) + '.',
+            });
+        } else {
+            const reason = index === wildCardSlots && wildCardSlots > 0
+                ? `first team out of the ${groupName} playoff picture`
+                : `finished outside the ${groupName} playoff places`;
+            decisions.push({
+                teamId: ranked.teamId,
+                seed: null,
+                conferenceSeed: null,
+                qualification: 'missed',
+                explanation: `${name} (${record}) missed the playoffs: ${reason}.`,
+            });
+        }
+    });
+
+    return decisions;
+}
+
+/**
+ * Calculate playoff seeding for the whole league.
+ *
+ * With conferences, each conference gets an equal share of the playoff spots and
+ * its division winners are seeded first. League-wide seeds then order all
+ * conference #1 seeds (by tiebreaker), then all #2 seeds, and so on.
+ */
+export function calculatePlayoffSeeding(
+    teams: Team[],
+    schedule: ScheduledGame[],
+    structure: LeagueStructure | null,
+    teamsQualifying: number = ECONOMY_CONSTANTS.PLAYOFFS.TEAMS_QUALIFY
+): SeedingDecision[] {
+    const context = buildTiebreakerContext(teams, schedule);
+    const teamIds = teams.map(team => team.id);
+
+    let decisions: SeedingDecision[];
+
+    if (!structure || structure.conferences.length === 0) {
+        decisions = seedGroup(teamIds, [], teamsQualifying, context, 'league');
+    } else {
+        const slotsPerConference = Math.floor(teamsQualifying / structure.conferences.length);
+        decisions = [];
+
+        structure.conferences.forEach(conference => {
+            const members = teamIds.filter(id => context.teams.get(id)?.conferenceId === conference.id);
+            const divisions = structure.divisions.filter(d => d.conferenceId === conference.id);
+            seedGroup(members, divisions, slotsPerConference, context, conference.name)
+                .forEach(decision => decisions.push({ ...decision, conferenceId: conference.id }));
+        });
+    }
+
+    // League-wide seeds: group by conference seed, break ties across conferences
+    let nextSeed = 1;
+    const maxConferenceSeed = Math.max(0, ...decisions.map(d => d.conferenceSeed ?? 0));
+    for (let conferenceSeed = 1; conferenceSeed <= maxConferenceSeed; conferenceSeed++) {
+        const sameSeed = decisions.filter(d => d.conferenceSeed === conferenceSeed);
+        rankTeamsWithTiebreakers(sameSeed.map(d => d.teamId), context).forEach(ranked => {
+            const decision = sameSeed.find(d => d.teamId === ranked.teamId);
+            if (decision) decision.seed = nextSeed++;
+        });
+    }
+
+    return decisions.sort((a, b) => (a.seed ?? Infinity) - (b.seed ?? Infinity));
+}
+
+// ============================================================================
+// PLAYOFF BRACKET
+// ============================================================================
+
+/**
+ * Standard bracket order for a power-of-two field, e.g. 8 → [1, 8, 4, 5, 2, 7, 3, 6].
+ * Adjacent entries meet in the first round; the top two seeds can only meet in the final.
+ */
+export function standardBracketOrder(size: number): number[] {
+    let order = [1];
+    while (order.length < size) {
+        const roundSize = order.length * 2;
+        order = order.flatMap(seed => [seed, roundSize + 1 - seed]);
+    }
+    return order;
+}
+
+/**
+ * Name a round from the size of the field: brackets of more than four teams
+ * open with a wild card round and always end with the conference finals and
+ * the championship. Any rounds in between are divisional.
+ * @param teams - Teams in the bracket (defaults to a full field for the round count)
+ */
+export function getPlayoffRoundName(
+    roundNumber: number,
+    totalRounds: number,
+    teams: number = Math.pow(2, totalRounds)
+): PlayoffRoundName {
+    const roundsFromEnd = totalRounds - roundNumber;
+    if (roundsFromEnd === 0) return 'championship';
+    if (roundsFromEnd === 1) return 'conference_finals';
+    if (roundNumber === 1 && teams > 4) return 'wild_card';
+    return 'divisional';
+}
+
+/**
+ * Check a playoff format for problems. Returns an error message, or null if valid.
+ */
+export function validatePlayoffFormat(format: PlayoffFormat): string | null {
+    if (!ECONOMY_CONSTANTS.PLAYOFFS.SUPPORTED_SIZES.includes(format.teams)) {
+        return `Unsupported playoff size ${format.teams} (supported: ${ECONOMY_CONSTANTS.PLAYOFFS.SUPPORTED_SIZES.join(', ')})`;
+    }
+
+    const lengths = [format.seriesLength, ...(format.roundSeriesLengths ?? [])];
+    const maxLength = ECONOMY_CONSTANTS.PLAYOFFS.SERIES_HOME_PATTERN.length;
+    if (lengths.some(length => !Number.isInteger(length) || length < 1 || length % 2 === 0 || length > maxLength)) {
+        return `Series lengths must be odd numbers between 1 and ${maxLength}`;
+    }
+
+    return null;
+}
+
+/** Seed used for ordering within a bracket side */
+function getSideSeed(bracket: PlayoffBracket, teamId: string): number {
+    const entry = bracket.seeds.find(seed => seed.teamId === teamId);
+    if (!entry) return Infinity;
+    return bracket.sides.length > 1 ? entry.conferenceSeed ?? entry.seed : entry.seed;
+}
+
+/** Series length for a round */
+function getSeriesLength(format: PlayoffFormat, roundNumber: number): number {
+    return format.roundSeriesLengths?.[roundNumber - 1] ?? format.seriesLength;
+}
+
+/**
+ * Create a playoff bracket from seeded teams and build its first round.
+ * Fields that are not a power of two give first-round byes to the top seeds.
+ */
+export function createPlayoffBracket(
+    seeds: PlayoffSeedEntry[],
+    format: PlayoffFormat,
+    useConferences: boolean
+): PlayoffBracket {
+    const sideKeys = useConferences
+        ? Array.from(new Set(seeds.map(seed => seed.conferenceId ?? 'league')))
+        : ['league'];
+    const teamsPerSide = Math.ceil(seeds.length / sideKeys.length);
+    const slotsPerSide = Math.pow(2, Math.ceil(Math.log2(Math.max(1, teamsPerSide))));
+
+    const sides: PlayoffBracketSide[] = sideKeys.map(key => {
+        const members = seeds
+            .filter(seed => !useConferences || (seed.conferenceId ?? 'league') === key)
+            .sort((a, b) => useConferences
+                ? (a.conferenceSeed ?? a.seed) - (b.conferenceSeed ?? b.seed)
+                : a.seed - b.seed);
+
+        return {
+            key,
+            slots: standardBracketOrder(slotsPerSide).map(rank => members[rank - 1]?.teamId ?? null),
+        };
+    });
+
+    const bracket: PlayoffBracket = {
+        format,
+        seeds,
+        sides,
+        rounds: [],
+        totalRounds: Math.log2(slotsPerSide) + (sides.length > 1 ? Math.log2(sides.length) : 0),
+        currentRound: 1,
+    };
+
+    bracket.rounds.push(buildPlayoffRound(bracket, 1));
+    return bracket;
+}
+
+/**
+ * Build the matchups for a round from the teams still alive in each side
+ */
+function buildPlayoffRound(bracket: PlayoffBracket, roundNumber: number): PlayoffRound {
+    const round: PlayoffRound = {
+        number: roundNumber,
+        name: getPlayoffRoundName(roundNumber, bracket.totalRounds, bracket.seeds.length),
+        series: [],
+        byeTeamIds: [],
+    };
+    const gamesToWin = Math.ceil(getSeriesLength(bracket.format, roundNumber) / 2);
+
+    const createSeries = (teamA: string, teamB: string, side?: string): PlayoffSeries => {
+        const seedA = side ? getSideSeed(bracket, teamA) : bracket.seeds.find(s => s.teamId === teamA)?.seed ?? Infinity;
+        const seedB = side ? getSideSeed(bracket, teamB) : bracket.seeds.find(s => s.teamId === teamB)?.seed ?? Infinity;
+        return {
+            id: generateId(),
+            roundNumber,
+            side,
+            higherSeedId: seedA <= seedB ? teamA : teamB,
+            lowerSeedId: seedA <= seedB ? teamB : teamA,
+            gamesToWin,
+            games: [],
+        };
+    };
+
+    const sidesAlive = bracket.sides.filter(side => side.slots.length > 1);
+
+    if (sidesAlive.length === 0) {
+        // Every side is down to its champion: cross-conference final
+        const champions = bracket.sides.map(side => side.slots[0]).filter((id): id is string => id !== null);
+        for (let i = 0; i + 1 < champions.length; i += 2) {
+            round.series.push(createSeries(champions[i], champions[i + 1]));
+        }
+        return round;
+    }
+
+    bracket.sides.forEach(side => {
+        for (let i = 0; i + 1 < side.slots.length; i += 2) {
+            const teamA = side.slots[i];
+            const teamB = side.slots[i + 1];
+            if (teamA && teamB) {
+                round.series.push(createSeries(teamA, teamB, side.key));
+            } else if (teamA || teamB) {
+                round.byeTeamIds.push((teamA ?? teamB) as string);
+            }
+        }
+    });
+
+    return round;
+}
+
+/**
+ * Advance every side's slots past a completed round.
+ * With reseeding, the survivors are re-paired best seed against worst.
+ */
+function advancePlayoffSides(bracket: PlayoffBracket, round: PlayoffRound): void {
+    const winnerOf = (teamA: string | null, teamB: string | null): string | null => {
+        if (!teamA || !teamB) return teamA ?? teamB;
+        const series = round.series.find(s =>
+            (s.higherSeedId === teamA && s.lowerSeedId === teamB) ||
+            (s.higherSeedId === teamB && s.lowerSeedId === teamA)
+        );
+        return series?.winnerId ?? null;
+    };
+
+    bracket.sides.forEach(side => {
+        if (side.slots.length <= 1) return;
+
+        const nextSlots: (string | null)[] = [];
+        for (let i = 0; i + 1 < side.slots.length; i += 2) {
+            nextSlots.push(winnerOf(side.slots[i], side.slots[i + 1]));
+        }
+
+        if (bracket.format.reseed && nextSlots.length > 1) {
+            const alive = nextSlots
+                .filter((id): id is string => id !== null)
+                .sort((a, b) => getSideSeed(bracket, a) - getSideSeed(bracket, b));
+            side.slots = standardBracketOrder(nextSlots.length).map(rank => alive[rank - 1] ?? null);
+        } else {
+            side.slots = nextSlots;
+        }
+    });
+}
+
+/**
+ * Get the home and away team for the next game of a series
+ */
+export function getNextSeriesGame(series: PlayoffSeries): { homeTeamId: string; awayTeamId: string; gameNumber: number } | null {
+    if (series.winnerId) return null;
+
+    const gameNumber = series.games.length + 1;
+    const higherSeedHome = ECONOMY_CONSTANTS.PLAYOFFS.SERIES_HOME_PATTERN[series.games.length] ?? true;
+
+    return {
+        homeTeamId: higherSeedHome ? series.higherSeedId : series.lowerSeedId,
+        awayTeamId: higherSeedHome ? series.lowerSeedId : series.higherSeedId,
+        gameNumber,
+    };
+}
+
+/**
+ * Count series wins for each team
+ */
+export function getSeriesWins(series: PlayoffSeries): Record<string, number> {
+    const wins: Record<string, number> = { [series.higherSeedId]: 0, [series.lowerSeedId]: 0 };
+    series.games.forEach(game => {
+        const winnerId = game.homeScore > game.awayScore ? game.homeTeamId : game.awayTeamId;
+        wins[winnerId]++;
+    });
+    return wins;
+}
+
+/**
+ * Add a game to a series and decide the series once a team reaches gamesToWin
+ */
+function recordSeriesGame(series: PlayoffSeries, game: PlayoffGame): void {
+    series.games.push(game);
+
+    const wins = getSeriesWins(series);
+    if (wins[series.higherSeedId] >= series.gamesToWin) {
+        series.winnerId = series.higherSeedId;
+        series.loserId = series.lowerSeedId;
+    } else if (wins[series.lowerSeedId] >= series.gamesToWin) {
+        series.winnerId = series.lowerSeedId;
+        series.loserId = series.higherSeedId;
+    }
+}
+
+// ============================================================================
+// SAVE FORMAT
+// ============================================================================
+
+/** Save format versioning */
+export const SAVE_FORMAT = {
+    /** Current schema version written by exportState */
+    SCHEMA_VERSION: 16,
+    /** Engine version stamped into every save */
+    ENGINE_VERSION: '1.15.0',
+    /** Schema version assumed for saves written before the envelope existed */
+    LEGACY_SCHEMA_VERSION: 1,
+};
+
+/** Everything the engine owns that must survive a save/load */
+export interface EngineState {
+    teams: Team[];
+    seasonStandings: SeasonStandings | null;
+    randomState: RandomState | null;
+    leagueStructure: LeagueStructure | null;
+    salaryCap: SalaryCapSettings;
+    rosterRules: RosterRules;
+    negotiations: ContractNegotiation[];
+    freeAgents: EconomyPlayer[];
+    freeAgency: FreeAgencyState | null;
+    userTeamId: string | null;
+    draftPicks: DraftPick[];
+    draft: DraftState | null;
+    scoutingReports: ScoutingReport[];
+    retiredPlayers: RetiredPlayer[];
+    seasonAwards: SeasonAward[];
+}
+
+/** Versioned wrapper around the engine state */
+export interface SaveEnvelope {
+    schemaVersion: number;
+    engineVersion: string;
+    /** ISO timestamp of when the save was written */
+    savedAt: string;
+    state: EngineState;
+}
+
+/** A single structural problem found in a save */
+export interface SaveValidationIssue {
+    /** Location of the problem, e.g. "state.teams[2].roster[5].stats.speed" */
+    path: string;
+    message: string;
+}
+
+/** Result of loading a save */
+export interface SaveLoadResult {
+    success: boolean;
+    message: string;
+    errors: SaveValidationIssue[];
+    /** Schema version the save was written with */
+    originalSchemaVersion?: number;
+    /** Migration steps applied to bring the save up to date */
+    migrationsApplied: string[];
+}
+
+/** One step in the save migration chain */
+export interface SaveMigration {
+    fromVersion: number;
+    toVersion: number;
+    description: string;
+    migrate: (state: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/** Stats every player must carry (throwing is QB-only) */
+const REQUIRED_PLAYER_STATS: (keyof PlayerStats)[] = [
+    'speed', 'acceleration', 'agility', 'catching', 'routeRunning', 'release',
+    'focus', 'tackling', 'hitPower', 'pursuit', 'awareness', 'passBlock',
+    'passRush', 'strength', 'balance', 'aggression', 'stamina',
+];
+
+const VALID_POSITIONS: Position[] = ['QB', 'WR', 'CB', 'OL', 'DL'];
+
+/**
+ * Migration chain - each step upgrades a save by exactly one schema version.
+ * Steps operate on plain JSON so they never depend on current interfaces.
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+    {
+        fromVersion: 1,
+        toVersion: 2,
+        description: 'Backfill core attributes, hype and contract data; add random state',
+        migrate: state => {
+            const migrated = mapSavedTeams(state, team => {
+                if (!Array.isArray(team.roster)) return team;
+                return mapSavedRoster({
+                    ...team,
+                    fameBudget: team.fameBudget ?? ECONOMY_CONSTANTS.STARTING_FAME,
+                    coachVP: team.coachVP ?? 0,
+                    record: team.record ?? { wins: 0, losses: 0 },
+                }, player => {
+                    // Malformed players are left for validation to report
+                    if (!isLegacyPlayer(player)) return player;
+                    const economyPlayer = migratePlayerToEconomy(player);
+                    // Keep earned fame - migratePlayerToEconomy starts hype from scratch
+                    return isRecord(player.hypeData)
+                        ? { ...economyPlayer, hypeData: player.hypeData }
+                        : economyPlayer;
+                });
+            });
+            return {
+                ...migrated,
+                seasonStandings: state.seasonStandings ?? null,
+                randomState: state.randomState ?? null,
+            };
+        },
+    },
+    {
+        fromVersion: 2,
+        toVersion: 3,
+        description: 'Add season number and schedule to standings',
+        migrate: state => {
+            const standings = state.seasonStandings;
+            if (!isRecord(standings)) return state;
+            return {
+                ...state,
+                seasonStandings: {
+                    ...standings,
+                    season: standings.season ?? 1,
+                    totalWeeks: standings.totalWeeks ?? ECONOMY_CONSTANTS.PLAYOFFS.REGULAR_SEASON_WEEKS,
+                    schedule: standings.schedule ?? [],
+                },
+            };
+        },
+    },
+    {
+        fromVersion: 3,
+        toVersion: 4,
+        description: 'Add conference and division structure',
+        migrate: state => ({
+            ...state,
+            leagueStructure: state.leagueStructure ?? null,
+        }),
+    },
+    {
+        fromVersion: 4,
+        toVersion: 5,
+        description: 'Drop legacy fixed playoff brackets (finishes are kept on each team)',
+        migrate: state => {
+            const standings = state.seasonStandings;
+            if (!isRecord(standings) || !isRecord(standings.playoffBracket) || Array.isArray(standings.playoffBracket.rounds)) {
+                return state;
+            }
+            const { playoffBracket, ...rest } = standings;
+            return { ...state, seasonStandings: rest };
+        },
+    },
+    {
+        fromVersion: 5,
+        toVersion: 6,
+        description: 'Start an empty game log for every player',
+        migrate: state => mapSavedTeams(state, team => mapSavedRoster(team, player => ({
+            ...player,
+            gameLog: player.gameLog ?? [],
+        }))),
+    },
+    {
+        fromVersion: 6,
+        toVersion: 7,
+        description: 'Start an empty career history for every player',
+        migrate: state => mapSavedTeams(state, team => mapSavedRoster(team, player => ({
+            ...player,
+            careerHistory: player.careerHistory ?? createCareerHistory(),
+        }))),
+    },
+    {
+        fromVersion: 7,
+        toVersion: 8,
+        description: 'Add league salary cap settings',
+        migrate: state => ({
+            ...state,
+            salaryCap: state.salaryCap ?? getDefaultSalaryCap(),
+        }),
+    },
+    {
+        fromVersion: 8,
+        toVersion: 9,
+        description: 'Give flat contracts a salary schedule; add dead cap to teams',
+        migrate: state => mapSavedTeams(state, team => {
+            if (!Array.isArray(team.roster)) return team;
+            return mapSavedRoster({ ...team, deadCap: team.deadCap ?? [] }, player => {
+                const contract = player.contractData;
+                if (!isRecord(contract)) return player;
+                const yearsRemaining = typeof contract.yearsRemaining === 'number' ? contract.yearsRemaining : 0;
+                const totalYears = typeof contract.totalYears === 'number'
+                    ? contract.totalYears
+                    : Math.max(ECONOMY_CONSTANTS.CONTRACTS.CONTRACT_LENGTH, yearsRemaining);
+                return {
+                    ...player,
+                    contractData: {
+                        ...contract,
+                        totalYears,
+                        salarySchedule: contract.salarySchedule ??
+                            Array(totalYears).fill(contract.annualSalary),
+                        signingBonus: contract.signingBonus ?? 0,
+                        guaranteedSalary: contract.guaranteedSalary ?? 0,
+                    },
+                };
+            });
+        }),
+    },
+    {
+        fromVersion: 9,
+        toVersion: 10,
+        description: 'Add contract negotiations and the free agent pool',
+        migrate: state => ({
+            ...state,
+            negotiations: state.negotiations ?? [],
+            freeAgents: state.freeAgents ?? [],
+        }),
+    },
+    {
+        fromVersion: 10,
+        toVersion: 11,
+        description: 'Add the free agency market and user team',
+        migrate: state => ({
+            ...state,
+            freeAgency: state.freeAgency ?? null,
+            userTeamId: state.userTeamId ?? null,
+        }),
+    },
+    {
+        fromVersion: 11,
+        toVersion: 12,
+        description: 'Add tradeable draft picks',
+        migrate: state => ({
+            ...state,
+            draftPicks: state.draftPicks ?? [],
+        }),
+    },
+    {
+        fromVersion: 12,
+        toVersion: 13,
+        description: 'Add the draft',
+        migrate: state => ({
+            ...state,
+            draft: state.draft ?? null,
+        }),
+    },
+    {
+        fromVersion: 13,
+        toVersion: 14,
+        description: 'Add scouting reports and scouting budgets',
+        migrate: state => ({
+            ...mapSavedTeams(state, team => ({
+                ...team,
+                scoutingPoints: team.scoutingPoints ?? ECONOMY_CONSTANTS.SCOUTING.POINTS_PER_SEASON,
+            })),
+            scoutingReports: state.scoutingReports ?? [],
+        }),
+    },
+    {
+        fromVersion: 14,
+        toVersion: 15,
+        description: 'Add the retired-player archive and season awards',
+        migrate: state => ({
+            ...state,
+            retiredPlayers: state.retiredPlayers ?? [],
+            seasonAwards: state.seasonAwards ?? [],
+        }),
+    },
+    {
+        fromVersion: 15,
+        toVersion: 16,
+        description: 'Add league roster rules',
+        migrate: state => ({
+            ...state,
+            rosterRules: state.rosterRules ?? getDefaultRosterRules(),
+        }),
+    },
+];
+
+/**
+ * Wrap engine state in a versioned save envelope
+ */
+export function createSaveEnvelope(state: EngineState): SaveEnvelope {
+    return {
+        schemaVersion: SAVE_FORMAT.SCHEMA_VERSION,
+        engineVersion: SAVE_FORMAT.ENGINE_VERSION,
+        savedAt: new Date().toISOString(),
+        state,
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Copy a saved state with every team record passed through update.
+ * Migrations never modify the caller's save in place.
+ */
+function mapSavedTeams(
+    state: Record<string, unknown>,
+    update: (team: Record<string, unknown>) => Record<string, unknown>
+): Record<string, unknown> {
+    if (!Array.isArray(state.teams)) return state;
+    return { ...state, teams: state.teams.map(team => isRecord(team) ? update(team) : team) };
+}
+
+/**
+ * Copy a saved team with every player record passed through update
+ */
+function mapSavedRoster(
+    team: Record<string, unknown>,
+    update: (player: Record<string, unknown>) => unknown
+): Record<string, unknown> {
+    if (!Array.isArray(team.roster)) return team;
+    return { ...team, roster: team.roster.map(player => isRecord(player) ? update(player) : player) };
+}
+
+/**
+ * Check a saved player has the fields migratePlayerToEconomy needs
+ */
+function isLegacyPlayer(value: Record<string, unknown>): value is Record<string, unknown> & LegacyPlayer {
+    return typeof value.id === 'string' &&
+        typeof value.firstName === 'string' &&
+        typeof value.lastName === 'string' &&
+        typeof value.age === 'number' &&
+        typeof value.overall === 'number' &&
+        typeof value.peakAge === 'number' &&
+        typeof value.potentialGrade === 'number' &&
+        VALID_POSITIONS.includes(value.position as Position) &&
+        isRecord(value.stats);
+}
+
+function expectNumber(
+    issues: SaveValidationIssue[],
+    record: Record<string, unknown>,
+    key: string,
+    path: string
+): void {
+    const value = record[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path: `${path}.${key}`, message: `Expected a finite number, got ${describeValue(value)}` });
+    }
+}
+
+function expectString(
+    issues: SaveValidationIssue[],
+    record: Record<string, unknown>,
+    key: string,
+    path: string
+): void {
+    const value = record[key];
+    if (typeof value !== 'string' || value.length === 0) {
+        issues.push({ path: `${path}.${key}`, message: `Expected a non-empty string, got ${describeValue(value)}` });
+    }
+}
+
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value === 'string' ? `"${value}"` : typeof value;
+}
+
+/**
+ * Validate an officiating crew from a save
+ */
+function validateSavedOfficials(issues: SaveValidationIssue[], officials: unknown, path: string): void {
+    if (!isRecord(officials)) {
+        issues.push({ path, message: `Expected an officials object, got ${describeValue(officials)}` });
+        return;
+    }
+    expectNumber(issues, officials, 'strictness', path);
+    if (officials.fouls === undefined) return;
+    if (!isRecord(officials.fouls)) {
+        issues.push({ path: `${path}.fouls`, message: `Expected foul multipliers, got ${describeValue(officials.fouls)}` });
+        return;
+    }
+    const fouls = officials.fouls;
+    Object.keys(fouls).forEach(key => {
+        if (!(key in ECONOMY_CONSTANTS.PENALTIES.BASE_CHANCE)) {
+            issues.push({ path: `${path}.fouls.${key}`, message: 'Unknown foul' });
+        } else {
+            expectNumber(issues, fouls, key, `${path}.fouls`);
+        }
+    });
+}
+
+/**
+ * Validate a single player record from a save
+ */
+function validateSavedPlayer(
+    issues: SaveValidationIssue[],
+    player: unknown,
+    path: string
+): void {
+    if (!isRecord(player)) {
+        issues.push({ path, message: `Expected a player object, got ${describeValue(player)}` });
+        return;
+    }
+
+    ['id', 'firstName', 'lastName'].forEach(key => expectString(issues, player, key, path));
+    ['age', 'overall', 'peakAge', 'potentialGrade', 'yearsInLeague', 'salaryCost']
+        .forEach(key => expectNumber(issues, player, key, path));
+
+    if (!VALID_POSITIONS.includes(player.position as Position)) {
+        issues.push({ path: `${path}.position`, message: `Unknown position ${describeValue(player.position)}` });
+    }
+
+    if (!isRecord(player.stats)) {
+        issues.push({ path: `${path}.stats`, message: `Expected a stats object, got ${describeValue(player.stats)}` });
+    } else {
+        const stats = player.stats;
+        REQUIRED_PLAYER_STATS.forEach(stat => expectNumber(issues, stats, stat, `${path}.stats`));
+        if (stats.throwing !== undefined) {
+            expectNumber(issues, stats, 'throwing', `${path}.stats`);
+        }
+    }
+
+    if (!isRecord(player.hypeData)) {
+        issues.push({ path: `${path}.hypeData`, message: 'Missing hype data' });
+    } else {
+        const hypeData = player.hypeData;
+        ['baseHypeMultiplier', 'yearsBeforePrimeCliff', 'accumulatedFameBank', 'seasonFameEarnings']
+            .forEach(key => expectNumber(issues, hypeData, key, `${path}.hypeData`));
+    }
+
+    if (!isRecord(player.coreAttributes)) {
+        issues.push({ path: `${path}.coreAttributes`, message: 'Missing core attributes' });
+    } else {
+        const coreAttributes = player.coreAttributes;
+        ['strength', 'speed', 'agility', 'intelligence']
+            .forEach(key => expectNumber(issues, coreAttributes, key, `${path}.coreAttributes`));
+    }
+
+    if (player.contractData !== undefined) {
+        if (!isRecord(player.contractData)) {
+            issues.push({ path: `${path}.contractData`, message: `Expected a contract object, got ${describeValue(player.contractData)}` });
+        } else {
+            const contractData = player.contractData;
+            ['yearsRemaining', 'annualSalary', 'contractCount', 'totalYears', 'signingBonus', 'guaranteedSalary']
+                .forEach(key => expectNumber(issues, contractData, key, `${path}.contractData`));
+            if (!Array.isArray(contractData.salarySchedule) ||
+                contractData.salarySchedule.length !== contractData.totalYears) {
+                issues.push({ path: `${path}.contractData.salarySchedule`, message: 'Expected one base salary per contract year' });
+            }
+        }
+    }
+
+    if (player.gameLog !== undefined) {
+        if (!Array.isArray(player.gameLog)) {
+            issues.push({ path: `${path}.gameLog`, message: `Expected an array of games, got ${describeValue(player.gameLog)}` });
+        } else {
+            player.gameLog.forEach((entry, index) => {
+                const entryPath = `${path}.gameLog[${index}]`;
+                if (!isRecord(entry) || !isRecord(entry.stats)) {
+                    issues.push({ path: entryPath, message: 'Expected a game log entry with stats' });
+                    return;
+                }
+                expectString(issues, entry, 'gameId', entryPath);
+                ['season', 'fameEarned'].forEach(key => expectNumber(issues, entry, key, entryPath));
+            });
+        }
+    }
+
+    if (player.careerHistory !== undefined) {
+        const history = player.careerHistory;
+        if (!isRecord(history) || !Array.isArray(history.seasons) || !isRecord(history.totals)) {
+            issues.push({ path: `${path}.careerHistory`, message: 'Expected career history with seasons and totals' });
+        } else {
+            const totals = history.totals;
+            ['seasons', 'gamesPlayed', 'fameEarned'].forEach(key => expectNumber(issues, totals, key, `${path}.careerHistory.totals`));
+            history.seasons.forEach((record, index) => {
+                const recordPath = `${path}.careerHistory.seasons[${index}]`;
+                if (!isRecord(record) || !isRecord(record.stats)) {
+                    issues.push({ path: recordPath, message: 'Expected a season record with stats' });
+                    return;
+                }
+                expectString(issues, record, 'teamId', recordPath);
+                ['season', 'age', 'gamesPlayed', 'fameEarned', 'overall']
+                    .forEach(key => expectNumber(issues, record, key, recordPath));
+            });
+        }
+    }
+
+    const validateInjury = (injury: unknown, injuryPath: string) => {
+        if (!isRecord(injury) || !isRecord(injury.statPenalties)) {
+            issues.push({ path: injuryPath, message: 'Expected an injury with stat penalties' });
+            return;
+        }
+        ['id', 'name', 'severity', 'trigger'].forEach(key => expectString(issues, injury, key, injuryPath));
+        ['weeksOut', 'totalWeeks', 'lingeringWeeks'].forEach(key => expectNumber(issues, injury, key, injuryPath));
+    };
+    if (player.injury !== undefined) {
+        validateInjury(player.injury, `${path}.injury`);
+    }
+    if (player.injuryHistory !== undefined) {
+        if (!Array.isArray(player.injuryHistory)) {
+            issues.push({ path: `${path}.injuryHistory`, message: `Expected an array of injuries, got ${describeValue(player.injuryHistory)}` });
+        } else {
+            player.injuryHistory.forEach((injury, index) => validateInjury(injury, `${path}.injuryHistory[${index}]`));
+        }
+    }
+    if (player.practiceSquad !== undefined && typeof player.practiceSquad !== 'boolean') {
+        issues.push({ path: `${path}.practiceSquad`, message: `Expected true or false, got ${describeValue(player.practiceSquad)}` });
+    }
+    if (player.injuredReserve !== undefined) {
+        if (!isRecord(player.injuredReserve)) {
+            issues.push({ path: `${path}.injuredReserve`, message: `Expected an injured reserve stint, got ${describeValue(player.injuredReserve)}` });
+        } else {
+            const reserve = player.injuredReserve;
+            ['season', 'weeksOnReserve'].forEach(key => expectNumber(issues, reserve, key, `${path}.injuredReserve`));
+        }
+    }
+    if (player.wear !== undefined) {
+        expectNumber(issues, player, 'wear', path);
+    }
+}
+
+/**
+ * Type guard over validateSaveEnvelope - collects the problems into issues
+ */
+function isValidSaveEnvelope(envelope: unknown, issues: SaveValidationIssue[]): envelope is SaveEnvelope {
+    issues.push(...validateSaveEnvelope(envelope));
+    return issues.length === 0;
+}
+
+/**
+ * Validate the structure of a (fully migrated) save envelope.
+ * Returns every problem found, with a precise path to each one.
+ */
+export function validateSaveEnvelope(envelope: unknown): SaveValidationIssue[] {
+    const issues: SaveValidationIssue[] = [];
+
+    if (!isRecord(envelope)) {
+        issues.push({ path: '', message: `Expected a save object, got ${describeValue(envelope)}` });
+        return issues;
+    }
+
+    expectNumber(issues, envelope, 'schemaVersion', '');
+    expectString(issues, envelope, 'engineVersion', '');
+    expectString(issues, envelope, 'savedAt', '');
+
+    const state = envelope.state;
+    if (!isRecord(state)) {
+        issues.push({ path: 'state', message: `Expected a state object, got ${describeValue(state)}` });
+        return issues;
+    }
+
+    if (!Array.isArray(state.teams)) {
+        issues.push({ path: 'state.teams', message: `Expected an array of teams, got ${describeValue(state.teams)}` });
+    } else {
+        const teamIds = new Set<string>();
+        const playerIds = new Set<string>();
+
+        state.teams.forEach((team, teamIndex) => {
+            const teamPath = `state.teams[${teamIndex}]`;
+            if (!isRecord(team)) {
+                issues.push({ path: teamPath, message: `Expected a team object, got ${describeValue(team)}` });
+                return;
+            }
+
+            expectString(issues, team, 'id', teamPath);
+            expectString(issues, team, 'name', teamPath);
+            expectNumber(issues, team, 'fameBudget', teamPath);
+            expectNumber(issues, team, 'coachVP', teamPath);
+
+            if (typeof team.id === 'string') {
+                if (teamIds.has(team.id)) {
+                    issues.push({ path: `${teamPath}.id`, message: `Duplicate team id "${team.id}"` });
+                }
+                teamIds.add(team.id);
+            }
+
+            if (team.deadCap !== undefined && !Array.isArray(team.deadCap)) {
+                issues.push({ path: `${teamPath}.deadCap`, message: `Expected an array of charges, got ${describeValue(team.deadCap)}` });
+            }
+
+            if (team.depthChart !== undefined) {
+                const depthChart = team.depthChart;
+                if (!isRecord(depthChart)) {
+                    issues.push({ path: `${teamPath}.depthChart`, message: `Expected a depth chart object, got ${describeValue(depthChart)}` });
+                } else {
+                    Object.keys(depthChart).forEach(position => {
+                        const order = depthChart[position];
+                        if (!VALID_POSITIONS.includes(position as Position) ||
+                            !Array.isArray(order) || order.some(playerId => typeof playerId !== 'string')) {
+                            issues.push({ path: `${teamPath}.depthChart.${position}`, message: 'Expected a known position with a list of player ids' });
+                        }
+                    });
+                }
+            }
+
+            if (!isRecord(team.record)) {
+                issues.push({ path: `${teamPath}.record`, message: 'Missing win/loss record' });
+            } else {
+                const record = team.record;
+                ['wins', 'losses'].forEach(key => expectNumber(issues, record, key, `${teamPath}.record`));
+            }
+
+            if (!Array.isArray(team.roster)) {
+                issues.push({ path: `${teamPath}.roster`, message: `Expected a roster array, got ${describeValue(team.roster)}` });
+                return;
+            }
+
+            team.roster.forEach((player, playerIndex) => {
+                const playerPath = `${teamPath}.roster[${playerIndex}]`;
+                validateSavedPlayer(issues, player, playerPath);
+
+                if (isRecord(player) && typeof player.id === 'string') {
+                    if (playerIds.has(player.id)) {
+                        issues.push({ path: `${playerPath}.id`, message: `Duplicate player id "${player.id}"` });
+                    }
+                    playerIds.add(player.id);
+                }
+            });
+        });
+    }
+
+    if (state.seasonStandings !== null && state.seasonStandings !== undefined) {
+        const standings = state.seasonStandings;
+        if (!isRecord(standings)) {
+            issues.push({ path: 'state.seasonStandings', message: `Expected standings object or null, got ${describeValue(standings)}` });
+        } else {
+            expectNumber(issues, standings, 'week', 'state.seasonStandings');
+            if (typeof standings.isPlayoffs !== 'boolean') {
+                issues.push({ path: 'state.seasonStandings.isPlayoffs', message: `Expected a boolean, got ${describeValue(standings.isPlayoffs)}` });
+            }
+            if (!Array.isArray(standings.teams)) {
+                issues.push({ path: 'state.seasonStandings.teams', message: `Expected an array of teams, got ${describeValue(standings.teams)}` });
+            }
+            expectNumber(issues, standings, 'season', 'state.seasonStandings');
+            expectNumber(issues, standings, 'totalWeeks', 'state.seasonStandings');
+
+            if (standings.playoffBracket !== undefined) {
+                const bracket = standings.playoffBracket;
+                const bracketPath = 'state.seasonStandings.playoffBracket';
+                if (!isRecord(bracket) || !isRecord(bracket.format)) {
+                    issues.push({ path: bracketPath, message: 'Expected a bracket with a format' });
+                } else {
+                    ['totalRounds', 'currentRound'].forEach(key => expectNumber(issues, bracket, key, bracketPath));
+                    ['seeds', 'sides', 'rounds'].forEach(key => {
+                        if (!Array.isArray(bracket[key])) {
+                            issues.push({ path: `${bracketPath}.${key}`, message: `Expected an array, got ${describeValue(bracket[key])}` });
+                        }
+                    });
+
+                    // Officiating crews on series and the games they worked
+                    (Array.isArray(bracket.rounds) ? bracket.rounds : []).forEach((round, roundIndex) => {
+                        if (!isRecord(round) || !Array.isArray(round.series)) return;
+                        round.series.forEach((series, seriesIndex) => {
+                            if (!isRecord(series)) return;
+                            const seriesPath = `${bracketPath}.rounds[${roundIndex}].series[${seriesIndex}]`;
+                            if (series.officials !== undefined) {
+                                validateSavedOfficials(issues, series.officials, `${seriesPath}.officials`);
+                            }
+                            (Array.isArray(series.games) ? series.games : []).forEach((game, gameIndex) => {
+                                if (isRecord(game) && game.officials !== undefined) {
+                                    validateSavedOfficials(issues, game.officials, `${seriesPath}.games[${gameIndex}].officials`);
+                                }
+                            });
+                        });
+                    });
+                }
+            }
+
+            if (!Array.isArray(standings.schedule)) {
+                issues.push({ path: 'state.seasonStandings.schedule', message: `Expected an array of games, got ${describeValue(standings.schedule)}` });
+            } else {
+                standings.schedule.forEach((game, gameIndex) => {
+                    const gamePath = `state.seasonStandings.schedule[${gameIndex}]`;
+                    if (!isRecord(game)) {
+                        issues.push({ path: gamePath, message: `Expected a game object, got ${describeValue(game)}` });
+                        return;
+                    }
+                    ['id', 'homeTeamId', 'awayTeamId'].forEach(key => expectString(issues, game, key, gamePath));
+                    expectNumber(issues, game, 'week', gamePath);
+                    if (game.result !== undefined) {
+                        if (!isRecord(game.result)) {
+                            issues.push({ path: `${gamePath}.result`, message: `Expected a score object, got ${describeValue(game.result)}` });
+                        } else {
+                            const result = game.result;
+                            ['homeScore', 'awayScore'].forEach(key => expectNumber(issues, result, key, `${gamePath}.result`));
+                        }
+                    }
+                    if (game.officials !== undefined) {
+                        validateSavedOfficials(issues, game.officials, `${gamePath}.officials`);
+                    }
+                });
+            }
+        }
+    }
+
+    if (state.randomState !== null && state.randomState !== undefined) {
+        if (!isRecord(state.randomState)) {
+            issues.push({ path: 'state.randomState', message: `Expected random state object or null, got ${describeValue(state.randomState)}` });
+        } else {
+            const randomState = state.randomState;
+            ['seed', 'state'].forEach(key => expectNumber(issues, randomState, key, 'state.randomState'));
+        }
+    }
+
+    if (!Array.isArray(state.freeAgents)) {
+        issues.push({ path: 'state.freeAgents', message: `Expected an array of players, got ${describeValue(state.freeAgents)}` });
+    } else {
+        state.freeAgents.forEach((player, index) => validateSavedPlayer(issues, player, `state.freeAgents[${index}]`));
+    }
+
+    if (!Array.isArray(state.negotiations)) {
+        issues.push({ path: 'state.negotiations', message: `Expected an array of negotiations, got ${describeValue(state.negotiations)}` });
+    } else {
+        state.negotiations.forEach((negotiation, index) => {
+            const negotiationPath = `state.negotiations[${index}]`;
+            if (!isRecord(negotiation) || !isRecord(negotiation.demands) || !Array.isArray(negotiation.history)) {
+                issues.push({ path: negotiationPath, message: 'Expected a negotiation with demands and history' });
+                return;
+            }
+            ['id', 'teamId', 'playerId', 'mood', 'status'].forEach(key => expectString(issues, negotiation, key, negotiationPath));
+            ['currentAsk', 'patience'].forEach(key => expectNumber(issues, negotiation, key, negotiationPath));
+        });
+    }
+
+    if (state.freeAgency !== null && state.freeAgency !== undefined) {
+        const market = state.freeAgency;
+        if (!isRecord(market) || !Array.isArray(market.bids) || !Array.isArray(market.signings)) {
+            issues.push({ path: 'state.freeAgency', message: 'Expected a market with bids and signings arrays' });
+        } else {
+            ['day', 'totalDays'].forEach(key => expectNumber(issues, market, key, 'state.freeAgency'));
+            market.bids.forEach((bid, index) => {
+                const bidPath = `state.freeAgency.bids[${index}]`;
+                if (!isRecord(bid) || !isRecord(bid.offer)) {
+                    issues.push({ path: bidPath, message: 'Expected a bid with an offer' });
+                    return;
+                }
+                ['id', 'playerId', 'teamId', 'status'].forEach(key => expectString(issues, bid, key, bidPath));
+                ['averageSalary', 'years'].forEach(key => expectNumber(issues, bid.offer as Record<string, unknown>, key, `${bidPath}.offer`));
+            });
+        }
+    }
+
+    if (!Array.isArray(state.draftPicks)) {
+        issues.push({ path: 'state.draftPicks', message: `Expected an array of draft picks, got ${describeValue(state.draftPicks)}` });
+    } else {
+        state.draftPicks.forEach((pick, index) => {
+            const pickPath = `state.draftPicks[${index}]`;
+            if (!isRecord(pick)) {
+                issues.push({ path: pickPath, message: `Expected a draft pick, got ${describeValue(pick)}` });
+                return;
+            }
+            ['id', 'originalTeamId', 'ownerTeamId', 'status'].forEach(key => expectString(issues, pick, key, pickPath));
+            ['season', 'round'].forEach(key => expectNumber(issues, pick, key, pickPath));
+        });
+    }
+
+    if (state.draft !== null && state.draft !== undefined) {
+        const draft = state.draft;
+        if (!isRecord(draft) || !Array.isArray(draft.pickIds) || !Array.isArray(draft.prospects) ||
+            !Array.isArray(draft.selections)) {
+            issues.push({ path: 'state.draft', message: 'Expected a draft with pickIds, prospects and selections arrays' });
+        } else {
+            ['season', 'currentIndex'].forEach(key => expectNumber(issues, draft, key, 'state.draft'));
+            draft.prospects.forEach((player, index) => validateSavedPlayer(issues, player, `state.draft.prospects[${index}]`));
+        }
+    }
+
+    if (!Array.isArray(state.scoutingReports)) {
+        issues.push({ path: 'state.scoutingReports', message: `Expected an array of scouting reports, got ${describeValue(state.scoutingReports)}` });
+    } else {
+        state.scoutingReports.forEach((report, index) => {
+            const reportPath = `state.scoutingReports[${index}]`;
+            if (!isRecord(report)) {
+                issues.push({ path: reportPath, message: `Expected a scouting report, got ${describeValue(report)}` });
+                return;
+            }
+            ['teamId', 'playerId'].forEach(key => expectString(issues, report, key, reportPath));
+            expectNumber(issues, report, 'pointsSpent', reportPath);
+        });
+    }
+
+    if (!Array.isArray(state.retiredPlayers)) {
+        issues.push({ path: 'state.retiredPlayers', message: `Expected an array of retired players, got ${describeValue(state.retiredPlayers)}` });
+    } else {
+        state.retiredPlayers.forEach((retired, index) => {
+            const retiredPath = `state.retiredPlayers[${index}]`;
+            if (!isRecord(retired) || !isRecord(retired.hallOfFame) || !isRecord(retired.careerTotals)) {
+                issues.push({ path: retiredPath, message: 'Expected a retired player with career totals and hall of fame status' });
+                return;
+            }
+            validateSavedPlayer(issues, retired.player, `${retiredPath}.player`);
+            ['retiredSeason', 'age'].forEach(key => expectNumber(issues, retired, key, retiredPath));
+            expectString(issues, retired, 'reason', retiredPath);
+            expectString(issues, retired.hallOfFame, 'status', `${retiredPath}.hallOfFame`);
+        });
+    }
+
+    if (!Array.isArray(state.seasonAwards)) {
+        issues.push({ path: 'state.seasonAwards', message: `Expected an array of awards, got ${describeValue(state.seasonAwards)}` });
+    } else {
+        state.seasonAwards.forEach((award, index) => {
+            const awardPath = `state.seasonAwards[${index}]`;
+            if (!isRecord(award)) {
+                issues.push({ path: awardPath, message: `Expected an award, got ${describeValue(award)}` });
+                return;
+            }
+            ['award', 'playerId', 'teamId'].forEach(key => expectString(issues, award, key, awardPath));
+            expectNumber(issues, award, 'season', awardPath);
+        });
+    }
+
+    if (state.userTeamId !== null && typeof state.userTeamId !== 'string') {
+        issues.push({ path: 'state.userTeamId', message: `Expected a team id or null, got ${describeValue(state.userTeamId)}` });
+    }
+
+    if (!isRecord(state.salaryCap)) {
+        issues.push({ path: 'state.salaryCap', message: `Expected salary cap settings, got ${describeValue(state.salaryCap)}` });
+    } else {
+        const salaryCap = state.salaryCap;
+        expectNumber(issues, salaryCap, 'cap', 'state.salaryCap');
+        if (salaryCap.floor !== null) {
+            expectNumber(issues, salaryCap, 'floor', 'state.salaryCap');
+        }
+    }
+
+    if (!isRecord(state.rosterRules) || !isRecord(state.rosterRules.positionMinimums)) {
+        issues.push({ path: 'state.rosterRules', message: `Expected roster rules, got ${describeValue(state.rosterRules)}` });
+    } else {
+        const rosterRules = state.rosterRules;
+        ['minSize', 'maxSize', 'practiceSquadSize', 'practiceSquadMaxYears']
+            .forEach(key => expectNumber(issues, rosterRules, key, 'state.rosterRules'));
+        const minimums = rosterRules.positionMinimums as Record<string, unknown>;
+        VALID_POSITIONS.forEach(position => expectNumber(issues, minimums, position, 'state.rosterRules.positionMinimums'));
+    }
+
+    if (state.leagueStructure !== null && state.leagueStructure !== undefined) {
+        const structure = state.leagueStructure;
+        if (!isRecord(structure) || !Array.isArray(structure.conferences) || !Array.isArray(structure.divisions)) {
+            issues.push({ path: 'state.leagueStructure', message: 'Expected conferences and divisions arrays' });
+        } else {
+            structure.divisions.forEach((division, index) => {
+                const divisionPath = `state.leagueStructure.divisions[${index}]`;
+                if (!isRecord(division) || !Array.isArray(division.teamIds)) {
+                    issues.push({ path: divisionPath, message: 'Expected a division with a teamIds array' });
+                    return;
+                }
+                ['id', 'name', 'conferenceId'].forEach(key => expectString(issues, division, key, divisionPath));
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Bring any supported save up to the current schema version and validate the result.
+ * Accepts both versioned envelopes and legacy raw `{ teams, seasonStandings }` exports.
+ * The envelope is null whenever errors are reported.
+ */
+export function migrateSaveData(raw: unknown): {
+    envelope: SaveEnvelope | null;
+    originalSchemaVersion?: number;
+    migrationsApplied: string[];
+    errors: SaveValidationIssue[];
+} {
+    const migrationsApplied: string[] = [];
+
+    if (!isRecord(raw)) {
+        return {
+            envelope: null,
+            migrationsApplied,
+            errors: [{ path: '', message: `Expected a save object, got ${describeValue(raw)}` }],
+        };
+    }
+
+    // Legacy saves are the bare state object with no envelope
+    const isLegacy = raw.schemaVersion === undefined && raw.state === undefined;
+    const envelope: Record<string, unknown> = isLegacy
+        ? {
+            schemaVersion: SAVE_FORMAT.LEGACY_SCHEMA_VERSION,
+            engineVersion: 'legacy',
+            savedAt: new Date(0).toISOString(),
+            state: raw,
+        }
+        : { ...raw };
+
+    const originalSchemaVersion = envelope.schemaVersion;
+    if (typeof originalSchemaVersion !== 'number' || !Number.isInteger(originalSchemaVersion)) {
+        return {
+            envelope: null,
+            migrationsApplied,
+            errors: [{ path: 'schemaVersion', message: `Expected an integer schema version, got ${describeValue(originalSchemaVersion)}` }],
+        };
+    }
+
+    if (originalSchemaVersion > SAVE_FORMAT.SCHEMA_VERSION) {
+        return {
+            envelope: null,
+            originalSchemaVersion,
+            migrationsApplied,
+            errors: [{
+                path: 'schemaVersion',
+                message: `Save uses schema version ${originalSchemaVersion}, but this engine only supports up to ${SAVE_FORMAT.SCHEMA_VERSION}`,
+            }],
+        };
+    }
+
+    if (!isRecord(envelope.state)) {
+        return {
+            envelope: null,
+            originalSchemaVersion,
+            migrationsApplied,
+            errors: [{ path: 'state', message: `Expected a state object, got ${describeValue(envelope.state)}` }],
+        };
+    }
+
+    let version = originalSchemaVersion;
+    let state = envelope.state;
+
+    while (version < SAVE_FORMAT.SCHEMA_VERSION) {
+        const migration = SAVE_MIGRATIONS.find(m => m.fromVersion === version);
+        if (!migration) {
+            return {
+                envelope: null,
+                originalSchemaVersion,
+                migrationsApplied,
+                errors: [{ path: 'schemaVersion', message: `No migration available from schema version ${version}` }],
+            };
+        }
+
+        state = migration.migrate(state);
+        migrationsApplied.push(`v${migration.fromVersion} → v${migration.toVersion}: ${migration.description}`);
+        version = migration.toVersion;
+    }
+
+    const migrated: unknown = { ...envelope, schemaVersion: version, state };
+    const errors: SaveValidationIssue[] = [];
+    return {
+        envelope: isValidSaveEnvelope(migrated, errors) ? migrated : null,
+        originalSchemaVersion,
+        migrationsApplied,
+        errors,
+    };
+}
+
+// ============================================================================
+// ECONOMY MANAGER CLASS
+// ============================================================================
+
+/**
+ * Main economy manager class.
+ * Tracks team fame budget, handles transactions, and manages coach VP.
+ */
+export class FootballEconomyEngine {
+    private teams: Map<string, Team> = new Map();
+    private seasonStandings: SeasonStandings | null = null;
+    private leagueStructure: LeagueStructure | null = null;
+    private salaryCap: SalaryCapSettings = getDefaultSalaryCap();
+    private rosterRules: RosterRules = getDefaultRosterRules();
+    private negotiations: ContractNegotiation[] = [];
+    private freeAgents: EconomyPlayer[] = [];
+    private freeAgency: FreeAgencyState | null = null;
+    private userTeamId: string | null = null;
+    private draftPicks: DraftPick[] = [];
+    private draft: DraftState | null = null;
+    private scoutingReports: ScoutingReport[] = [];
+    private retiredPlayers: RetiredPlayer[] = [];
+    private seasonAwards: SeasonAward[] = [];
+
+    /**
+     * @param seed - Optional seed; when given, every random decision made by
+     *   the engine and the free functions is reproducible
+     */
+    constructor(seed?: number) {
+        if (seed !== undefined) {
+            this.setRandomSeed(seed);
+        }
+    }
+
+    // ========================================================================
+    // RANDOMNESS
+    // ========================================================================
+
+    /**
+     * Reseed the random source shared by the engine and all free functions
+     */
+    setRandomSeed(seed: number): void {
+        setRandomSource(new SeededRandom(seed));
+    }
+
+    /**
+     * Get the state of the active random source, or null if it is a custom
+     * source that cannot be serialized
+     */
+    getRandomState(): RandomState | null {
+        const source = getRandomSource();
+        return source instanceof SeededRandom ? source.getState() : null;
+    }
+
+    // ========================================================================
+    // TEAM MANAGEMENT
+    // ========================================================================
+
+    /**
+     * Create a new team with starting budget
+     */
+    createTeam(name: string): Team {
+        const team: Team = {
+            id: generateId(),
+            name,
+            fameBudget: ECONOMY_CONSTANTS.STARTING_FAME,
+            coachVP: 0,
+            roster: [],
+            record: { wins: 0, losses: 0 },
+            deadCap: [],
+            scoutingPoints: ECONOMY_CONSTANTS.SCOUTING.POINTS_PER_SEASON,
+        };
+
+        this.teams.set(team.id, team);
+        this.ensureDraftPicks();
+        return team;
+    }
+
+    /**
+     * Get a team by ID
+     */
+    getTeam(teamId: string): Team | undefined {
+        return this.teams.get(teamId);
+    }
+
+    /**
+     * Get all teams
+     */
+    getAllTeams(): Team[] {
+        return Array.from(this.teams.values());
+    }
+
+    /**
+     * Get team's current fame budget
+     */
+    getTeamBudget(teamId: string): number {
+        const team = this.teams.get(teamId);
+        return team?.fameBudget ?? 0;
+    }
+
+    /**
+     * Add fame to team budget
+     */
+    addFame(teamId: string, amount: number): boolean {
+        const team = this.teams.get(teamId);
+        if (!team) return false;
+
+        team.fameBudget += amount;
+        return true;
+    }
+
+    /**
+     * Deduct fame from team budget
+     */
+    deductFame(teamId: string, amount: number): boolean {
+        const team = this.teams.get(teamId);
+        if (!team || team.fameBudget < amount) return false;
+
+        team.fameBudget -= amount;
+        return true;
+    }
+
+    /**
+     * Organise the engine's teams into conferences and divisions
+     */
+    setupLeagueStructure(
+        numConferences: number = ECONOMY_CONSTANTS.LEAGUE_STRUCTURE.CONFERENCES,
+        divisionsPerConference: number = ECONOMY_CONSTANTS.LEAGUE_STRUCTURE.DIVISIONS_PER_CONFERENCE
+    ): LeagueStructure {
+        this.leagueStructure = createLeagueStructure(this.getAllTeams(), numConferences, divisionsPerConference);
+        return this.leagueStructure;
+    }
+
+    /**
+     * Get the conference/division layout, or null if the league has none
+     */
+    getLeagueStructure(): LeagueStructure | null {
+        return this.leagueStructure;
+    }
+
+    /**
+     * Get standings for a single division
+     */
+    getDivisionStandings(divisionId: string): StandingsEntry[] {
+        const division = this.leagueStructure?.divisions.find(d => d.id === divisionId);
+        if (!division) return [];
+        return this.getStandings().filter(entry => division.teamIds.includes(entry.teamId));
+    }
+
+    // ========================================================================
+    // PLAYER TRANSACTIONS
+    // ========================================================================
+
+    /**
+     * Create a new player with initialized hype data
+     */
+    createPlayer(
+        firstName: string,
+        lastName: string,
+        position: Position,
+        stats: PlayerStats,
+        age: number,
+        peakAge: number,
+        potentialGrade: number,
+        coreAttributes?: CoreAttributes
+    ): EconomyPlayer {
+        // Generate core attributes if not provided, inferring tier from overall
+        const overall = calculateOverallRating(stats, position);
+        const inferredCoreAttrs = coreAttributes || generateCoreAttributes(
+            position,
+            overall >= 88 ? 'elite' :
+            overall >= 78 ? 'veteran' :
+            overall >= 68 ? 'average' :
+            overall >= 58 ? 'below_average' : 'backup'
+        );
+
+        const player: EconomyPlayer = {
+            id: generateId(),
+            firstName,
+            lastName,
+            age,
+            position,
+            stats,
+            overall,
+            peakAge,
+            potentialGrade,
+            yearsInLeague: Math.max(0, age - 21),
+            salaryCost: 0,
+            hypeData: initializeHypeData(),
+            coreAttributes: inferredCoreAttrs,
+        };
+
+        // Calculate salary cost
+        player.salaryCost = calculatePlayerCost(player);
+
+        return player;
+    }
+
+    /**
+     * Buy a player for a team.
+     * Cost is based on stats and hype multiplier.
+     */
+    buyPlayer(teamId: string, player: EconomyPlayer): TransactionResult {
+        const team = this.teams.get(teamId);
+        if (!team) {
+            return { success: false, message: 'Team not found' };
+        }
+
+        if (this.freeAgency?.isOpen && this.freeAgents.some(p => p.id === player.id)) {
+            return {
+                success: false,
+                message: `${player.firstName} ${player.lastName} is a free agent - sign through free agency bidding`,
+            };
+        }
+
+        const cost = calculatePlayerCost(player);
+
+        if (getActiveRosterSize(team) >= this.rosterRules.maxSize) {
+            return {
+                success: false,
+                message: `Cannot sign ${player.firstName} ${player.lastName}: ${team.name} has no open roster spot`,
+            };
+        }
+
+        const capCheck = checkCapSpace(team, this.salaryCap, player.contractData?.annualSalary ?? 0);
+        if (!capCheck.success) {
+            return {
+                success: false,
+                message: `Cannot sign ${player.firstName} ${player.lastName}: ${capCheck.message}`,
+            };
+        }
+
+        if (team.fameBudget < cost) {
+            return {
+                success: false,
+                message: `Insufficient fame. Need ${cost}, have ${team.fameBudget}`,
+            };
+        }
+
+        // Deduct cost
+        team.fameBudget -= cost;
+
+        // Add player to roster
+        team.roster.push(player);
+
+        return {
+            success: true,
+            message: `Signed ${player.firstName} ${player.lastName} for ${cost} fame`,
+            newBudget: team.fameBudget,
+            player,
+        };
+    }
+
+    /**
+     * Harvest (trade) a player for fame
+     */
+    harvestPlayer(teamId: string, playerId: string): HarvestResult | null {
+        const team = this.teams.get(teamId);
+        if (!team) return null;
+
+        const rosterBefore = validateRoster(team, this.rosterRules);
+        const result = harvestPlayer(team, playerId);
+        if (result) result.warnings = this.getRosterWarnings(team, rosterBefore);
+        return result;
+    }
+
+    // ========================================================================
+    // PERFORMANCE PROCESSING
+    // ========================================================================
+
+    /**
+     * Process game performance for a player
+     */
+    processGamePerformance(
+        teamId: string,
+        playerId: string,
+        gameStats: {
+            catches?: number;
+            touchdowns?: number;
+            tackles?: number;
+            sacks?: number;
+            interceptions?: number;
+            passesDefended?: number;
+            yardsGained?: number;
+        }
+    ): number {
+        const team = this.teams.get(teamId);
+        if (!team) return 0;
+
+        const player = team.roster.find(p => p.id === playerId);
+        if (!player) return 0;
+
+        const rawPoints = calculateRawPerformancePoints(gameStats);
+        const earnedFame = calculateEarnedFame(rawPoints, player);
+
+        // Update player's fame bank
+        player.hypeData.accumulatedFameBank += earnedFame;
+        player.hypeData.seasonFameEarnings += earnedFame;
+
+        return earnedFame;
+    }
+
+    /**
+     * Award fame from a simulated game's box score and log each player's line
+     */
+    private applySimulatedGame(
+        game: GameSimulationResult,
+        context: { gameId: string; week?: number; playoffRound?: number }
+    ): void {
+        const season = this.getCurrentSeason();
+        const sides = [
+            { teamId: game.homeTeamId, opponentId: game.awayTeamId },
+            { teamId: game.awayTeamId, opponentId: game.homeTeamId },
+        ];
+
+        sides.forEach(({ teamId, opponentId }) => {
+            const team = this.teams.get(teamId);
+            if (!team) return;
+            applyGamePerformance(team, game.boxScore.players, { ...context, season, opponentId });
+        });
+
+        game.injuries.forEach(({ playerId, teamId, injury }) => {
+            const player = this.teams.get(teamId)?.roster.find(p => p.id === playerId);
+            if (!player) return;
+            applyInjury(player, { ...injury, season, ...context });
+        });
+
+        sides.forEach(({ teamId }) => {
+            this.teams.get(teamId)?.roster.forEach(player => addGameWear(player, game.snapCounts[player.id] ?? 0));
+        });
+    }
+
+    /**
+     * Get a player's game log (most recent game last)
+     */
+    getPlayerGameLog(teamId: string, playerId: string): PlayerGameLogEntry[] {
+        const player = this.teams.get(teamId)?.roster.find(p => p.id === playerId);
+        return player?.gameLog ?? [];
+    }
+
+    /**
+     * Get a player's archived seasons and career totals
+     */
+    getPlayerCareer(teamId: string, playerId: string): PlayerCareerHistory | null {
+        const player = this.teams.get(teamId)?.roster.find(p => p.id === playerId);
+        if (!player) return null;
+        return player.careerHistory ?? createCareerHistory();
+    }
+
+    /**
+     * Get a player's best archived season by a metric (fame earned by default)
+     */
+    getPlayerBestSeason(teamId: string, playerId: string, metric: SeasonMetric = 'fameEarned'): PlayerSeasonRecord | null {
+        const player = this.teams.get(teamId)?.roster.find(p => p.id === playerId);
+        return player ? getBestSeason(player, metric) : null;
+    }
+
+    /**
+     * Get the fame a player earned in each archived season
+     */
+    getPlayerFamePerSeason(teamId: string, playerId: string): { season: number; teamId: string; fameEarned: number }[] {
+        const player = this.teams.get(teamId)?.roster.find(p => p.id === playerId);
+        return player ? getFamePerSeason(player) : [];
+    }
+
+    /**
+     * Reset season earnings for all players on a team
+     */
+    resetSeasonEarnings(teamId: string): void {
+        const team = this.teams.get(teamId);
+        if (!team) return;
+
+        team.roster.forEach(player => {
+            player.hypeData.seasonFameEarnings = 0;
+        });
+    }
+
+    // ========================================================================
+    // REGULAR SEASON
+    // ========================================================================
+
+    /**
+     * Start a new regular season: reset records and build the schedule.
+     * @param teamIds - Teams taking part (defaults to every team in the engine)
+     * @param weeks - Number of regular-season weeks
+     */
+    startSeason(
+        teamIds?: string[],
+        weeks: number = ECONOMY_CONSTANTS.PLAYOFFS.REGULAR_SEASON_WEEKS
+    ): SeasonStandings {
+        const teams = (teamIds ?? Array.from(this.teams.keys()))
+            .map(id => this.teams.get(id))
+            .filter((team): team is Team => team !== undefined);
+
+        teams.forEach(team => {
+            team.record = { wins: 0, losses: 0, ties: 0 };
+        });
+
+        this.seasonStandings = {
+            teams,
+            week: 1,
+            isPlayoffs: false,
+            season: this.seasonStandings ? this.getCurrentSeason() + 1 : 1,
+            totalWeeks: weeks,
+            schedule: generateSchedule(teams.map(team => team.id), weeks),
+        };
+        this.ensureDraftPicks();
+
+        return this.seasonStandings;
+    }
+
+    /**
+     * Get the current season standings state (schedule, week, bracket)
+     */
+    getSeasonStandings(): SeasonStandings | null {
+        return this.seasonStandings;
+    }
+
+    /**
+     * Number of the season in play (1 before the first season starts). Game
+     * logs, injuries, archives and draft picks all read the season from here.
+     */
+    getCurrentSeason(): number {
+        return this.seasonStandings?.season ?? 1;
+    }
+
+    /**
+     * Get the full regular-season schedule
+     */
+    getSchedule(): ScheduledGame[] {
+        return this.seasonStandings?.schedule ?? [];
+    }
+
+    /**
+     * Get the games scheduled in a week (defaults to the current week)
+     */
+    getWeekGames(week?: number): ScheduledGame[] {
+        const targetWeek = week ?? this.seasonStandings?.week ?? 1;
+        return this.getSchedule().filter(game => game.week === targetWeek);
+    }
+
+    /**
+     * Get the teams on bye in a week (defaults to the current week)
+     */
+    getByeTeams(week?: number): Team[] {
+        if (!this.seasonStandings) return [];
+        const targetWeek = week ?? this.seasonStandings.week;
+        const teamIds = this.seasonStandings.teams.map(team => team.id);
+
+        return getByeTeams(teamIds, this.seasonStandings.schedule, targetWeek)
+            .map(id => this.teams.get(id))
+            .filter((team): team is Team => team !== undefined);
+    }
+
+    /**
+     * Assign an officiating crew to an unplayed scheduled game.
+     * Strictness and the per-foul multipliers must be zero or more.
+     */
+    setGameOfficials(gameId: string, officials: OfficialsTendencies): TransactionResult {
+        const game = this.getSchedule().find(g => g.id === gameId);
+        if (!game) {
+            return { success: false, message: 'Game not found' };
+        }
+        if (game.result) {
+            return { success: false, message: 'Game has already been played' };
+        }
+
+        const crew = copyOfficials(officials);
+        if (!crew) {
+            return { success: false, message: 'Officials tendencies must be zero or more' };
+        }
+
+        game.officials = crew;
+        return { success: true, message: `Officials set for week ${game.week} game` };
+    }
+
+    /**
+     * Record the final score of a scheduled game played outside the engine
+     */
+    recordGameResult(gameId: string, homeScore: number, awayScore: number): TransactionResult {
+        const game = this.getSchedule().find(g => g.id === gameId);
+        if (!game) {
+            return { success: false, message: 'Game not found on schedule' };
+        }
+        if (game.result) {
+            return { success: false, message: 'Game already has a result' };
+        }
+        if (homeScore < 0 || awayScore < 0) {
+            return { success: false, message: 'Scores cannot be negative' };
+        }
+
+        game.result = { homeScore, awayScore };
+
+        const home = this.teams.get(game.homeTeamId);
+        const away = this.teams.get(game.awayTeamId);
+        if (home) this.applyResultToRecord(home, homeScore, awayScore);
+        if (away) this.applyResultToRecord(away, awayScore, homeScore);
+
+        return {
+            success: true,
+            message: `${home?.name ?? 'Home'} ${homeScore} - ${awayScore} ${away?.name ?? 'Away'}`,
+        };
+    }
+
+    /**
+     * Update a team's win/loss/tie record from one game
+     */
+    private applyResultToRecord(team: Team, scored: number, allowed: number): void {
+        if (scored > allowed) {
+            team.record.wins++;
+        } else if (scored < allowed) {
+            team.record.losses++;
+        } else {
+            team.record.ties = (team.record.ties ?? 0) + 1;
+        }
+    }
+
+    /**
+     * Simulate every unplayed game in the current week, then advance the week.
+     * Games already recorded (e.g. the user's game) are left untouched.
+     */
+    simulateWeek(): ScheduledGame[] {
+        if (!this.seasonStandings || this.isRegularSeasonComplete()) return [];
+
+        this.repairAIRosters();
+        const games = this.getWeekGames();
+        games
+            .filter(game => !game.result)
+            .forEach(game => {
+                const home = this.teams.get(game.homeTeamId);
+                const away = this.teams.get(game.awayTeamId);
+                if (!home || !away) return;
+
+                const result = simulateGame(home, away, { allowTies: true, officials: game.officials });
+                const recorded = this.recordGameResult(game.id, result.homeScore, result.awayScore);
+                if (!recorded.success) return;
+
+                game.boxScore = result.boxScore;
+                this.applySimulatedGame(result, { gameId: game.id, week: game.week });
+            });
+
+        this.advanceWeek();
+        return games;
+    }
+
+    /**
+     * Simulate the rest of the regular season
+     */
+    simulateRegularSeason(): void {
+        while (this.seasonStandings && !this.isRegularSeasonComplete()) {
+            this.simulateWeek();
+        }
+    }
+
+    /**
+     * Move to the next week. Fails if the current week still has unplayed games.
+     */
+    advanceWeek(): boolean {
+        if (!this.seasonStandings || this.isRegularSeasonComplete()) return false;
+        if (this.getWeekGames().some(game => !game.result)) return false;
+
+        this.advanceInjuries({ week: this.seasonStandings.week });
+        this.recoverSeasonWear(this.getWeekGames().flatMap(game => [game.homeTeamId, game.awayTeamId]));
+        this.seasonStandings.week++;
+        return true;
+    }
+
+    /**
+     * Whether every regular-season week has been played
+     */
+    isRegularSeasonComplete(): boolean {
+        if (!this.seasonStandings) return false;
+        return this.seasonStandings.week > this.seasonStandings.totalWeeks;
+    }
+
+    /**
+     * Get the standings table for the current season
+     */
+    getStandings(): StandingsEntry[] {
+        if (!this.seasonStandings) return [];
+        return calculateStandings(this.seasonStandings.teams, this.seasonStandings.schedule);
+    }
+
+    /**
+     * Get a single team's standings line
+     */
+    getTeamStanding(teamId: string): StandingsEntry | undefined {
+        return this.getStandings().find(entry => entry.teamId === teamId);
+    }
+
+    // ========================================================================
+    // COACH VP & PLAYOFFS
+    // ========================================================================
+
+    /**
+     * Get coach VP for a team
+     */
+    getCoachVP(teamId: string): number {
+        const team = this.teams.get(teamId);
+        return team?.coachVP ?? 0;
+    }
+
+    /**
+     * Award VP based on playoff finish
+     */
+    awardPlayoffVP(teamId: string, finish: PlayoffFinish): number {
+        const team = this.teams.get(teamId);
+        if (!team) return 0;
+
+        const vpAwards = ECONOMY_CONSTANTS.VP_AWARDS;
+        let vpAwarded = 0;
+
+        switch (finish) {
+            case 'champion':
+                vpAwarded = vpAwards.CHAMPION;
+                break;
+            case 'runner_up':
+                vpAwarded = vpAwards.RUNNER_UP;
+                break;
+            case 'conference_finals':
+                vpAwarded = vpAwards.CONFERENCE_FINALS;
+                break;
+            case 'divisional':
+                vpAwarded = vpAwards.DIVISIONAL;
+                break;
+            case 'wild_card':
+                vpAwarded = vpAwards.WILD_CARD;
+                break;
+            case 'missed':
+            default:
+                vpAwarded = vpAwards.MISSED;
+                break;
+        }
+
+        team.coachVP += vpAwarded;
+        team.playoffFinish = finish;
+
+        return vpAwarded;
+    }
+
+    /**
+     * Calculate playoff seeding (with explanations) without changing any state
+     */
+    calculatePlayoffSeeding(
+        teams?: Team[],
+        teamsQualifying: number = ECONOMY_CONSTANTS.PLAYOFFS.TEAMS_QUALIFY
+    ): SeedingDecision[] {
+        return calculatePlayoffSeeding(
+            teams ?? this.seasonStandings?.teams ?? this.getAllTeams(),
+            this.getSchedule(),
+            this.leagueStructure,
+            teamsQualifying
+        );
+    }
+
+    /**
+     * Initialize playoffs with top teams.
+     * Division winners are guaranteed seeds; ties use the tiebreaker cascade.
+     */
+    initializePlayoffs(
+        teams: Team[],
+        teamsQualifying: number = ECONOMY_CONSTANTS.PLAYOFFS.TEAMS_QUALIFY
+    ): PlayoffTeam[] {
+        const decisions = this.calculatePlayoffSeeding(teams, teamsQualifying);
+        const playoffTeams: PlayoffTeam[] = [];
+
+        decisions.forEach(decision => {
+            const team = teams.find(t => t.id === decision.teamId);
+            if (!team) return;
+
+            if (decision.qualification === 'missed' || decision.seed === null) {
+                // Mark teams that missed playoffs
+                this.awardPlayoffVP(team.id, 'missed');
+                return;
+            }
+
+            playoffTeams.push({
+                team,
+                seed: decision.seed,
+                conferenceSeed: decision.conferenceSeed ?? undefined,
+                conferenceId: decision.conferenceId,
+                qualification: decision.qualification,
+                explanation: decision.explanation,
+            });
+        });
+
+        return playoffTeams;
+    }
+
+    /**
+     * Simulate a playoff matchup between two teams.
+     * Returns the winner and awards VP to the loser.
+     * @param officials - Officiating crew for the game (league average by default)
+     */
+    simulatePlayoffMatch(
+        team1: Team,
+        team2: Team,
+        round: 'wild_card' | 'divisional' | 'conference_finals' | 'championship',
+        officials?: OfficialsTendencies
+    ): PlayoffMatchResult {
+        // team1 is the home side
+        const game = simulateGame(team1, team2, { allowTies: false, officials });
+        this.applySimulatedGame(game, { gameId: generateId() });
+        const team1Won = game.homeScore > game.awayScore;
+
+        const winner = team1Won ? team1 : team2;
+        const loser = team1Won ? team2 : team1;
+        const winnerScore = Math.max(game.homeScore, game.awayScore);
+        const loserScore = Math.min(game.homeScore, game.awayScore);
+
+        // Award VP to loser based on round eliminated
+        let loserFinish: PlayoffFinish;
+        switch (round) {
+            case 'wild_card':
+                loserFinish = 'wild_card';
+                break;
+            case 'divisional':
+                loserFinish = 'divisional';
+                break;
+            case 'conference_finals':
+                loserFinish = 'conference_finals';
+                break;
+            case 'championship':
+                loserFinish = 'runner_up';
+                break;
+        }
+
+        this.awardPlayoffVP(loser.id, loserFinish);
+
+        // If championship, award winner
+        if (round === 'championship') {
+            this.awardPlayoffVP(winner.id, 'champion');
+        }
+
+        return {
+            winner,
+            loser,
+            winnerScore,
+            loserScore,
+            boxScore: game.boxScore,
+        };
+    }
+
+    /**
+     * Seed the playoffs and build the first round of the bracket.
+     * Rounds are then played one at a time with recordPlayoffGame /
+     * simulatePlayoffGame / simulatePlayoffRound and advancePlayoffRound.
+     * @param format - Overrides for the default bracket format
+     * @param teams - Teams eligible for seeding (defaults to this season's teams)
+     */
+    startPlayoffs(format: Partial<PlayoffFormat> = {}, teams?: Team[]): PlayoffBracket {
+        const fullFormat: PlayoffFormat = { ...ECONOMY_CONSTANTS.PLAYOFFS.DEFAULT_FORMAT, ...format };
+        const formatError = validatePlayoffFormat(fullFormat);
+        if (formatError) {
+            throw new Error(formatError);
+        }
+
+        const eligible = teams ?? this.seasonStandings?.teams ?? this.getAllTeams();
+        const playoffTeams = this.initializePlayoffs(eligible, fullFormat.teams);
+
+        if (playoffTeams.length < fullFormat.teams) {
+            throw new Error('Not enough teams for playoffs');
+        }
+        const unknown = playoffTeams.find(pt => !this.teams.has(pt.team.id));
+        if (unknown) {
+            throw new Error(`${unknown.team.name} is not in this league`);
+        }
+
+        const conferenceCount = new Set(playoffTeams.map(pt => pt.conferenceId)).size;
+        const useConferences = fullFormat.byConference &&
+            conferenceCount === 2 &&
+            playoffTeams.every(pt => pt.conferenceId !== undefined);
+
+        const bracket = createPlayoffBracket(
+            playoffTeams.map(pt => ({
+                teamId: pt.team.id,
+                seed: pt.seed,
+                conferenceSeed: pt.conferenceSeed,
+                conferenceId: pt.conferenceId,
+                explanation: pt.explanation,
+            })),
+            fullFormat,
+            useConferences
+        );
+
+        if (!this.seasonStandings) {
+            const totalWeeks = ECONOMY_CONSTANTS.PLAYOFFS.REGULAR_SEASON_WEEKS;
+            this.seasonStandings = {
+                teams: eligible,
+                week: totalWeeks + 1,
+                isPlayoffs: true,
+                season: 1,
+                totalWeeks,
+                schedule: [],
+            };
+        }
+        this.seasonStandings.isPlayoffs = true;
+        this.seasonStandings.playoffBracket = bracket;
+
+        return bracket;
+    }
+
+    /**
+     * Get the current playoff bracket
+     */
+    getPlayoffBracket(): PlayoffBracket | null {
+        return this.seasonStandings?.playoffBracket ?? null;
+    }
+
+    /**
+     * Get the round currently being played
+     */
+    getCurrentPlayoffRound(): PlayoffRound | null {
+        const bracket = this.getPlayoffBracket();
+        if (!bracket || bracket.championId) return null;
+        return bracket.rounds[bracket.currentRound - 1] ?? null;
+    }
+
+    /**
+     * Get series in the current round that are still undecided
+     */
+    getPendingPlayoffSeries(): PlayoffSeries[] {
+        return this.getCurrentPlayoffRound()?.series.filter(series => !series.winnerId) ?? [];
+    }
+
+    /**
+     * Record the score of the next game in a series (e.g. a game the user played)
+     */
+    recordPlayoffGame(seriesId: string, homeScore: number, awayScore: number): TransactionResult {
+        const series = this.getCurrentPlayoffRound()?.series.find(s => s.id === seriesId);
+        if (!series) {
+            return { success: false, message: 'Series not found in the current playoff round' };
+        }
+
+        const next = getNextSeriesGame(series);
+        if (!next) {
+            return { success: false, message: 'Series is already decided' };
+        }
+        if (homeScore === awayScore) {
+            return { success: false, message: 'Playoff games cannot end in a tie' };
+        }
+        if (homeScore < 0 || awayScore < 0) {
+            return { success: false, message: 'Scores cannot be negative' };
+        }
+
+        recordSeriesGame(series, {
+            homeTeamId: next.homeTeamId,
+            awayTeamId: next.awayTeamId,
+            homeScore,
+            awayScore,
+        });
+
+        const home = this.teams.get(next.homeTeamId);
+        const away = this.teams.get(next.awayTeamId);
+        return {
+            success: true,
+            message: `Game ${next.gameNumber}: ${home?.name ?? 'Home'} ${homeScore} - ${awayScore} ${away?.name ?? 'Away'}`,
+        };
+    }
+
+    /**
+     * Assign an officiating crew to the remaining games of a series in the
+     * current round. Strictness and the per-foul multipliers must be zero or more.
+     */
+    setPlayoffOfficials(seriesId: string, officials: OfficialsTendencies): TransactionResult {
+        const series = this.getCurrentPlayoffRound()?.series.find(s => s.id === seriesId);
+        if (!series) {
+            return { success: false, message: 'Series not found in the current round' };
+        }
+        if (series.winnerId) {
+            return { success: false, message: 'Series has already been decided' };
+        }
+
+        const crew = copyOfficials(officials);
+        if (!crew) {
+            return { success: false, message: 'Officials tendencies must be zero or more' };
+        }
+
+        series.officials = crew;
+        return { success: true, message: `Officials set for game ${series.games.length + 1} onwards` };
+    }
+
+    /**
+     * Simulate the next game of a series
+     */
+    simulatePlayoffGame(seriesId: string): TransactionResult {
+        const series = this.getCurrentPlayoffRound()?.series.find(s => s.id === seriesId);
+        const next = series ? getNextSeriesGame(series) : null;
+        if (!series || !next) {
+            return { success: false, message: 'No game left to play in this series' };
+        }
+
+        const home = this.teams.get(next.homeTeamId);
+        const away = this.teams.get(next.awayTeamId);
+        if (!home || !away) {
+            return { success: false, message: 'Team not found' };
+        }
+
+        this.repairAIRosters([home.id, away.id]);
+        const officials = series.officials;
+        const game = simulateGame(home, away, { allowTies: false, officials });
+        const recorded = this.recordPlayoffGame(seriesId, game.homeScore, game.awayScore);
+        if (recorded.success) {
+            const played = series.games[series.games.length - 1];
+            played.boxScore = game.boxScore;
+            if (officials) played.officials = officials;
+            this.applySimulatedGame(game, {
+                gameId: `${series.id}-game-${series.games.length}`,
+                playoffRound: series.roundNumber,
+            });
+        }
+        return recorded;
+    }
+
+    /**
+     * Simulate every undecided series in the current round, then advance.
+     * Returns null if there is no round to play or a game can't be played.
+     */
+    simulatePlayoffRound(): PlayoffRound | null {
+        const round = this.getCurrentPlayoffRound();
+        if (!round) return null;
+
+        const decided = round.series.every(series => {
+            while (!series.winnerId) {
+                if (!this.simulatePlayoffGame(series.id).success) return false;
+            }
+            return true;
+        });
+        if (!decided) return null;
+
+        this.advancePlayoffRound();
+        return round;
+    }
+
+    /**
+     * Close out the current round once every series is decided: award VP to
+     * eliminated teams and build the next round (or crown the champion).
+     */
+    advancePlayoffRound(): boolean {
+        const bracket = this.getPlayoffBracket();
+        const round = this.getCurrentPlayoffRound();
+        if (!bracket || !round) return false;
+        if (round.series.some(series => !series.winnerId)) return false;
+
+        round.series.forEach(series => {
+            const loserFinish: PlayoffFinish = round.name === 'championship' ? 'runner_up' : round.name;
+            this.awardPlayoffVP(series.loserId as string, loserFinish);
+        });
+        this.advanceInjuries({ playoffRound: round.number });
+        this.recoverSeasonWear(round.series.flatMap(series => [series.higherSeedId, series.lowerSeedId]));
+
+        if (bracket.currentRound >= bracket.totalRounds) {
+            const champion = round.series[0]?.winnerId;
+            if (champion) {
+                bracket.championId = champion;
+                this.awardPlayoffVP(champion, 'champion');
+            }
+            return true;
+        }
+
+        advancePlayoffSides(bracket, round);
+        bracket.currentRound++;
+        bracket.rounds.push(buildPlayoffRound(bracket, bracket.currentRound));
+        return true;
+    }
+
+    /**
+     * Whether a champion has been crowned
+     */
+    isPlayoffsComplete(): boolean {
+        return this.getPlayoffBracket()?.championId !== undefined;
+    }
+
+    /**
+     * Run a complete playoff bracket in one call
+     */
+    runPlayoffs(teams: Team[], format: Partial<PlayoffFormat> = {}): PlayoffBracket {
+        const bracket = this.startPlayoffs(format, teams);
+
+        while (!bracket.championId) {
+            if (!this.simulatePlayoffRound()) break;
+        }
+
+        return bracket;
+    }
+
+    // ========================================================================
+    // SEASON MANAGEMENT
+    // ========================================================================
+
+    /**
+     * Process end of season for all teams.
+     * This handles awards, aging, skill progression, contract year decrements,
+     * retirements, the hall of fame vote, and resets.
+     * Note: Contract re-signing should be handled separately via getExpiringContracts
+     * and processResigningDecision before calling this.
+     */
+    processEndOfSeason(): EndOfSeasonReport {
+        const season = this.getCurrentSeason();
+        const schedule = this.seasonStandings?.schedule ?? [];
+        const progression: PlayerProgressionReport[] = [];
+        const retirements: RetirementAnnouncement[] = [];
+
+        // The draft order comes from this season's final records
+        this.resolveDraftOrder(season);
+
+        const awards = selectSeasonAwards(season, Array.from(this.teams.values()));
+        this.seasonAwards.push(...awards);
+
+        this.teams.forEach(team => {
+            const teamGames = schedule.filter(game =>
+                game.result && (game.homeTeamId === team.id || game.awayTeamId === team.id)
+            ).length;
+
+            // Archive the season before anything is aged or reset
+            const records = new Map(team.roster.map(player => {
+                const record = archivePlayerSeason(player, team, season);
+                const won = awards.filter(award => award.playerId === player.id).map(award => award.award);
+                if (won.length > 0) record.awards = won;
+                return [player.id, record];
+            }));
+
+            // Injuries heal over the offseason, injured reserve empties and wear resets
+            team.roster.forEach(player => {
+                healInjury(player);
+                delete player.injuredReserve;
+                delete player.wear;
+            });
+
+            // Age all players, then grow or decline them
+            team.roster.forEach(player => {
+                player.age++;
+                player.yearsInLeague++;
+                progression.push(progressPlayer(player, records.get(player.id), teamGames));
+            });
+
+            // Decrement contract years for all players
+            decrementContractYears(team);
+
+            // Retire players once their contract status for next season is known
+            [...team.roster].forEach(player => {
+                const decision = decideRetirement(player, records.get(player.id), teamGames);
+                if (!decision.retires) return;
+
+                team.roster = team.roster.filter(p => p.id !== player.id);
+                chargeDeadCap(team, player, 'retired');
+                retirements.push(this.retirePlayer(player, season, decision.reason, team));
+            });
+
+            // Reset season stats
+            this.resetSeasonEarnings(team.id);
+
+            // Reset record
+            team.record = { wins: 0, losses: 0, ties: 0 };
+            team.playoffFinish = undefined;
+            team.scoutingPoints = ECONOMY_CONSTANTS.SCOUTING.POINTS_PER_SEASON;
+        });
+
+        // Free agents age and progress (without a season to build on), and unsigned veterans retire too
+        [...this.freeAgents].forEach(player => {
+            healInjury(player);
+            delete player.wear;
+            player.age++;
+            progression.push(progressPlayer(player));
+            const decision = decideRetirement(player);
+            if (!decision.retires) return;
+
+            this.freeAgents = this.freeAgents.filter(p => p.id !== player.id);
+            retirements.push(this.retirePlayer(player, season, decision.reason));
+        });
+
+        const hallOfFameInductees = runHallOfFameElection(this.retiredPlayers, season);
+
+        // Roll the pick window forward a season
+        this.ensureDraftPicks(season + 1);
+        return { season, awards, progression, retirements, hallOfFameInductees };
+    }
+
+    /**
+     * Move a player into the retired archive and drop anything still pointing at them
+     */
+    private retirePlayer(player: EconomyPlayer, season: number, reason: RetirementReason, team?: Team): RetirementAnnouncement {
+        const retired = createRetiredPlayer(player, season, reason, team);
+        this.retiredPlayers.push(retired);
+        this.negotiations = this.negotiations.filter(n => n.playerId !== player.id);
+        return createRetirementAnnouncement(retired);
+    }
+
+    /**
+     * Get the retired-player archive, most recent retirements first
+     */
+    getRetiredPlayers(): RetiredPlayer[] {
+        return [...this.retiredPlayers].sort((a, b) => b.retiredSeason - a.retiredSeason);
+    }
+
+    /**
+     * Get a retired player's archive entry
+     */
+    getRetiredPlayer(playerId: string): RetiredPlayer | undefined {
+        return this.retiredPlayers.find(retired => retired.player.id === playerId);
+    }
+
+    /**
+     * Get retirement announcements, for one season or all of them
+     */
+    getRetirementAnnouncements(season?: number): RetirementAnnouncement[] {
+        return this.getRetiredPlayers()
+            .filter(retired => season === undefined || retired.retiredSeason === season)
+            .map(createRetirementAnnouncement);
+    }
+
+    /**
+     * Get the hall of fame, in order of induction
+     */
+    getHallOfFame(): RetiredPlayer[] {
+        return this.retiredPlayers
+            .filter(retired => retired.hallOfFame.status === 'inducted')
+            .sort((a, b) => (a.hallOfFame.inductedSeason ?? 0) - (b.hallOfFame.inductedSeason ?? 0));
+    }
+
+    /**
+     * Get season awards, for one season or all of them
+     */
+    getSeasonAwards(season?: number): SeasonAward[] {
+        return this.seasonAwards.filter(award => season === undefined || award.season === season);
+    }
+
+    // ========================================================================
+    // CONTRACT MANAGEMENT
+    // ========================================================================
+
+    /**
+     * Get all players with expiring contracts for a team.
+     * Call this before processEndOfSeason to handle re-signing.
+     */
+    getExpiringContracts(teamId: string): ExpiringContract[] {
+        const team = this.teams.get(teamId);
+        if (!team) return [];
+        return getExpiringContracts(team);
+    }
+
+    /**
+     * Process a re-signing decision for a player.
+     * @param teamId - The team ID
+     * @param playerId - The player ID
+     * @param choice - 'resign', 'trade', or 'release'
+     * @param draftPointsManager - Object to track draft points
+     * @param terms - Salary, length and structure of the new contract when re-signing
+     *
+     * Re-signing here is a single take-it-or-leave-it offer (default salary:
+     * calculateResignSalary). A player whose walk-away floor it misses refuses,
+     * and an expired player then leaves for free agency. Use
+     * startContractNegotiation to haggle instead.
+     */
+    processResigning(
+        teamId: string,
+        playerId: string,
+        choice: ResigningChoice,
+        draftPointsManager?: { draftPoints: number },
+        terms: Partial<ContractOffer> = {}
+    ): ResigningResult {
+        const team = this.teams.get(teamId);
+        if (!team) {
+            return {
+                success: false,
+                choice,
+                player: {} as EconomyPlayer,
+                message: 'Team not found',
+            };
+        }
+
+        const player = team.roster.find(p => p.id === playerId);
+        if (player && choice === 'resign') {
+            if (this.getContractNegotiation(playerId)) {
+                return {
+                    success: false,
+                    choice,
+                    player,
+                    message: 'Negotiation in progress - make offers with submitContractOffer',
+                };
+            }
+
+            const offer: ContractOffer = {
+                years: ECONOMY_CONSTANTS.CONTRACTS.CONTRACT_LENGTH,
+                ...terms,
+                averageSalary: terms.averageSalary ?? calculateResignSalary(player),
+            };
+            const demands = calculatePlayerDemands(player, team);
+            if (!isOfferAcceptable(offer, demands)) {
+                const leaves = this.moveToFreeAgencyIfExpired(team, player);
+                return {
+                    success: false,
+                    choice,
+                    player,
+                    newSalary: offer.averageSalary,
+                    message: `${player.firstName} ${player.lastName} refused $${offer.averageSalary}M/year ` +
+                        `(wants at least $${demands.walkAwaySalary}M)` + (leaves ? ' and enters free agency' : ''),
+                };
+            }
+            return processResigningDecision(team, playerId, choice, draftPointsManager, this.salaryCap, offer);
+        }
+
+        const rosterBefore = validateRoster(team, this.rosterRules);
+        const result = processResigningDecision(team, playerId, choice, draftPointsManager, this.salaryCap, terms);
+        if (result.success && choice !== 'resign') {
+            this.negotiations = this.negotiations.filter(n => n.playerId !== playerId);
+            result.warnings = this.getRosterWarnings(team, rosterBefore);
+        }
+        if (result.success && choice === 'release') {
+            // Released players are free to sign anywhere
+            if (result.player.contractData) result.player.contractData.yearsRemaining = 0;
+            delete result.player.injuredReserve;
+            delete result.player.practiceSquad;
+            this.freeAgents.push(result.player);
+        }
+        return result;
+    }
+
+    // ========================================================================
+    // CONTRACT NEGOTIATION
+    // ========================================================================
+
+    /**
+     * Open contract talks with a player whose deal has expired or is in its final year
+     */
+    startContractNegotiation(teamId: string, playerId: string): NegotiationResult {
+        const team = this.teams.get(teamId);
+        if (!team) {
+            return { success: false, message: 'Team not found' };
+        }
+
+        const player = team.roster.find(p => p.id === playerId);
+        if (!player) {
+            return { success: false, message: 'Player not found on team roster' };
+        }
+        if ((player.contractData?.yearsRemaining ?? 0) > 1) {
+            return {
+                success: false,
+                message: `${player.firstName} ${player.lastName} has ${player.contractData?.yearsRemaining} years left and will not negotiate yet`,
+            };
+        }
+
+        const existing = this.getContractNegotiation(playerId);
+        if (existing) {
+            return { success: true, message: 'Negotiation already in progress', negotiation: existing };
+        }
+
+        const negotiation = createContractNegotiation(player, team);
+        this.negotiations.push(negotiation);
+        return {
+            success: true,
+            message: `${player.firstName} ${player.lastName} is asking for $${negotiation.demands.askingSalary}M/year ` +
+                `over ${negotiation.demands.preferredYears} years (${negotiation.mood})`,
+            negotiation,
+        };
+    }
+
+    /**
+     * Make an offer in an open negotiation.
+     * Offers that are malformed or do not fit under the cap are rejected
+     * without using up a round. Accepted offers are signed immediately;
+     * if talks fail, a player whose contract has expired enters free agency.
+     */
+    submitContractOffer(negotiationId: string, offer: ContractOffer): NegotiationResult {
+        const negotiation = this.negotiations.find(n => n.id === negotiationId);
+        if (!negotiation || negotiation.status !== 'open') {
+            return { success: false, message: 'No open negotiation with that id' };
+        }
+
+        const team = this.teams.get(negotiation.teamId);
+        const player = team?.roster.find(p => p.id === negotiation.playerId);
+        if (!team || !player) {
+            this.negotiations = this.negotiations.filter(n => n.id !== negotiationId);
+            return { success: false, message: 'Player is no longer on the team' };
+        }
+
+        const termsError = validateContractTerms(offer.averageSalary, offer);
+        if (termsError) {
+            return { success: false, message: termsError, negotiation };
+        }
+
+        const firstYearHit = calculateCapHit(buildContract(offer.averageSalary, offer, 0));
+        const capCheck = checkCapSpace(team, this.salaryCap, firstYearHit, player.contractData?.annualSalary ?? 0);
+        if (!capCheck.success) {
+            return { success: false, message: `Offer does not fit: ${capCheck.message}`, negotiation };
+        }
+
+        const playerName = `${player.firstName} ${player.lastName}`;
+        const round = evaluateContractOffer(negotiation, offer, playerName);
+        this.negotiations = this.negotiations.filter(n => n.status === 'open');
+
+        if (round.response === 'accepted') {
+            const signed = processResigningDecision(team, player.id, 'resign', undefined, this.salaryCap, offer);
+            return { success: signed.success, message: signed.message, negotiation, round };
+        }
+
+        if (round.response === 'refused') {
+            const leaves = this.moveToFreeAgencyIfExpired(team, player);
+            return {
+                success: false,
+                message: round.message + (leaves ? ` - ${playerName} enters free agency` : ''),
+                negotiation,
+                round,
+            };
+        }
+
+        return { success: true, message: round.message, negotiation, round };
+    }
+
+    /**
+     * Walk away from talks. A player whose contract has expired enters free agency.
+     */
+    endContractNegotiation(negotiationId: string): NegotiationResult {
+        const negotiation = this.negotiations.find(n => n.id === negotiationId);
+        if (!negotiation) {
+            return { success: false, message: 'No open negotiation with that id' };
+        }
+
+        negotiation.status = 'failed';
+        this.negotiations = this.negotiations.filter(n => n.id !== negotiationId);
+
+        const team = this.teams.get(negotiation.teamId);
+        const player = team?.roster.find(p => p.id === negotiation.playerId);
+        const leaves = team && player ? this.moveToFreeAgencyIfExpired(team, player) : false;
+        return {
+            success: true,
+            message: leaves ? 'Talks ended - player enters free agency' : 'Talks ended',
+            negotiation,
+        };
+    }
+
+    /**
+     * Get the open negotiation with a player, if any
+     */
+    getContractNegotiation(playerId: string): ContractNegotiation | undefined {
+        return this.negotiations.find(n => n.playerId === playerId);
+    }
+
+    /**
+     * Get every open negotiation for a team
+     */
+    getTeamNegotiations(teamId: string): ContractNegotiation[] {
+        return this.negotiations.filter(n => n.teamId === teamId);
+    }
+
+    /**
+     * Get players currently in free agency
+     */
+    getFreeAgents(): EconomyPlayer[] {
+        return [...this.freeAgents];
+    }
+
+    // ========================================================================
+    // FREE AGENCY
+    // ========================================================================
+
+    /**
+     * Mark the team the user controls. AI teams bid in free agency on their own;
+     * the user's team only bids through submitFreeAgentBid.
+     */
+    setUserTeam(teamId: string | null): boolean {
+        if (teamId !== null && !this.teams.has(teamId)) return false;
+        this.userTeamId = teamId;
+        return true;
+    }
+
+    /**
+     * Get the id of the user's team, if one is set
+     */
+    getUserTeamId(): string | null {
+        return this.userTeamId;
+    }
+
+    /**
+     * Open the free agency market. Every player whose contract has expired
+     * leaves their team for the pool, joining anyone already released.
+     */
+    startFreeAgency(days: number = ECONOMY_CONSTANTS.FREE_AGENCY.DAYS): FreeAgencyState {
+        if (this.freeAgency?.isOpen) return this.freeAgency;
+
+        this.teams.forEach(team => {
+            team.roster
+                .filter(player => isContractExpired(player))
+                .forEach(player => this.moveToFreeAgencyIfExpired(team, player));
+        });
+
+        this.freeAgency = {
+            day: 1,
+            totalDays: Math.max(1, Math.floor(days)),
+            isOpen: true,
+            bids: [],
+            signings: [],
+        };
+        return this.freeAgency;
+    }
+
+    /**
+     * Get the free agency market, if one has been opened
+     */
+    getFreeAgencyState(): FreeAgencyState | null {
+        return this.freeAgency;
+    }
+
+    /**
+     * Get the active bids on a free agent
+     */
+    getFreeAgentBids(playerId: string): FreeAgentBid[] {
+        return (this.freeAgency?.bids ?? []).filter(bid => bid.playerId === playerId && bid.status === 'active');
+    }
+
+    /**
+     * Bid on a free agent for the user's team. A second bid on the same
+     * player replaces the first.
+     */
+    submitFreeAgentBid(playerId: string, offer: ContractOffer): TransactionResult {
+        const market = this.freeAgency;
+        if (!market?.isOpen) {
+            return { success: false, message: 'Free agency is not open' };
+        }
+        const team = this.userTeamId ? this.teams.get(this.userTeamId) : undefined;
+        if (!team) {
+            return { success: false, message: 'No user team set - call setUserTeam first' };
+        }
+        const player = this.freeAgents.find(p => p.id === playerId);
+        if (!player) {
+            return { success: false, message: 'Player is not a free agent' };
+        }
+
+        const termsError = validateContractTerms(offer.averageSalary, offer);
+        if (termsError) {
+            return { success: false, message: termsError };
+        }
+        const capCheck = checkCapSpace(team, this.salaryCap, calculateCapHit(buildContract(offer.averageSalary, offer, 0)));
+        if (!capCheck.success) {
+            return { success: false, message: `Bid does not fit: ${capCheck.message}` };
+        }
+        if (getActiveRosterSize(team) >= this.rosterRules.maxSize) {
+            return { success: false, message: `Bid does not fit: ${team.name} has no open roster spot` };
+        }
+
+        this.withdrawFreeAgentBid(playerId);
+        market.bids.push({
+            id: generateId(),
+            playerId,
+            teamId: team.id,
+            offer: { ...offer },
+            day: market.day,
+            status: 'active',
+        });
+
+        return {
+            success: true,
+            message: `Bid $${offer.averageSalary}M/year over ${offer.years} years for ${player.firstName} ${player.lastName}`,
+            player,
+        };
+    }
+
+    /**
+     * Match the most attractive competing bid on a free agent
+     */
+    matchFreeAgentBid(playerId: string): TransactionResult {
+        const player = this.freeAgents.find(p => p.id === playerId);
+        if (!player) {
+            return { success: false, message: 'Player is not a free agent' };
+        }
+
+        const best = this.getFreeAgentBids(playerId)
+            .filter(bid => bid.teamId !== this.userTeamId)
+            .map(bid => evaluateFreeAgentBid(player, this.teams.get(bid.teamId) as Team, bid))
+            .sort((a, b) => b.valueRatio - a.valueRatio)[0];
+        if (!best) {
+            return { success: false, message: 'No competing bids to match' };
+        }
+
+        return this.submitFreeAgentBid(playerId, best.bid.offer);
+    }
+
+    /**
+     * Withdraw the user's bid on a free agent
+     */
+    withdrawFreeAgentBid(playerId: string): boolean {
+        const bid = this.getFreeAgentBids(playerId).find(b => b.teamId === this.userTeamId);
+        if (!bid) return false;
+        bid.status = 'withdrawn';
+        return true;
+    }
+
+    /**
+     * Play one day of free agency: AI teams bid (or raise), then each free
+     * agent signs with the most appealing bid that meets today's threshold.
+     * Closes the market after the last day.
+     */
+    advanceFreeAgencyDay(): FreeAgentSigning[] {
+        const market = this.freeAgency;
+        if (!market?.isOpen) return [];
+
+        this.placeAIBids(market);
+
+        const threshold = getFreeAgentAcceptanceThreshold(market.day, market.totalDays);
+        const signings: FreeAgentSigning[] = [];
+
+        [...this.freeAgents].forEach(player => {
+            const evaluations = this.getFreeAgentBids(player.id)
+                .map(bid => evaluateFreeAgentBid(player, this.teams.get(bid.teamId) as Team, bid))
+                .filter(evaluation => evaluation.valueRatio >= threshold)
+                .sort((a, b) => b.score - a.score);
+
+            for (const { bid } of evaluations) {
+                const team = this.teams.get(bid.teamId) as Team;
+                const contract = buildContract(
+                    bid.offer.averageSalary,
+                    bid.offer,
+                    (player.contractData?.contractCount ?? 0) + 1,
+                    player.contractData?.draftPick
+                );
+                if (!checkCapSpace(team, this.salaryCap, contract.annualSalary).success ||
+                    getActiveRosterSize(team) >= this.rosterRules.maxSize) {
+                    bid.status = 'rejected';
+                    continue;
+                }
+
+                player.contractData = contract;
+                team.roster.push(player);
+                this.freeAgents = this.freeAgents.filter(p => p.id !== player.id);
+                market.bids
+                    .filter(other => other.playerId === player.id && other.status === 'active')
+                    .forEach(other => { other.status = other === bid ? 'accepted' : 'rejected'; });
+
+                const signing: FreeAgentSigning = {
+                    playerId: player.id,
+                    playerName: `${player.firstName} ${player.lastName}`,
+                    teamId: team.id,
+                    day: market.day,
+                    offer: { ...bid.offer },
+                };
+                market.signings.push(signing);
+                signings.push(signing);
+                break;
+            }
+        });
+
+        if (market.day >= market.totalDays) {
+            market.isOpen = false;
+            market.bids
+                .filter(bid => bid.status === 'active')
+                .forEach(bid => { bid.status = 'rejected'; });
+        } else {
+            market.day++;
+        }
+
+        return signings;
+    }
+
+    /**
+     * Play out the rest of free agency
+     */
+    runFreeAgency(): FreeAgentSigning[] {
+        const signings: FreeAgentSigning[] = [];
+        while (this.freeAgency?.isOpen) {
+            signings.push(...this.advanceFreeAgencyDay());
+        }
+        return signings;
+    }
+
+    /**
+     * AI teams place new bids on the players they want most and raise
+     * bids that have been topped, within cap space and their valuation.
+     */
+    private placeAIBids(market: FreeAgencyState): void {
+        const config = ECONOMY_CONSTANTS.FREE_AGENCY;
+
+        this.teams.forEach(team => {
+            if (team.id === this.userTeamId) return;
+
+            const activeBids = market.bids.filter(bid => bid.teamId === team.id && bid.status === 'active');
+            const firstYearHit = (offer: ContractOffer) => calculateCapHit(buildContract(offer.averageSalary, offer, 0));
+            let committed = activeBids.reduce((total, bid) => total + firstYearHit(bid.offer), 0);
+            const fits = (hit: number) => checkCapSpace(team, this.salaryCap, committed + hit).success;
+
+            // Raise bids that are no longer the best on the table
+            activeBids.forEach(bid => {
+                const player = this.freeAgents.find(p => p.id === bid.playerId);
+                if (!player) return;
+
+                const topRatio = Math.max(...this.getFreeAgentBids(player.id)
+                    .map(other => evaluateFreeAgentBid(player, this.teams.get(other.teamId) as Team, other).valueRatio));
+                const ownRatio = evaluateFreeAgentBid(player, team, bid).valueRatio;
+                const ceiling = calculateResignSalary(player) * config.MAX_OVERPAY;
+                const raised = roundMillions(bid.offer.averageSalary * (1 + config.RAISE_STEP));
+                if (ownRatio >= topRatio || raised > ceiling) return;
+
+                const extra = firstYearHit({ ...bid.offer, averageSalary: raised }) - firstYearHit(bid.offer);
+                if (!fits(extra)) return;
+
+                committed += extra;
+                bid.offer = { ...bid.offer, averageSalary: raised };
+                bid.day = market.day;
+            });
+
+            // New bids: fill needs first, then the best players available,
+            // steering away from players many rivals are already chasing
+            const appeal = (player: EconomyPlayer) =>
+                player.overall - this.getFreeAgentBids(player.id).length * config.COMPETITION_PENALTY;
+            const targets = this.freeAgents
+                .filter(player => !activeBids.some(bid => bid.playerId === player.id))
+                .filter(player => calculatePositionNeed(team, player.position) > 0 || wouldStart(team, player))
+                .sort((a, b) =>
+                    (calculatePositionNeed(team, b.position) > 0 ? 1 : 0) - (calculatePositionNeed(team, a.position) > 0 ? 1 : 0) ||
+                    appeal(b) - appeal(a)
+                );
+
+            let placed = 0;
+            for (const player of targets) {
+                if (placed >= config.AI_BIDS_PER_DAY || activeBids.length + placed >= config.AI_MAX_ACTIVE_BIDS) break;
+
+                const offer: ContractOffer = {
+                    averageSalary: calculateAIValuation(team, player),
+                    years: calculatePlayerDemands(player, team).preferredYears,
+                };
+                const hit = firstYearHit(offer);
+                if (!fits(hit)) continue;
+
+                committed += hit;
+                placed++;
+                market.bids.push({
+                    id: generateId(),
+                    playerId: player.id,
+                    teamId: team.id,
+                    offer,
+                    day: market.day,
+                    status: 'active',
+                });
+            }
+        });
+    }
+
+    // ========================================================================
+    // SCOUTING
+    // ========================================================================
+
+    /**
+     * Spend a team's scouting points on a player (a prospect, free agent or
+     * another team's player) to narrow their rating ranges. Points beyond
+     * what full scouting needs are not spent.
+     */
+    scoutPlayer(teamId: string, playerId: string, points: number): TransactionResult {
+        const team = this.teams.get(teamId);
+        if (!team) {
+            return { success: false, message: 'Team not found' };
+        }
+        const player = this.findAnyPlayer(playerId);
+        if (!player) {
+            return { success: false, message: 'Player not found' };
+        }
+        if (team.roster.some(p => p.id === playerId)) {
+            return { success: false, message: 'Teams already know their own players' };
+        }
+        if (!Number.isInteger(points) || points <= 0) {
+            return { success: false, message: 'Scouting points must be a positive whole number' };
+        }
+        const available = team.scoutingPoints ?? 0;
+        if (points > available) {
+            return { success: false, message: `Only ${available} scouting points left this season` };
+        }
+
+        let report = findScoutingReport(this.scoutingReports, teamId, playerId);
+        if (!report) {
+            report = { teamId, playerId, pointsSpent: 0 };
+            this.scoutingReports.push(report);
+        }
+        const spent = Math.min(points, getFullScoutingCost() - report.pointsSpent);
+        if (spent <= 0) {
+            return { success: false, message: `${player.firstName} ${player.lastName} is already fully scouted` };
+        }
+
+        report.pointsSpent += spent;
+        team.scoutingPoints = available - spent;
+        return {
+            success: true,
+            message: `Scouted ${player.firstName} ${player.lastName} to level ${getScoutingLevel(report.pointsSpent)} ` +
+                `(${spent} points, ${team.scoutingPoints} left)`,
+            player,
+        };
+    }
+
+    /**
+     * Get what a team's scouts know about a player
+     */
+    getScoutingReport(teamId: string, playerId: string): ScoutedPlayerView | undefined {
+        const team = this.teams.get(teamId);
+        const player = this.findAnyPlayer(playerId);
+        if (!team || !player) return undefined;
+        return buildScoutedView(team, player, findScoutingReport(this.scoutingReports, teamId, playerId));
+    }
+
+    /**
+     * Get the draft prospects as a team sees them, best estimated overall first
+     */
+    getScoutedDraftBoard(teamId: string): ScoutedPlayerView[] {
+        const team = this.teams.get(teamId);
+        if (!team) return [];
+        return (this.draft?.prospects ?? [])
+            .map(prospect => buildScoutedView(team, prospect, findScoutingReport(this.scoutingReports, teamId, prospect.id)))
+            .sort((a, b) => b.overall.estimate - a.overall.estimate);
+    }
+
+    /**
+     * AI teams spread their remaining scouting points over the top of their
+     * current draft board
+     */
+    private scoutProspectsForAI(prospects: EconomyPlayer[]): void {
+        const targets = ECONOMY_CONSTANTS.SCOUTING.AI_TARGETS;
+
+        this.teams.forEach(team => {
+            if (team.id === this.userTeamId) return;
+
+            const board = prospects
+                .map(prospect => ({ prospect, score: scoreProspectForTeam(team, getScoutedPlayer(team, prospect, this.scoutingReports)) }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, targets);
+            const share = Math.floor((team.scoutingPoints ?? 0) / Math.max(1, board.length));
+            if (share <= 0) return;
+
+            board.forEach(({ prospect }) => this.scoutPlayer(team.id, prospect.id, share));
+        });
+    }
+
+    /**
+     * Find a player anywhere: on a roster, in free agency or in the draft class
+     */
+    private findAnyPlayer(playerId: string): EconomyPlayer | undefined {
+        for (const team of this.teams.values()) {
+            const player = team.roster.find(p => p.id === playerId);
+            if (player) return player;
+        }
+        return this.freeAgents.find(p => p.id === playerId) ??
+            this.draft?.prospects.find(p => p.id === playerId);
+    }
+
+    // ========================================================================
+    // TRADES
+    // ========================================================================
+
+    /**
+     * Validate a trade and get the other teams' verdicts without executing it
+     */
+    evaluateTrade(proposal: TradeProposal): TradeEvaluation {
+        return evaluateTrade(
+            proposal, this.teams, this.salaryCap, this.draftPicks, this.scoutingReports, this.rosterRules,
+            this.getCurrentSeason()
+        );
+    }
+
+    /**
+     * Propose a trade. Executes it if every other team accepts; otherwise
+     * returns the rejection or counter-proposal with each team's reasons.
+     */
+    proposeTrade(proposal: TradeProposal): TradeResult {
+        const evaluation = this.evaluateTrade(proposal);
+
+        if (!evaluation.valid) {
+            return {
+                success: false,
+                executed: false,
+                evaluation,
+                message: `Invalid trade: ${evaluation.errors.join('; ')}`,
+            };
+        }
+        if (evaluation.decision !== 'accept') {
+            const objections = evaluation.teams
+                .filter(team => team.decision !== 'accept')
+                .map(team => `${this.teams.get(team.teamId)?.name}: ${team.reasons[team.reasons.length - 1]}`);
+            return {
+                success: false,
+                executed: false,
+                evaluation,
+                message: `Trade ${evaluation.decision === 'counter' ? 'countered' : 'rejected'} - ${objections.join('; ')}`,
+            };
+        }
+
+        this.executeTrade(proposal);
+        return { success: true, executed: true, evaluation, message: 'Trade completed' };
+    }
+
+    /**
+     * Move every asset in an already-validated trade
+     */
+    private executeTrade(proposal: TradeProposal): void {
+        // Resolve players first so multi-team legs see the original rosters
+        const moves = proposal.legs.map(leg => ({
+            leg,
+            from: this.teams.get(leg.fromTeamId) as Team,
+            to: this.teams.get(leg.toTeamId) as Team,
+            player: leg.asset.type === 'player'
+                ? findRosterPlayer(this.teams.get(leg.fromTeamId), leg.asset.playerId)
+                : undefined,
+        }));
+
+        moves.forEach(({ leg, from, to, player }) => {
+            if (player) {
+                from.roster = from.roster.filter(p => p.id !== player.id);
+                chargeDeadCap(from, player, 'traded');
+                if (player.contractData) {
+                    // The old team has taken the bonus as dead cap; the new team only owes base salary
+                    player.contractData.signingBonus = 0;
+                    player.contractData.annualSalary = calculateCapHit(player.contractData);
+                }
+                to.roster.push(player);
+                this.negotiations = this.negotiations.filter(n => n.playerId !== player.id);
+            } else if (leg.asset.type === 'fame') {
+                from.fameBudget -= leg.asset.amount;
+                to.fameBudget += leg.asset.amount;
+            } else if (leg.asset.type === 'draft_pick') {
+                const pickId = leg.asset.pickId;
+                const pick = this.draftPicks.find(p => p.id === pickId);
+                if (pick) pick.ownerTeamId = to.id;
+            }
+        });
+    }
+
+    // ========================================================================
+    // DRAFT PICKS
+    // ========================================================================
+
+    /**
+     * Make sure every team holds its own picks for the current season's draft
+     * and the FUTURE_SEASONS - 1 drafts after it
+     * @param fromSeason - First draft season in the window (defaults to the current season)
+     */
+    private ensureDraftPicks(fromSeason: number = this.getCurrentSeason()): void {
+        const teamIds = Array.from(this.teams.keys());
+        for (let season = fromSeason; season < fromSeason + ECONOMY_CONSTANTS.DRAFT.FUTURE_SEASONS; season++) {
+            const missing = teamIds.filter(teamId =>
+                !this.draftPicks.some(pick => pick.season === season && pick.originalTeamId === teamId)
+            );
+            this.draftPicks.push(...createDraftPicks(missing, season));
+        }
+    }
+
+    /**
+     * Number a season's picks from its final standings and apply protections.
+     * Called by processEndOfSeason; call it directly to see the order once the
+     * playoffs are over.
+     * @returns The season's picks in draft order
+     */
+    resolveDraftOrder(season: number = this.getCurrentSeason()): DraftPick[] {
+        const teams = Array.from(this.teams.values());
+        const order = calculateDraftOrder(teams, this.getStandings());
+        resolveDraftPicks(this.draftPicks, season, order);
+        return this.getDraftPicks(undefined, season);
+    }
+
+    /**
+     * Get draft picks, optionally only those owned by a team and/or for one season.
+     * Resolved picks come back in draft order.
+     */
+    getDraftPicks(teamId?: string, season?: number): DraftPick[] {
+        return this.draftPicks
+            .filter(pick => (teamId === undefined || pick.ownerTeamId === teamId) &&
+                (season === undefined || pick.season === season))
+            .sort((a, b) => a.season - b.season ||
+                (a.pickNumber ?? Infinity) - (b.pickNumber ?? Infinity) ||
+                a.round - b.round);
+    }
+
+    /**
+     * Get a draft pick by ID
+     */
+    getDraftPick(pickId: string): DraftPick | undefined {
+        return this.draftPicks.find(pick => pick.id === pickId);
+    }
+
+    /**
+     * Estimated trade value of a pick in draft points
+     */
+    getDraftPickValue(pickId: string): number {
+        const pick = this.getDraftPick(pickId);
+        return pick ? estimateDraftPickValue(pick, this.teams, this.getCurrentSeason()) : 0;
+    }
+
+    /**
+     * Add or remove a top-N protection on a pick. Only the original team can
+     * protect a pick, and only while it still owns it and the order is unknown
+     * (protect it before trading it away).
+     */
+    setDraftPickProtection(teamId: string, pickId: string, protectedTop: number | null): TransactionResult {
+        const pick = this.getDraftPick(pickId);
+        if (!pick) {
+            return { success: false, message: 'Draft pick not found' };
+        }
+        if (pick.originalTeamId !== teamId || pick.ownerTeamId !== teamId) {
+            return { success: false, message: 'Only the original team can protect a pick it still owns' };
+        }
+        if (pick.status !== 'pending') {
+            return { success: false, message: 'The draft order for this pick is already set' };
+        }
+        if (protectedTop === null) {
+            delete pick.protectedTop;
+            return { success: true, message: `${describeDraftPick(pick, this.teams)} is now unprotected` };
+        }
+        if (!Number.isInteger(protectedTop) || protectedTop < 1 || protectedTop >= this.teams.size) {
+            return { success: false, message: `Protection must be a whole number from 1 to ${this.teams.size - 1}` };
+        }
 
-    constructor() {
-        // Initialize
+        pick.protectedTop = protectedTop;
+        return { success: true, message: `${describeDraftPick(pick, this.teams)} is now top-${protectedTop} protected` };
     }
 
     // ========================================================================
-    // TEAM MANAGEMENT
+    // DRAFT
     // ========================================================================
 
     /**
-     * Create a new team with starting budget
+     * Open a season's draft: fixes the order from the final standings (if not
+     * already resolved) and generates the prospect class. Returns the open
+     * draft if one is already running.
      */
-    createTeam(name: string): Team {
-        const team: Team = {
-            id: generateId(),
-            name,
-            fameBudget: ECONOMY_CONSTANTS.STARTING_FAME,
-            coachVP: 0,
-            roster: [],
-            record: { wins: 0, losses: 0 },
-        };
+    startDraft(season: number = this.getCurrentSeason()): DraftState {
+        if (this.draft && !this.draft.isComplete) return this.draft;
 
-        this.teams.set(team.id, team);
-        return team;
+        if (this.draftPicks.some(pick => pick.season === season && pick.status === 'pending')) {
+            this.resolveDraftOrder(season);
+        }
+        const picks = this.getDraftPicks(undefined, season).filter(pick => pick.status === 'resolved');
+
+        this.draft = {
+            season,
+            pickIds: picks.map(pick => pick.id),
+            currentIndex: 0,
+            prospects: generateDraftClass(Math.ceil(picks.length * ECONOMY_CONSTANTS.DRAFT.CLASS_SIZE_FACTOR)),
+            selections: [],
+            isComplete: false,
+        };
+        this.scoutProspectsForAI(this.draft.prospects);
+        this.skipUnusableDraftPicks(this.draft);
+        return this.draft;
     }
 
     /**
-     * Get a team by ID
+     * Get the current (or last) draft
      */
-    getTeam(teamId: string): Team | undefined {
-        return this.teams.get(teamId);
+    getDraftState(): DraftState | null {
+        return this.draft;
     }
 
     /**
-     * Get all teams
+     * Get the prospects still available as a team's scouts see them (the
+     * user's team by default), best estimated overall first. Ratings are the
+     * scouted estimates; true ratings stay hidden until a prospect is drafted.
+     * Use getScoutedDraftBoard for the full scouted ranges.
+     * @param teamId - Team whose scouting to use (no team, no prospects)
      */
-    getAllTeams(): Team[] {
-        return Array.from(this.teams.values());
+    getDraftProspects(teamId: string | null = this.userTeamId): EconomyPlayer[] {
+        const team = teamId ? this.teams.get(teamId) : undefined;
+        if (!team) return [];
+        return (this.draft?.prospects ?? [])
+            .map(prospect => getScoutedPlayer(team, prospect, this.scoutingReports))
+            .sort((a, b) => b.overall - a.overall);
     }
 
     /**
-     * Get team's current fame budget
+     * Get the pick on the clock, if a draft is running
      */
-    getTeamBudget(teamId: string): number {
-        const team = this.teams.get(teamId);
-        return team?.fameBudget ?? 0;
+    getCurrentDraftPick(): DraftPick | undefined {
+        const draft = this.draft;
+        if (!draft || draft.isComplete) return undefined;
+        return this.getDraftPick(draft.pickIds[draft.currentIndex]);
     }
 
     /**
-     * Add fame to team budget
+     * Draft a prospect with the user's team, which must be on the clock
      */
-    addFame(teamId: string, amount: number): boolean {
-        const team = this.teams.get(teamId);
-        if (!team) return false;
+    draftProspect(playerId: string): TransactionResult {
+        const draft = this.draft;
+        if (!draft || draft.isComplete) {
+            return { success: false, message: 'No draft is running' };
+        }
+        const pick = this.getCurrentDraftPick() as DraftPick;
+        if (!this.userTeamId || pick.ownerTeamId !== this.userTeamId) {
+            return { success: false, message: 'The user team is not on the clock' };
+        }
+        const prospect = draft.prospects.find(p => p.id === playerId);
+        if (!prospect) {
+            return { success: false, message: 'Prospect not available' };
+        }
 
-        team.fameBudget += amount;
-        return true;
+        const selection = this.makeDraftSelection(draft, pick, prospect, false);
+        return {
+            success: true,
+            message: `Pick #${selection.pickNumber}: ${selection.playerName} (${selection.position}, ${selection.overall})`,
+            player: prospect,
+            warnings: selection.warnings,
+        };
     }
 
     /**
-     * Deduct fame from team budget
+     * Let the AI make picks until the user's team is on the clock or the
+     * draft ends. Returns the selections made.
      */
-    deductFame(teamId: string, amount: number): boolean {
-        const team = this.teams.get(teamId);
-        if (!team || team.fameBudget < amount) return false;
-
-        team.fameBudget -= amount;
-        return true;
+    advanceDraft(): DraftSelection[] {
+        const selections: DraftSelection[] = [];
+        let pick = this.getCurrentDraftPick();
+        while (this.draft && pick && pick.ownerTeamId !== this.userTeamId) {
+            selections.push(this.autoDraft(this.draft, pick));
+            pick = this.getCurrentDraftPick();
+        }
+        return selections;
     }
 
-    // ========================================================================
-    // PLAYER TRANSACTIONS
-    // ========================================================================
+    /**
+     * Run the rest of the draft, auto-picking for the user's team too
+     */
+    runDraft(): DraftSelection[] {
+        const selections: DraftSelection[] = [];
+        let pick = this.getCurrentDraftPick();
+        while (this.draft && pick) {
+            selections.push(this.autoDraft(this.draft, pick));
+            pick = this.getCurrentDraftPick();
+        }
+        return selections;
+    }
 
     /**
-     * Create a new player with initialized hype data
+     * Make the pick on the clock for its owner from the owner's draft board
      */
-    createPlayer(
-        firstName: string,
-        lastName: string,
-        position: Position,
-        stats: PlayerStats,
-        age: number,
-        peakAge: number,
-        potentialGrade: number,
-        coreAttributes?: CoreAttributes
-    ): EconomyPlayer {
-        // Generate core attributes if not provided, inferring tier from overall
-        const overall = this.calculateOverall(stats, position);
-        const inferredCoreAttrs = coreAttributes || generateCoreAttributes(
-            position,
-            overall >= 88 ? 'elite' :
-            overall >= 78 ? 'veteran' :
-            overall >= 68 ? 'average' :
-            overall >= 58 ? 'below_average' : 'backup'
-        );
+    private autoDraft(draft: DraftState, pick: DraftPick): DraftSelection {
+        const team = this.teams.get(pick.ownerTeamId) as Team;
+        const prospect = chooseDraftProspect(team, draft.prospects, this.scoutingReports) as EconomyPlayer;
+        return this.makeDraftSelection(draft, pick, prospect, true);
+    }
 
-        const player: EconomyPlayer = {
-            id: generateId(),
-            firstName,
-            lastName,
-            age,
-            position,
-            stats,
-            overall,
-            peakAge,
-            potentialGrade,
-            yearsInLeague: Math.max(0, age - 21),
-            salaryCost: 0,
-            hypeData: initializeHypeData(),
-            coreAttributes: inferredCoreAttrs,
+    /**
+     * Put a prospect on the picking team's roster with a rookie contract slotted
+     * by pick number, then move the clock on. Rookie deals are slotted, so they
+     * do not need cap room. AI teams repair their roster after each pick (a
+     * full roster sends its weakest spare players to the practice squad or
+     * the street); the user's team gets warnings instead.
+     */
+    private makeDraftSelection(draft: DraftState, pick: DraftPick, prospect: EconomyPlayer, auto: boolean): DraftSelection {
+        const team = this.teams.get(pick.ownerTeamId) as Team;
+        const pickNumber = pick.pickNumber as number;
+        const rosterBefore = validateRoster(team, this.rosterRules);
+
+        prospect.contractData = initializeRookieContract(pickNumber);
+        team.roster.push(prospect);
+        const warnings = team.id === this.userTeamId ? this.getRosterWarnings(team, rosterBefore) : undefined;
+        if (team.id !== this.userTeamId) this.repairRoster(team.id);
+        draft.prospects = draft.prospects.filter(p => p.id !== prospect.id);
+        pick.status = 'used';
+
+        const selection: DraftSelection = {
+            pickId: pick.id,
+            pickNumber,
+            round: pick.round,
+            teamId: team.id,
+            playerId: prospect.id,
+            playerName: `${prospect.firstName} ${prospect.lastName}`,
+            position: prospect.position,
+            overall: prospect.overall,
+            auto,
         };
+        if (warnings) selection.warnings = warnings;
+        draft.selections.push(selection);
 
-        // Calculate salary cost
-        player.salaryCost = calculatePlayerCost(player);
+        draft.currentIndex++;
+        this.skipUnusableDraftPicks(draft);
+        return selection;
+    }
 
-        return player;
+    /**
+     * Move the clock past picks that cannot be made (owner no longer in the
+     * league, or the board is empty) and close the draft once no picks remain.
+     * Undrafted prospects join the free agent pool.
+     */
+    private skipUnusableDraftPicks(draft: DraftState): void {
+        while (draft.currentIndex < draft.pickIds.length) {
+            const pick = this.getDraftPick(draft.pickIds[draft.currentIndex]);
+            if (pick && this.teams.has(pick.ownerTeamId) && draft.prospects.length > 0) return;
+            draft.currentIndex++;
+        }
+
+        draft.isComplete = true;
+        this.freeAgents.push(...draft.prospects);
+        draft.prospects = [];
     }
 
     /**
-     * Calculate overall rating from stats
+     * Move a player whose contract has expired off the roster and into free agency.
+     * Returns false (and leaves the player in place) if they are still under contract.
      */
-    private calculateOverall(stats: PlayerStats, position: Position): number {
-        const primaryStats: Record<Position, (keyof PlayerStats)[]> = {
-            WR: ['speed', 'catching', 'routeRunning', 'release', 'agility'],
-            CB: ['speed', 'tackling', 'awareness', 'agility', 'pursuit'],
-            OL: ['passBlock', 'strength', 'balance', 'awareness'],
-            DL: ['passRush', 'strength', 'tackling', 'hitPower', 'pursuit'],
-            QB: ['throwing', 'awareness', 'agility', 'strength'],
-        };
+    private moveToFreeAgencyIfExpired(team: Team, player: EconomyPlayer): boolean {
+        this.negotiations = this.negotiations.filter(n => n.playerId !== player.id);
+        if (!isContractExpired(player)) return false;
 
-        const statKeys = primaryStats[position];
-        const total = statKeys.reduce((sum, key) => sum + (stats[key] || 0), 0);
-        return Math.floor(total / statKeys.length);
+        team.roster = team.roster.filter(p => p.id !== player.id);
+        this.freeAgents.push(player);
+        return true;
     }
 
     /**
-     * Buy a player for a team.
-     * Cost is based on stats and hype multiplier.
+     * Initialize a rookie contract for a drafted player.
+     * Returns false if the team or player is not found or the deal doesn't fit
+     * under the cap; use signRookieContract for the reason.
+     * @param playerId - The player ID
+     * @param teamId - The team that drafted the player
+     * @param pickNumber - The overall draft pick number (1-60)
      */
-    buyPlayer(teamId: string, player: EconomyPlayer): TransactionResult {
+    initializeRookieContract(teamId: string, playerId: string, pickNumber: number): boolean {
+        return this.signRookieContract(teamId, playerId, pickNumber).success;
+    }
+
+    /**
+     * Sign a drafted player to the rookie contract for their pick, checking
+     * the deal fits under the cap
+     * @param teamId - The team that drafted the player
+     * @param playerId - The player ID
+     * @param pickNumber - The overall draft pick number (1-60)
+     */
+    signRookieContract(teamId: string, playerId: string, pickNumber: number): TransactionResult {
         const team = this.teams.get(teamId);
         if (!team) {
             return { success: false, message: 'Team not found' };
         }
 
-        const cost = calculatePlayerCost(player);
+        const player = team.roster.find(p => p.id === playerId);
+        if (!player) {
+            return { success: false, message: 'Player not found on team roster' };
+        }
 
-        if (team.fameBudget < cost) {
+        const contract = initializeRookieContract(pickNumber);
+        const capCheck = checkCapSpace(team, this.salaryCap, contract.annualSalary, player.contractData?.annualSalary ?? 0);
+        if (!capCheck.success) {
             return {
                 success: false,
-                message: `Insufficient fame. Need ${cost}, have ${team.fameBudget}`,
+                message: `Cannot sign pick #${pickNumber} ${player.firstName} ${player.lastName} ` +
+                    `at $${contract.annualSalary}M/year: ${capCheck.message}`,
             };
         }
 
-        // Deduct cost
-        team.fameBudget -= cost;
-
-        // Add player to roster
-        team.roster.push(player);
-
+        player.contractData = contract;
         return {
             success: true,
-            message: `Signed ${player.firstName} ${player.lastName} for ${cost} fame`,
-            newBudget: team.fameBudget,
+            message: `${player.firstName} ${player.lastName} signed a ${contract.yearsRemaining}-year rookie contract ` +
+                `at $${contract.annualSalary}M/year`,
             player,
         };
     }
 
     /**
-     * Harvest (trade) a player for fame
+     * Get contract summary for a player
      */
-    harvestPlayer(teamId: string, playerId: string): HarvestResult | null {
+    getContractSummary(teamId: string, playerId: string): ContractStatusSummary | null {
         const team = this.teams.get(teamId);
         if (!team) return null;
 
-        return harvestPlayer(team, playerId);
-    }
+        const player = team.roster.find(p => p.id === playerId);
+        if (!player) return null;
 
-    // ========================================================================
-    // PERFORMANCE PROCESSING
-    // ========================================================================
+        return getContractStatusSummary(player);
+    }
 
     /**
-     * Process game performance for a player
+     * Calculate total salary cap usage for a team
      */
-    processGamePerformance(
-        teamId: string,
-        playerId: string,
-        gameStats: {
-            catches?: number;
-            touchdowns?: number;
-            tackles?: number;
-            sacks?: number;
-            interceptions?: number;
-            passesDefended?: number;
-            yardsGained?: number;
-        }
-    ): number {
+    getTeamSalaryTotal(teamId: string): number {
         const team = this.teams.get(teamId);
         if (!team) return 0;
 
-        const player = team.roster.find(p => p.id === playerId);
-        if (!player) return 0;
-
-        const rawPoints = calculateRawPerformancePoints(gameStats);
-        const earnedFame = calculateEarnedFame(rawPoints, player);
-
-        // Update player's fame bank
-        player.hypeData.accumulatedFameBank += earnedFame;
-        player.hypeData.seasonFameEarnings += earnedFame;
-
-        return earnedFame;
+        return calculateTeamPayroll(team);
     }
 
     /**
-     * Reset season earnings for all players on a team
+     * Change the league salary cap. Throws if the settings are inconsistent.
      */
-    resetSeasonEarnings(teamId: string): void {
-        const team = this.teams.get(teamId);
-        if (!team) return;
+    setSalaryCap(settings: Partial<SalaryCapSettings>): SalaryCapSettings {
+        const next: SalaryCapSettings = { ...this.salaryCap, ...settings };
+        if (!(next.cap > 0)) {
+            throw new Error(`Salary cap must be positive, got ${next.cap}`);
+        }
+        if (next.floor !== null && (next.floor < 0 || next.floor > next.cap)) {
+            throw new Error(`Salary floor must be between 0 and the cap ($${next.cap}M), got ${next.floor}`);
+        }
 
-        team.roster.forEach(player => {
-            player.hypeData.seasonFameEarnings = 0;
-        });
+        this.salaryCap = next;
+        return { ...next };
     }
 
-    // ========================================================================
-    // COACH VP & PLAYOFFS
-    // ========================================================================
+    /**
+     * Get the league salary cap settings
+     */
+    getSalaryCap(): SalaryCapSettings {
+        return { ...this.salaryCap };
+    }
 
     /**
-     * Get coach VP for a team
+     * Get a team's payroll measured against the cap and floor
      */
-    getCoachVP(teamId: string): number {
+    getCapStatus(teamId: string): TeamCapStatus | null {
         const team = this.teams.get(teamId);
-        return team?.coachVP ?? 0;
+        if (!team) return null;
+        return getTeamCapStatus(team, this.salaryCap);
     }
 
     /**
-     * Award VP based on playoff finish
+     * Project committed salary and cap space for the next few seasons
      */
-    awardPlayoffVP(teamId: string, finish: PlayoffFinish): number {
+    getCapProjection(
+        teamId: string,
+        years: number = ECONOMY_CONSTANTS.SALARY_CAP.PROJECTION_YEARS
+    ): CapProjectionYear[] {
         const team = this.teams.get(teamId);
-        if (!team) return 0;
+        if (!team) return [];
+        return projectTeamCap(team, this.salaryCap, years);
+    }
 
-        const vpAwards = ECONOMY_CONSTANTS.VP_AWARDS;
-        let vpAwarded = 0;
+    /**
+     * Get a summary of a player's economy status
+     */
+    getPlayerEconomySummary(player: EconomyPlayer): {
+        currentMultiplier: number;
+        yearsToCliff: number;
+        hasHitCliff: boolean;
+        accumulatedFame: number;
+        seasonFame: number;
+        harvestValue: number;
+        marketValue: number;
+    } {
+        return {
+            currentMultiplier: calculateCurrentMultiplier(player),
+            yearsToCliff: getYearsToCliff(player),
+            hasHitCliff: hasHitCliff(player),
+            accumulatedFame: player.hypeData.accumulatedFameBank,
+            seasonFame: player.hypeData.seasonFameEarnings,
+            harvestValue: calculateHarvestValue(player),
+            marketValue: calculatePlayerCost(player),
+        };
+    }
 
-        switch (finish) {
-            case 'champion':
-                vpAwarded = vpAwards.CHAMPION;
-                break;
-            case 'runner_up':
-                vpAwarded = vpAwards.RUNNER_UP;
-                break;
-            case 'conference_finals':
-                vpAwarded = vpAwards.CONFERENCE_FINALS;
-                break;
-            case 'divisional':
-                vpAwarded = vpAwards.DIVISIONAL;
-                break;
-            case 'wild_card':
-                vpAwarded = vpAwards.WILD_CARD;
-                break;
-            case 'missed':
-            default:
-                vpAwarded = vpAwards.MISSED;
-                break;
-        }
+    // ========================================================================
+    // INJURIES
+    // ========================================================================
 
-        team.coachVP += vpAwarded;
-        team.playoffFinish = finish;
+    /**
+     * Get a team's injured players (out or still playing through lingering effects)
+     */
+    getInjuredPlayers(teamId: string): EconomyPlayer[] {
+        const team = this.teams.get(teamId);
+        if (!team) return [];
+        return team.roster.filter(player => player.injury !== undefined);
+    }
 
-        return vpAwarded;
+    /**
+     * Get a team's injured reserve list
+     */
+    getInjuredReserve(teamId: string): EconomyPlayer[] {
+        const team = this.teams.get(teamId);
+        if (!team) return [];
+        return team.roster.filter(player => player.injuredReserve !== undefined);
     }
 
     /**
-     * Initialize playoffs with top teams
+     * Players on a team's active roster (injured reserve does not count)
      */
-    initializePlayoffs(teams: Team[]): PlayoffTeam[] {
-        // Sort by wins, then by point differential (simplified: just wins)
-        const sorted = [...teams].sort((a, b) => {
-            const winDiff = b.record.wins - a.record.wins;
-            if (winDiff !== 0) return winDiff;
-            return a.record.losses - b.record.losses;
-        });
-
-        // Take top 8 teams
-        const playoffTeams = sorted
-            .slice(0, ECONOMY_CONSTANTS.PLAYOFFS.TEAMS_QUALIFY)
-            .map((team, index) => ({
-                team,
-                seed: index + 1,
-            }));
-
-        // Mark teams that missed playoffs
-        sorted.slice(ECONOMY_CONSTANTS.PLAYOFFS.TEAMS_QUALIFY).forEach(team => {
-            this.awardPlayoffVP(team.id, 'missed');
-        });
-
-        return playoffTeams;
+    getActiveRosterSize(teamId: string): number {
+        const team = this.teams.get(teamId);
+        return team ? getActiveRosterSize(team) : 0;
     }
 
     /**
-     * Simulate a playoff matchup between two teams.
-     * Returns the winner and awards VP to the loser.
+     * Move a long-term injured player to injured reserve, freeing their roster spot.
+     * The player must be out at least RESERVE_MIN_WEEKS and stays there at least as long.
      */
-    simulatePlayoffMatch(
-        team1: Team,
-        team2: Team,
-        round: 'wild_card' | 'divisional' | 'conference_finals' | 'championship'
-    ): PlayoffMatchResult {
-        // Calculate team strengths
-        const strength1 = this.calculateTeamStrength(team1);
-        const strength2 = this.calculateTeamStrength(team2);
-
-        // Add randomness
-        const roll1 = strength1 + Math.random() * 30;
-        const roll2 = strength2 + Math.random() * 30;
-
-        const winner = roll1 > roll2 ? team1 : team2;
-        const loser = roll1 > roll2 ? team2 : team1;
-
-        // Generate scores
-        const baseScore = 14;
-        const winnerScore = baseScore + randomInt(7, 28);
-        const loserScore = baseScore + randomInt(0, 14);
-
-        // Award VP to loser based on round eliminated
-        let loserFinish: PlayoffFinish;
-        switch (round) {
-            case 'wild_card':
-                loserFinish = 'wild_card';
-                break;
-            case 'divisional':
-                loserFinish = 'divisional';
-                break;
-            case 'conference_finals':
-                loserFinish = 'conference_finals';
-                break;
-            case 'championship':
-                loserFinish = 'runner_up';
-                break;
+    placeOnInjuredReserve(teamId: string, playerId: string): TransactionResult {
+        const team = this.teams.get(teamId);
+        const player = team?.roster.find(p => p.id === playerId);
+        if (!team || !player) {
+            return { success: false, message: 'Player not found on team' };
+        }
+        if (player.injuredReserve) {
+            return { success: false, message: `${player.firstName} ${player.lastName} is already on injured reserve` };
+        }
+        if (player.practiceSquad) {
+            return { success: false, message: `${player.firstName} ${player.lastName} is on the practice squad` };
         }
 
-        this.awardPlayoffVP(loser.id, loserFinish);
-
-        // If championship, award winner
-        if (round === 'championship') {
-            this.awardPlayoffVP(winner.id, 'champion');
+        const minWeeks = ECONOMY_CONSTANTS.INJURIES.RESERVE_MIN_WEEKS;
+        if (!player.injury || player.injury.weeksOut < minWeeks) {
+            return {
+                success: false,
+                message: `${player.firstName} ${player.lastName} must be out at least ${minWeeks} weeks to go on injured reserve`,
+            };
         }
 
+        const rosterBefore = validateRoster(team, this.rosterRules);
+        player.injuredReserve = {
+            season: this.getCurrentSeason(),
+            week: this.seasonStandings && !this.isRegularSeasonComplete() ? this.seasonStandings.week : undefined,
+            weeksOnReserve: 0,
+        };
         return {
-            winner,
-            loser,
-            winnerScore,
-            loserScore,
+            success: true,
+            message: `${player.firstName} ${player.lastName} placed on injured reserve`,
+            warnings: this.getRosterWarnings(team, rosterBefore),
         };
     }
 
     /**
-     * Run a complete playoff bracket
+     * Return a healthy player from injured reserve to the active roster.
+     * Needs an open roster spot and at least RESERVE_MIN_WEEKS on reserve.
      */
-    runPlayoffs(teams: Team[]): PlayoffBracket {
-        const playoffTeams = this.initializePlayoffs(teams);
-
-        if (playoffTeams.length < 8) {
-            throw new Error('Not enough teams for playoffs');
+    activateFromInjuredReserve(teamId: string, playerId: string): TransactionResult {
+        const team = this.teams.get(teamId);
+        const player = team?.roster.find(p => p.id === playerId);
+        if (!team || !player) {
+            return { success: false, message: 'Player not found on team' };
+        }
+        const reserve = player.injuredReserve;
+        if (!reserve) {
+            return { success: false, message: `${player.firstName} ${player.lastName} is not on injured reserve` };
         }
 
-        // Wild Card Round: 1 vs 8, 2 vs 7, 3 vs 6, 4 vs 5
-        const wildCardMatchups = [
-            [playoffTeams[0], playoffTeams[7]],
-            [playoffTeams[1], playoffTeams[6]],
-            [playoffTeams[2], playoffTeams[5]],
-            [playoffTeams[3], playoffTeams[4]],
-        ];
-
-        const wildCardResults = wildCardMatchups.map(([t1, t2]) =>
-            this.simulatePlayoffMatch(t1.team, t2.team, 'wild_card')
-        );
-
-        // Divisional Round
-        const divisionalMatchups = [
-            [wildCardResults[0].winner, wildCardResults[3].winner],
-            [wildCardResults[1].winner, wildCardResults[2].winner],
-        ];
-
-        const divisionalResults = divisionalMatchups.map(([t1, t2]) =>
-            this.simulatePlayoffMatch(t1, t2, 'divisional')
-        );
+        const minWeeks = ECONOMY_CONSTANTS.INJURIES.RESERVE_MIN_WEEKS;
+        if (reserve.weeksOnReserve < minWeeks) {
+            return {
+                success: false,
+                message: `${player.firstName} ${player.lastName} must stay on injured reserve for ` +
+                    `${minWeeks - reserve.weeksOnReserve} more week(s)`,
+            };
+        }
+        if ((player.injury?.weeksOut ?? 0) > 0) {
+            return { success: false, message: `${player.firstName} ${player.lastName} is still injured` };
+        }
+        if (getActiveRosterSize(team) >= this.rosterRules.maxSize) {
+            return { success: false, message: `${team.name} has no open roster spot` };
+        }
 
-        // Conference Finals
-        const conferenceResults = [
-            this.simulatePlayoffMatch(
-                divisionalResults[0].winner,
-                divisionalResults[1].winner,
-                'conference_finals'
-            ),
-        ];
+        delete player.injuredReserve;
+        return { success: true, message: `${player.firstName} ${player.lastName} activated from injured reserve` };
+    }
 
-        // Championship
-        const championship = this.simulatePlayoffMatch(
-            conferenceResults[0].winner,
-            conferenceResults[0].loser,
-            'championship'
-        );
+    /**
+     * Move every injury on by a week, then let AI teams manage injured reserve.
+     * Injuries from the week (or playoff round) just played are skipped so a
+     * player always misses at least the next game.
+     */
+    private advanceInjuries(current: { week?: number; playoffRound?: number }): void {
+        const season = this.getCurrentSeason();
+        const isNew = (injury: PlayerInjury) => injury.season === season && (current.week !== undefined
+            ? injury.week === current.week
+            : injury.playoffRound === current.playoffRound);
+
+        const players = [...Array.from(this.teams.values()).flatMap(team => team.roster), ...this.freeAgents];
+        players.forEach(player => {
+            if (player.injury && isNew(player.injury)) return;
+            advanceInjuryRecovery(player);
+        });
 
-        return {
-            wildCardRound: wildCardResults,
-            divisionalRound: divisionalResults,
-            conferenceFinals: conferenceResults,
-            championship,
-        };
+        this.teams.forEach(team => {
+            if (team.id !== this.userTeamId) this.manageInjuredReserve(team);
+        });
     }
 
     /**
-     * Calculate team strength for playoff simulation
+     * AI injured reserve moves: activate players who are ready, then stash
+     * anyone out long enough to qualify
      */
-    private calculateTeamStrength(team: Team): number {
-        if (team.roster.length === 0) return 50;
+    private manageInjuredReserve(team: Team): void {
+        team.roster
+            .filter(player => player.injuredReserve)
+            .forEach(player => this.activateFromInjuredReserve(team.id, player.id));
+        team.roster
+            .filter(player => !player.injuredReserve &&
+                (player.injury?.weeksOut ?? 0) >= ECONOMY_CONSTANTS.INJURIES.RESERVE_MIN_WEEKS)
+            .forEach(player => this.placeOnInjuredReserve(team.id, player.id));
+    }
 
-        const avgOverall = team.roster.reduce((sum, p) => sum + p.overall, 0) / team.roster.length;
-        const avgHype = team.roster.reduce((sum, p) =>
-            sum + calculateCurrentMultiplier(p), 0) / team.roster.length;
+    // ========================================================================
+    // FATIGUE
+    // ========================================================================
 
-        // Factor in record
-        const winPct = team.record.wins / Math.max(1, team.record.wins + team.record.losses);
+    /**
+     * Get a team's players by season wear, most worn first
+     */
+    getTeamWear(teamId: string): { player: EconomyPlayer; wear: number }[] {
+        const team = this.teams.get(teamId);
+        if (!team) return [];
+        return team.roster
+            .map(player => ({ player, wear: player.wear ?? 0 }))
+            .sort((a, b) => b.wear - a.wear);
+    }
 
-        return avgOverall * 0.6 + avgHype * 20 + winPct * 30;
+    /**
+     * Recover a week of season wear. Teams that didn't play get the bye-week
+     * recovery; free agents are always resting.
+     */
+    private recoverSeasonWear(playedTeamIds: string[]): void {
+        this.teams.forEach(team => {
+            const bye = !playedTeamIds.includes(team.id);
+            team.roster.forEach(player => recoverWear(player, bye));
+        });
+        this.freeAgents.forEach(player => recoverWear(player, true));
     }
 
     // ========================================================================
-    // SEASON MANAGEMENT
+    // DEPTH CHART
     // ========================================================================
 
     /**
-     * Process end of season for all teams.
-     * This handles aging, contract year decrements, and resets.
-     * Note: Contract re-signing should be handled separately via getExpiringContracts
-     * and processResigningDecision before calling this.
+     * Get a team's depth chart, starters first at each position
      */
-    processEndOfSeason(): void {
-        this.teams.forEach(team => {
-            // Age all players
-            team.roster.forEach(player => {
-                player.age++;
-                player.yearsInLeague++;
-            });
+    getDepthChart(teamId: string): Record<Position, EconomyPlayer[]> | null {
+        const team = this.teams.get(teamId);
+        return team ? resolveDepthChart(team) : null;
+    }
 
-            // Decrement contract years for all players
-            decrementContractYears(team);
+    /**
+     * Get the lineup a team would field right now (unavailable starters replaced)
+     */
+    getStartingLineup(teamId: string): GameLineup | null {
+        const team = this.teams.get(teamId);
+        return team ? buildGameLineup(team) : null;
+    }
 
-            // Reset season stats
-            this.resetSeasonEarnings(team.id);
+    /**
+     * Order a position by hand. Players left out of the list follow it, best first.
+     */
+    setDepthChart(teamId: string, position: Position, playerIds: string[]): TransactionResult {
+        const team = this.teams.get(teamId);
+        if (!team) {
+            return { success: false, message: 'Team not found' };
+        }
+        if (new Set(playerIds).size !== playerIds.length) {
+            return { success: false, message: 'A player can only appear once on the depth chart' };
+        }
 
-            // Reset record
-            team.record = { wins: 0, losses: 0 };
-            team.playoffFinish = undefined;
-        });
+        const misplaced = playerIds.filter(playerId =>
+            !team.roster.some(player => player.id === playerId && player.position === position)
+        );
+        if (misplaced.length > 0) {
+            return { success: false, message: `Not ${position}s on ${team.name}: ${misplaced.join(', ')}` };
+        }
+
+        team.depthChart = { ...team.depthChart, [position]: [...playerIds] };
+        return { success: true, message: `${team.name} ${position} depth chart updated` };
+    }
+
+    /**
+     * Drop hand-set orders so positions are ranked automatically again
+     * @param position - Only reset this position (defaults to all of them)
+     */
+    autoFillDepthChart(teamId: string, position?: Position): boolean {
+        const team = this.teams.get(teamId);
+        if (!team) return false;
+
+        if (position && team.depthChart) {
+            delete team.depthChart[position];
+        } else {
+            delete team.depthChart;
+        }
+        return true;
     }
 
     // ========================================================================
-    // CONTRACT MANAGEMENT
+    // ROSTER RULES
     // ========================================================================
 
     /**
-     * Get all players with expiring contracts for a team.
-     * Call this before processEndOfSeason to handle re-signing.
+     * Get the league roster rules
      */
-    getExpiringContracts(teamId: string): ExpiringContract[] {
+    getRosterRules(): RosterRules {
+        return { ...this.rosterRules, positionMinimums: { ...this.rosterRules.positionMinimums } };
+    }
+
+    /**
+     * Change the league roster rules. Throws if the settings are inconsistent.
+     */
+    setRosterRules(rules: Partial<RosterRules>): RosterRules {
+        const next: RosterRules = {
+            ...this.rosterRules,
+            ...rules,
+            positionMinimums: { ...this.rosterRules.positionMinimums, ...rules.positionMinimums },
+        };
+        if (!(next.minSize >= 0) || !(next.maxSize >= next.minSize)) {
+            throw new Error(`Roster size limits must satisfy 0 <= min <= max, got ${next.minSize}-${next.maxSize}`);
+        }
+        const positionTotal = Object.values(next.positionMinimums).reduce((sum, count) => sum + count, 0);
+        if (Object.values(next.positionMinimums).some(count => !(count >= 0)) || positionTotal > next.maxSize) {
+            throw new Error(`Position minimums must be non-negative and fit on a ${next.maxSize}-player roster`);
+        }
+        if (!(next.practiceSquadSize >= 0) || !(next.practiceSquadMaxYears >= 0)) {
+            throw new Error('Practice squad limits must be non-negative');
+        }
+
+        this.rosterRules = next;
+        return this.getRosterRules();
+    }
+
+    /**
+     * Check a team's roster against the league rules
+     */
+    validateRoster(teamId: string): RosterViolation[] {
         const team = this.teams.get(teamId);
-        if (!team) return [];
-        return getExpiringContracts(team);
+        return team ? validateRoster(team, this.rosterRules) : [];
     }
 
     /**
-     * Process a re-signing decision for a player.
-     * @param teamId - The team ID
-     * @param playerId - The player ID
-     * @param choice - 'resign', 'trade', or 'release'
-     * @param draftPointsManager - Object to track draft points
+     * Move a young player to the practice squad, freeing their active roster spot
      */
-    processResigning(
-        teamId: string,
-        playerId: string,
-        choice: ResigningChoice,
-        draftPointsManager?: { draftPoints: number }
-    ): ResigningResult {
+    moveToPracticeSquad(teamId: string, playerId: string): TransactionResult {
         const team = this.teams.get(teamId);
-        if (!team) {
+        const player = team?.roster.find(p => p.id === playerId);
+        if (!team || !player) {
+            return { success: false, message: 'Player not found on team' };
+        }
+        const name = `${player.firstName} ${player.lastName}`;
+        if (player.practiceSquad) {
+            return { success: false, message: `${name} is already on the practice squad` };
+        }
+        if (player.injuredReserve) {
+            return { success: false, message: `${name} is on injured reserve` };
+        }
+        if (player.yearsInLeague > this.rosterRules.practiceSquadMaxYears) {
             return {
                 success: false,
-                choice,
-                player: {} as EconomyPlayer,
-                message: 'Team not found',
+                message: `${name} has ${player.yearsInLeague} seasons in the league ` +
+                    `(practice squad maximum ${this.rosterRules.practiceSquadMaxYears})`,
             };
         }
-        return processResigningDecision(team, playerId, choice, draftPointsManager);
+        if (team.roster.filter(p => p.practiceSquad).length >= this.rosterRules.practiceSquadSize) {
+            return { success: false, message: `${team.name}'s practice squad is full` };
+        }
+
+        const rosterBefore = validateRoster(team, this.rosterRules);
+        player.practiceSquad = true;
+        return {
+            success: true,
+            message: `${name} moved to the practice squad`,
+            warnings: this.getRosterWarnings(team, rosterBefore),
+        };
     }
 
     /**
-     * Initialize a rookie contract for a drafted player.
-     * @param playerId - The player ID
-     * @param teamId - The team that drafted the player
-     * @param pickNumber - The overall draft pick number (1-60)
+     * Promote a practice squad player to the active roster
      */
-    initializeRookieContract(teamId: string, playerId: string, pickNumber: number): boolean {
+    promoteFromPracticeSquad(teamId: string, playerId: string): TransactionResult {
         const team = this.teams.get(teamId);
-        if (!team) return false;
-
-        const player = team.roster.find(p => p.id === playerId);
-        if (!player) return false;
+        const player = team?.roster.find(p => p.id === playerId);
+        if (!team || !player) {
+            return { success: false, message: 'Player not found on team' };
+        }
+        if (!player.practiceSquad) {
+            return { success: false, message: `${player.firstName} ${player.lastName} is not on the practice squad` };
+        }
+        if (getActiveRosterSize(team) >= this.rosterRules.maxSize) {
+            return { success: false, message: `${team.name} has no open roster spot` };
+        }
 
-        player.contractData = initializeRookieContract(pickNumber);
-        return true;
+        delete player.practiceSquad;
+        return { success: true, message: `${player.firstName} ${player.lastName} promoted to the active roster` };
     }
 
     /**
-     * Get contract summary for a player
+     * Make a roster legal: sort out the practice squad, cover every position
+     * minimum (practice squad first, then minimum-salary fillers), reach the
+     * minimum size and trim down to the maximum. Fillers are signed even over
+     * the cap, as a league-minimum exception. Returns the moves made.
+     * @param forGame - Before a game, injured players don't count toward the
+     *   position minimums, so their backups are promoted or signed
      */
-    getContractSummary(teamId: string, playerId: string): {
-        yearsRemaining: number;
-        annualSalary: number;
-        contractCount: number;
-        isExpired: boolean;
-        canBeTrad: boolean;
-        tradeValue: number;
-        proposedResignSalary: number;
-    } | null {
+    repairRoster(teamId: string, forGame: boolean = false): string[] {
         const team = this.teams.get(teamId);
-        if (!team) return null;
+        if (!team) return [];
 
-        const player = team.roster.find(p => p.id === playerId);
-        if (!player) return null;
+        const rules = this.rosterRules;
+        const moves: string[] = [];
+        const nameOf = (player: EconomyPlayer) => `${player.firstName} ${player.lastName}`;
+        const canPlay = (player: EconomyPlayer) => !forGame || (player.injury?.weeksOut ?? 0) === 0;
+        const activeAt = (position: Position) => team.roster
+            .filter(player => player.position === position && isActiveRosterPlayer(player) && canPlay(player)).length;
+        const byScore = (a: EconomyPlayer, b: EconomyPlayer) => calculateDepthChartScore(b) - calculateDepthChartScore(a);
+
+        // Practice squad players who no longer qualify (or don't fit) are promoted or cut
+        team.roster
+            .filter(player => player.practiceSquad)
+            .sort(byScore)
+            .forEach((player, index) => {
+                if (player.yearsInLeague <= rules.practiceSquadMaxYears && index < rules.practiceSquadSize) return;
+                if (getActiveRosterSize(team) < rules.maxSize) {
+                    delete player.practiceSquad;
+                    moves.push(`Promoted ${nameOf(player)} from the practice squad`);
+                } else {
+                    this.processResigning(team.id, player.id, 'release');
+                    moves.push(`Released ${nameOf(player)}`);
+                }
+            });
 
-        return getContractStatusSummary(player);
+        (Object.keys(rules.positionMinimums) as Position[]).forEach(position => {
+            while (activeAt(position) < rules.positionMinimums[position]) {
+                const promoted = team.roster
+                    .filter(player => player.practiceSquad && player.position === position && canPlay(player))
+                    .sort(byScore)[0];
+                if (promoted) {
+                    delete promoted.practiceSquad;
+                    moves.push(`Promoted ${nameOf(promoted)} from the practice squad`);
+                } else {
+                    moves.push(this.signRosterFiller(team, position));
+                }
+            }
+        });
+
+        // Fill out a short roster at the thinnest positions
+        const lineup = ECONOMY_CONSTANTS.GAME_SIM.LINEUP;
+        while (getActiveRosterSize(team) < rules.minSize) {
+            const position = (Object.keys(lineup) as Position[])
+                .sort((a, b) => activeAt(a) / lineup[a] - activeAt(b) / lineup[b])[0];
+            moves.push(this.signRosterFiller(team, position));
+        }
+
+        // Trim a long roster: the weakest spare players go to the practice squad if they qualify, otherwise they are cut
+        while (getActiveRosterSize(team) > rules.maxSize) {
+            const spare = team.roster
+                .filter(player => isActiveRosterPlayer(player) && activeAt(player.position) > rules.positionMinimums[player.position])
+                .sort((a, b) => byScore(b, a))[0];
+            if (!spare) break;
+
+            const squadSize = team.roster.filter(player => player.practiceSquad).length;
+            if (spare.yearsInLeague <= rules.practiceSquadMaxYears && squadSize < rules.practiceSquadSize) {
+                spare.practiceSquad = true;
+                moves.push(`Moved ${nameOf(spare)} to the practice squad`);
+            } else {
+                this.processResigning(team.id, spare.id, 'release');
+                moves.push(`Released ${nameOf(spare)}`);
+            }
+        }
+
+        return moves;
     }
 
     /**
-     * Calculate total salary cap usage for a team
+     * Sign the best free agent at a position (or a generated filler when there
+     * is none) to a one-year minimum-salary contract
      */
-    getTeamSalaryTotal(teamId: string): number {
-        const team = this.teams.get(teamId);
-        if (!team) return 0;
+    private signRosterFiller(team: Team, position: Position): string {
+        const freeAgent = this.freeAgents
+            .filter(player => player.position === position)
+            .sort((a, b) => b.overall - a.overall)[0];
+        const player = freeAgent ?? generatePlayer(position, ECONOMY_CONSTANTS.ROSTER.FILLER_TIER);
+
+        player.contractData = buildContract(
+            ECONOMY_CONSTANTS.CONTRACTS.RESIGN.MIN_SALARY,
+            { years: 1 },
+            freeAgent ? (freeAgent.contractData?.contractCount ?? 0) + 1 : 0,
+            player.contractData?.draftPick
+        );
+        this.freeAgents = this.freeAgents.filter(p => p.id !== player.id);
+        if (this.freeAgency) {
+            this.freeAgency.bids
+                .filter(bid => bid.playerId === player.id && bid.status === 'active')
+                .forEach(bid => { bid.status = 'rejected'; });
+        }
+        team.roster.push(player);
+        return `Signed ${player.firstName} ${player.lastName} (${position}) to a minimum-salary contract`;
+    }
 
-        return team.roster.reduce((total, player) => {
-            return total + (player.contractData?.annualSalary ?? 0);
-        }, 0);
+    /**
+     * Let AI teams repair their rosters before games
+     * @param teamIds - Only these teams (defaults to every team)
+     */
+    private repairAIRosters(teamIds: string[] = Array.from(this.teams.keys())): void {
+        teamIds
+            .filter(teamId => teamId !== this.userTeamId)
+            .forEach(teamId => this.repairRoster(teamId, true));
     }
 
     /**
-     * Get a summary of a player's economy status
+     * Roster rules a transaction broke (or made worse), as warning messages
      */
-    getPlayerEconomySummary(player: EconomyPlayer): {
-        currentMultiplier: number;
-        yearsToCliff: number;
-        hasHitCliff: boolean;
-        accumulatedFame: number;
-        seasonFame: number;
-        harvestValue: number;
-        marketValue: number;
-    } {
-        return {
-            currentMultiplier: calculateCurrentMultiplier(player),
-            yearsToCliff: getYearsToCliff(player),
-            hasHitCliff: hasHitCliff(player),
-            accumulatedFame: player.hypeData.accumulatedFameBank,
-            seasonFame: player.hypeData.seasonFameEarnings,
-            harvestValue: calculateHarvestValue(player),
-            marketValue: calculatePlayerCost(player),
-        };
+    private getRosterWarnings(team: Team, before: RosterViolation[]): string[] | undefined {
+        const broken = findNewRosterViolations(before, validateRoster(team, this.rosterRules));
+        return broken.length > 0 ? broken.map(violation => violation.message) : undefined;
     }
 
     // ========================================================================
@@ -2681,24 +11304,87 @@ export class FootballEconomyEngine {
     // ========================================================================
 
     /**
-     * Export state for saving
+     * Export state for saving, wrapped in a versioned save envelope
      */
-    exportState(): { teams: Team[]; seasonStandings: SeasonStandings | null } {
-        return {
+    exportState(): SaveEnvelope {
+        return createSaveEnvelope({
             teams: Array.from(this.teams.values()),
             seasonStandings: this.seasonStandings,
-        };
+            randomState: this.getRandomState(),
+            leagueStructure: this.leagueStructure,
+            salaryCap: this.salaryCap,
+            rosterRules: this.rosterRules,
+            negotiations: this.negotiations,
+            freeAgents: this.freeAgents,
+            freeAgency: this.freeAgency,
+            userTeamId: this.userTeamId,
+            draftPicks: this.draftPicks,
+            draft: this.draft,
+            scoutingReports: this.scoutingReports,
+            retiredPlayers: this.retiredPlayers,
+            seasonAwards: this.seasonAwards,
+        });
     }
 
     /**
-     * Import state from save
+     * Import state from save.
+     * Accepts current envelopes and older saves (including pre-envelope raw state),
+     * migrating them forward. Nothing is changed if the save fails validation.
+     * Restores the random source too, so a reloaded game continues the same sequence.
      */
-    importState(state: { teams: Team[]; seasonStandings?: SeasonStandings | null }): void {
+    importState(save: unknown): SaveLoadResult {
+        const migration = migrateSaveData(save);
+        const { errors } = migration;
+
+        if (!migration.envelope) {
+            return {
+                success: false,
+                message: `Save rejected: ${errors.length} problem(s) found`,
+                errors,
+                originalSchemaVersion: migration.originalSchemaVersion,
+                migrationsApplied: migration.migrationsApplied,
+            };
+        }
+
+        const { state } = migration.envelope;
+
         this.teams.clear();
         state.teams.forEach(team => {
             this.teams.set(team.id, team);
         });
         this.seasonStandings = state.seasonStandings ?? null;
+        this.leagueStructure = state.leagueStructure ?? null;
+        this.salaryCap = state.salaryCap;
+        this.rosterRules = state.rosterRules;
+        this.negotiations = state.negotiations;
+        this.freeAgents = state.freeAgents;
+        this.freeAgency = state.freeAgency;
+        this.userTeamId = state.userTeamId;
+        this.draftPicks = state.draftPicks;
+        this.draft = state.draft;
+        this.scoutingReports = state.scoutingReports;
+        this.retiredPlayers = state.retiredPlayers;
+        this.seasonAwards = state.seasonAwards;
+
+        // Standings hold their own copies of teams after a JSON round trip - relink them
+        if (this.seasonStandings) {
+            this.seasonStandings.teams = this.seasonStandings.teams
+                .map(team => this.teams.get(team.id) ?? team);
+        }
+
+        if (state.randomState) {
+            setRandomSource(SeededRandom.fromState(state.randomState));
+        }
+
+        return {
+            success: true,
+            message: migration.migrationsApplied.length > 0
+                ? `Save loaded and upgraded from schema v${migration.originalSchemaVersion} to v${SAVE_FORMAT.SCHEMA_VERSION}`
+                : 'Save loaded',
+            errors: [],
+            originalSchemaVersion: migration.originalSchemaVersion,
+            migrationsApplied: migration.migrationsApplied,
+        };
     }
 }
 
@@ -2713,10 +11399,8 @@ export const economyEngine = new FootballEconomyEngine();
 // INTEGRATION HELPERS
 // ============================================================================
 
-/**
- * Helper to migrate existing players to have hype data, core attributes, and contract data
- */
-export function migratePlayerToEconomy(existingPlayer: {
+/** A player saved before the economy layer existed */
+export interface LegacyPlayer {
     id: string;
     firstName: string;
     lastName: string;
@@ -2730,7 +11414,12 @@ export function migratePlayerToEconomy(existingPlayer: {
     salaryCost?: number;
     coreAttributes?: CoreAttributes;
     contractData?: ContractData;
-}): EconomyPlayer {
+}
+
+/**
+ * Helper to migrate existing players to have hype data, core attributes, and contract data
+ */
+export function migratePlayerToEconomy(existingPlayer: LegacyPlayer): EconomyPlayer {
     // Infer tier from overall for core attribute generation
     const tier: PlayerTier = existingPlayer.overall >= 88 ? 'elite' :
         existingPlayer.overall >= 78 ? 'veteran' :